@@ -1305,6 +1305,27 @@ export const NON_STANDARD_TAGS = [
 	"device-identity",
 	"pair-device-sign",
 	"dirty",
+	"retry",
+	"keys",
+	"rmr",
+	"enc_p",
+	"enc_iv",
+	"sync",
+	"collection",
+	"patches",
+	"patch",
+	"conflict",
+	"link_code_companion_reg",
+	"link_code_pairing_wrapped_companion_ephemeral_pub",
+	"companion_server_auth_key_pub",
+	"companion_platform_id",
+	"companion_platform_display",
+	"link_code_pairing_nonce",
+	"link_code_pairing_ref",
+	"primary_identity_pub",
+	"link_code_pairing_wrapped_primary_ephemeral_pub",
+	"link_code_pairing_wrapped_key_bundle",
+	"companion_identity_public",
 ] as const;
 
 export const TOKEN_MAP: { [token: string]: { dict?: number; index: number } } =
@@ -1,3 +1,4 @@
+import { decodeBigEndian } from "@wha.ts/utils";
 import type { BinaryNode } from "./types";
 
 export const getBinaryNodeChild = (
@@ -19,3 +20,20 @@ export const getBinaryNodeChildren = (
 	}
 	return [];
 };
+
+export const getBinaryNodeChildBuffer = (
+	node: BinaryNode | undefined,
+	childTag: string,
+): Uint8Array | undefined => {
+	const content = getBinaryNodeChild(node, childTag)?.content;
+	return content instanceof Uint8Array ? content : undefined;
+};
+
+export const getBinaryNodeChildUInt = (
+	node: BinaryNode | undefined,
+	childTag: string,
+	length: number,
+): number | undefined => {
+	const buffer = getBinaryNodeChildBuffer(node, childTag);
+	return buffer ? decodeBigEndian(buffer, length) : undefined;
+};
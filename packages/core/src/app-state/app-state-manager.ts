@@ -0,0 +1,369 @@
+import { toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChildren, S_WHATSAPP_NET } from "@wha.ts/binary";
+import {
+	type Message_AppStateSyncKey,
+	SyncdMutation_SyncdOperation,
+	SyncdPatchSchema,
+} from "@wha.ts/proto";
+import type { AppStateSyncVersion, IAuthStateProvider } from "@wha.ts/types";
+import {
+	type TypedCustomEvent,
+	TypedEventTarget,
+} from "@wha.ts/types/generics/typed-event-target";
+import { base64ToBytes, bytesToBase64, Mutex } from "@wha.ts/utils";
+import type { ConnectionManager } from "../core/connection";
+import { MAX_APP_STATE_SYNC_ATTEMPTS } from "../defaults";
+import type { MediaManager } from "../media/media-manager";
+import type { MessageProcessor } from "../messaging/message-processor";
+import type { ILogger } from "../transport/types";
+import type { AppStatePatch } from "./chat-modification";
+import { type AppStateMutation, toAppStateMutation } from "./mutations";
+import {
+	APP_STATE_COLLECTIONS,
+	type AppStateCollection,
+	type DecodedCollection,
+	decodeSyncdPatch,
+	decodeSyncdSnapshot,
+	type ExternalBlobDownloader,
+	encodeSyncdPatch,
+	expandAppStateSyncKey,
+	extractSyncdCollections,
+	MissingAppStateKeyError,
+	type MutationKeys,
+	newAppStateVersion,
+	type SyncdCollectionResponse,
+} from "./syncd";
+
+interface AppStateEventMap {
+	"app-state.mutation": AppStateMutation;
+}
+
+const isAppStateCollection = (name: string): name is AppStateCollection =>
+	(APP_STATE_COLLECTIONS as readonly string[]).includes(name);
+
+/**
+ * Keeps chats, contacts and settings in sync with our other devices
+ * ("syncd"). Stores the app state keys our primary device shares, pulls
+ * snapshots and patches with `w:sync:app:state` IQs, verifies them against
+ * the stored LTHash and reports each change as an `app-state.mutation`.
+ */
+export class AppStateManager extends TypedEventTarget<AppStateEventMap> {
+	private syncMutex = new Mutex();
+	/** Collections that stopped on a key we did not have yet. */
+	private awaitingKeys = new Set<AppStateCollection>();
+
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<
+			ConnectionManager,
+			"addEventListener" | "query"
+		>,
+		messageProcessor: Pick<MessageProcessor, "addEventListener">,
+		private mediaManager: Pick<MediaManager, "downloadEncryptedFile">,
+	) {
+		super();
+
+		messageProcessor.addEventListener("app-state.key-share", ((
+			event: TypedCustomEvent<{ keys: Message_AppStateSyncKey[] }>,
+		) => {
+			this.storeKeyShare(event.detail.keys).catch((err) => {
+				this.logger.error({ err }, "Failed to store app state sync keys");
+			});
+		}) as EventListener);
+
+		this.connectionManager.addEventListener("node.received", ((
+			event: TypedCustomEvent<{ node: BinaryNode }>,
+		) => {
+			const { node } = event.detail;
+			if (node.tag !== "notification" || node.attrs.type !== "server_sync") {
+				return;
+			}
+			const collections = getBinaryNodeChildren(node, "collection")
+				.map((collection) => collection.attrs.name ?? "")
+				.filter(isAppStateCollection);
+			this.resync(collections).catch((err) => {
+				this.logger.error({ err, collections }, "App state resync failed");
+			});
+		}) as EventListener);
+	}
+
+	/**
+	 * Stores shared keys and remembers the newest as the key for our own
+	 * patches. Collections that waited for a key, or all of them on the
+	 * first share after pairing, are synced again.
+	 */
+	public async storeKeyShare(keys: Message_AppStateSyncKey[]): Promise<void> {
+		const update: Record<string, { keyData: Uint8Array; timestamp: number }> =
+			{};
+		let newest: { id: string; timestamp: number } | undefined;
+		for (const { keyId, keyData } of keys) {
+			if (!keyId?.keyId.length || !keyData?.keyData.length) {
+				continue;
+			}
+			const id = bytesToBase64(keyId.keyId);
+			const timestamp = Number(keyData.timestamp);
+			update[id] = { keyData: keyData.keyData, timestamp };
+			if (!newest || timestamp >= newest.timestamp) {
+				newest = { id, timestamp };
+			}
+		}
+		if (!newest) {
+			return;
+		}
+
+		await this.auth.keys.set({ "app-state-sync-key": update });
+		const isFirstShare = !this.auth.creds.myAppStateKeyId;
+		this.auth.creds.myAppStateKeyId = newest.id;
+		await this.auth.saveCreds();
+		this.logger.info(
+			{ keys: Object.keys(update).length },
+			"Stored app state sync keys",
+		);
+
+		const collections = isFirstShare
+			? [...APP_STATE_COLLECTIONS]
+			: [...this.awaitingKeys];
+		if (collections.length) {
+			await this.resync(collections);
+		}
+	}
+
+	/**
+	 * Pulls every given collection up to the server's latest version. A
+	 * collection that fails verification is reset and fetched again from a
+	 * snapshot, up to `MAX_APP_STATE_SYNC_ATTEMPTS` times.
+	 */
+	public async resync(
+		collections: readonly AppStateCollection[] = APP_STATE_COLLECTIONS,
+	): Promise<void> {
+		await this.syncMutex.runExclusive(() => this.syncCollections(collections));
+	}
+
+	/**
+	 * Encrypts a mutation with our current app state key and sends it as a
+	 * patch on top of the latest server version. Once the server accepts it
+	 * the new state is stored and the change is reported like a synced one.
+	 */
+	public async push({
+		collection,
+		index,
+		value,
+		version,
+	}: AppStatePatch): Promise<void> {
+		const keyId = this.auth.creds.myAppStateKeyId;
+		if (!keyId) {
+			throw new Error("No app state sync key has been shared yet");
+		}
+
+		await this.syncMutex.runExclusive(async () => {
+			await this.syncCollections([collection]);
+			const keyIdBytes = base64ToBytes(keyId);
+			const { [collection]: state } = await this.getStates([collection]);
+			const operation = SyncdMutation_SyncdOperation.SET;
+			const encoded = encodeSyncdPatch(
+				collection,
+				{ operation, index, value, version },
+				state,
+				keyIdBytes,
+				await this.getMutationKeys(keyIdBytes),
+			);
+
+			await this.connectionManager.query({
+				tag: "iq",
+				attrs: {
+					to: S_WHATSAPP_NET,
+					xmlns: "w:sync:app:state",
+					type: "set",
+				},
+				content: [
+					{
+						tag: "sync",
+						attrs: {},
+						content: [
+							{
+								tag: "collection",
+								attrs: {
+									name: collection,
+									version: state.version.toString(),
+									return_snapshot: "false",
+								},
+								content: [
+									{
+										tag: "patch",
+										attrs: {},
+										content: toBinary(SyncdPatchSchema, encoded.patch),
+									},
+								],
+							},
+						],
+					},
+				],
+			});
+
+			await this.auth.keys.set({
+				"app-state-sync-version": { [collection]: encoded.state },
+			});
+			this.dispatchTypedEvent(
+				"app-state.mutation",
+				toAppStateMutation(collection, { operation: "set", index, value }),
+			);
+		});
+	}
+
+	/** Runs under `syncMutex`; loops until every collection is up to date. */
+	private async syncCollections(
+		collections: readonly AppStateCollection[],
+	): Promise<void> {
+		const pending = new Set(collections);
+		const attempts = new Map<AppStateCollection, number>();
+
+		while (pending.size) {
+			const states = await this.getStates([...pending]);
+			const response = await this.connectionManager.query({
+				tag: "iq",
+				attrs: {
+					to: S_WHATSAPP_NET,
+					xmlns: "w:sync:app:state",
+					type: "set",
+				},
+				content: [
+					{
+						tag: "sync",
+						attrs: {},
+						content: [...pending].map((name) => ({
+							tag: "collection",
+							attrs: {
+								name,
+								version: states[name].version.toString(),
+								return_snapshot: (!states[name].version).toString(),
+							},
+						})),
+					},
+				],
+			});
+
+			const results = await extractSyncdCollections(
+				response,
+				this.downloadBlob,
+			);
+			for (const name of [...pending]) {
+				const result = results[name];
+				if (!result) {
+					pending.delete(name);
+					continue;
+				}
+				try {
+					await this.applyCollection(name, states[name], result);
+					this.awaitingKeys.delete(name);
+					if (!result.hasMorePatches) {
+						pending.delete(name);
+					}
+				} catch (err) {
+					if (err instanceof MissingAppStateKeyError) {
+						this.logger.warn(
+							{ collection: name, keyId: err.keyId },
+							"Waiting for the app state key to sync collection",
+						);
+						this.awaitingKeys.add(name);
+						pending.delete(name);
+						continue;
+					}
+
+					const attempt = (attempts.get(name) ?? 0) + 1;
+					attempts.set(name, attempt);
+					this.logger.error(
+						{ err, collection: name, attempt },
+						"Failed to apply app state, resyncing from a snapshot",
+					);
+					await this.auth.keys.set({
+						"app-state-sync-version": { [name]: null },
+					});
+					if (attempt >= MAX_APP_STATE_SYNC_ATTEMPTS) {
+						pending.delete(name);
+					}
+				}
+			}
+		}
+	}
+
+	/** The expanded keys for a key id, or a `MissingAppStateKeyError`. */
+	public getMutationKeys = async (keyId: Uint8Array): Promise<MutationKeys> => {
+		const id = bytesToBase64(keyId);
+		const { [id]: key } = await this.auth.keys.get("app-state-sync-key", [id]);
+		if (!key) {
+			throw new MissingAppStateKeyError(id);
+		}
+		return expandAppStateSyncKey(key.keyData);
+	};
+
+	private downloadBlob: ExternalBlobDownloader = (blob) =>
+		this.mediaManager.downloadEncryptedFile(
+			{
+				directPath: blob.directPath,
+				mediaKey: blob.mediaKey,
+				fileEncSha256: blob.fileEncSha256,
+				fileSha256: blob.fileSha256,
+			},
+			"md-app-state",
+		);
+
+	private async getStates(
+		collections: AppStateCollection[],
+	): Promise<Record<AppStateCollection, AppStateSyncVersion>> {
+		const stored = await this.auth.keys.get(
+			"app-state-sync-version",
+			collections,
+		);
+		return Object.fromEntries(
+			collections.map((name) => [name, stored[name] ?? newAppStateVersion()]),
+		) as Record<AppStateCollection, AppStateSyncVersion>;
+	}
+
+	/**
+	 * Decodes the snapshot and patches of one collection, stores the new
+	 * version and only then reports the mutations.
+	 */
+	private async applyCollection(
+		name: AppStateCollection,
+		initialState: AppStateSyncVersion,
+		{ snapshot, patches }: SyncdCollectionResponse,
+	): Promise<void> {
+		let state = initialState;
+		const decoded: DecodedCollection["mutations"] = [];
+
+		if (snapshot) {
+			const result = await decodeSyncdSnapshot(
+				name,
+				snapshot,
+				this.getMutationKeys,
+			);
+			state = result.state;
+			decoded.push(...result.mutations);
+		}
+		for (const patch of patches) {
+			const result = await decodeSyncdPatch(
+				name,
+				patch,
+				state,
+				this.getMutationKeys,
+				this.downloadBlob,
+			);
+			state = result.state;
+			decoded.push(...result.mutations);
+		}
+
+		await this.auth.keys.set({ "app-state-sync-version": { [name]: state } });
+		this.logger.debug(
+			{ collection: name, version: state.version, mutations: decoded.length },
+			"Applied app state",
+		);
+		for (const mutation of decoded) {
+			this.dispatchTypedEvent(
+				"app-state.mutation",
+				toAppStateMutation(name, mutation),
+			);
+		}
+	}
+}
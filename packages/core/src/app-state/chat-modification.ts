@@ -0,0 +1,156 @@
+import { create } from "@bufbuild/protobuf";
+import {
+	MessageKeySchema,
+	type SyncActionValue,
+	SyncActionValue_ArchiveChatActionSchema,
+	SyncActionValue_DeleteChatActionSchema,
+	SyncActionValue_MarkChatAsReadActionSchema,
+	SyncActionValue_MuteActionSchema,
+	SyncActionValue_PinActionSchema,
+	SyncActionValue_StarActionSchema,
+	type SyncActionValue_SyncActionMessageRange,
+	SyncActionValue_SyncActionMessageRangeSchema,
+	SyncActionValue_SyncActionMessageSchema,
+	SyncActionValueSchema,
+} from "@wha.ts/proto";
+import type { WAMessageKey } from "../messaging/types";
+import type { WAMessage } from "../messaging/wa-message";
+import type { AppStateCollection } from "./syncd";
+
+/** A change to a chat, applied with `client.chatModify(jid, modification)`. */
+export type ChatModification =
+	| { archive: boolean }
+	| { pin: boolean }
+	/** Mutes until this time in milliseconds, or unmutes with `null`. */
+	| { mute: number | null }
+	| { markRead: boolean }
+	| { star: { key: WAMessageKey; starred: boolean } }
+	| { delete: true };
+
+/** A single app state mutation to push, with the collection it belongs to. */
+export interface AppStatePatch {
+	collection: AppStateCollection;
+	index: string[];
+	value: SyncActionValue;
+	/** The action version WhatsApp expects for this kind of index. */
+	version: number;
+}
+
+/**
+ * The range of messages an archive, mark read or delete applies to, so other
+ * devices ignore the change for messages that arrive later.
+ */
+export const buildMessageRange = (
+	messages: WAMessage[],
+): SyncActionValue_SyncActionMessageRange =>
+	create(SyncActionValue_SyncActionMessageRangeSchema, {
+		lastMessageTimestamp: BigInt(
+			Math.max(0, ...messages.map((message) => message.timestamp)),
+		),
+		messages: messages.map(({ key, timestamp }) =>
+			create(SyncActionValue_SyncActionMessageSchema, {
+				key: create(MessageKeySchema, {
+					remoteJid: key.remoteJid,
+					fromMe: key.fromMe,
+					id: key.id,
+					participant: key.participant,
+				}),
+				timestamp: BigInt(timestamp),
+			}),
+		),
+	});
+
+/** Builds the syncd index and action for a chat modification. */
+export const chatModificationToPatch = (
+	jid: string,
+	modification: ChatModification,
+	messageRange?: SyncActionValue_SyncActionMessageRange,
+): AppStatePatch => {
+	const timestamp = BigInt(Date.now());
+
+	if ("archive" in modification) {
+		return {
+			collection: "regular_low",
+			index: ["archive", jid],
+			value: create(SyncActionValueSchema, {
+				timestamp,
+				archiveChatAction: create(SyncActionValue_ArchiveChatActionSchema, {
+					archived: modification.archive,
+					messageRange,
+				}),
+			}),
+			version: 3,
+		};
+	}
+	if ("pin" in modification) {
+		return {
+			collection: "regular_low",
+			index: ["pin_v1", jid],
+			value: create(SyncActionValueSchema, {
+				timestamp,
+				pinAction: create(SyncActionValue_PinActionSchema, {
+					pinned: modification.pin,
+				}),
+			}),
+			version: 5,
+		};
+	}
+	if ("mute" in modification) {
+		return {
+			collection: "regular_high",
+			index: ["mute", jid],
+			value: create(SyncActionValueSchema, {
+				timestamp,
+				muteAction: create(SyncActionValue_MuteActionSchema, {
+					muted: modification.mute !== null,
+					muteEndTimestamp:
+						modification.mute !== null ? BigInt(modification.mute) : undefined,
+				}),
+			}),
+			version: 2,
+		};
+	}
+	if ("markRead" in modification) {
+		return {
+			collection: "regular_low",
+			index: ["markChatAsRead", jid],
+			value: create(SyncActionValueSchema, {
+				timestamp,
+				markChatAsReadAction: create(
+					SyncActionValue_MarkChatAsReadActionSchema,
+					{ read: modification.markRead, messageRange },
+				),
+			}),
+			version: 3,
+		};
+	}
+	if ("star" in modification) {
+		const { key, starred } = modification.star;
+		return {
+			collection: "regular_low",
+			index: [
+				"star",
+				jid,
+				key.id,
+				key.fromMe ? "1" : "0",
+				key.participant ?? "0",
+			],
+			value: create(SyncActionValueSchema, {
+				timestamp,
+				starAction: create(SyncActionValue_StarActionSchema, { starred }),
+			}),
+			version: 2,
+		};
+	}
+	return {
+		collection: "regular_high",
+		index: ["deleteChat", jid, "1"],
+		value: create(SyncActionValueSchema, {
+			timestamp,
+			deleteChatAction: create(SyncActionValue_DeleteChatActionSchema, {
+				messageRange,
+			}),
+		}),
+		version: 6,
+	};
+};
@@ -0,0 +1,52 @@
+import { hkdf } from "@wha.ts/utils";
+
+/** Size of an app state LTHash in bytes. */
+export const LT_HASH_SIZE = 128;
+
+const LT_HASH_INFO = "WhatsApp Patch Integrity";
+
+/**
+ * Combines two hashes as little-endian 16-bit words; `DataView` wraps each
+ * word modulo 2^16.
+ */
+const pointwise = (
+	hash: Uint8Array,
+	item: Uint8Array,
+	op: (a: number, b: number) => number,
+): Uint8Array => {
+	const result = new Uint8Array(hash.length);
+	const hashView = new DataView(hash.buffer, hash.byteOffset, hash.byteLength);
+	const itemView = new DataView(item.buffer, item.byteOffset, item.byteLength);
+	const resultView = new DataView(result.buffer);
+	for (let offset = 0; offset < hash.length; offset += 2) {
+		resultView.setUint16(
+			offset,
+			op(hashView.getUint16(offset, true), itemView.getUint16(offset, true)),
+			true,
+		);
+	}
+	return result;
+};
+
+const expand = (item: Uint8Array) =>
+	hkdf(item, LT_HASH_SIZE, { info: LT_HASH_INFO });
+
+/**
+ * The homomorphic "LTHash" over the value MACs of an app state collection:
+ * values can be added and removed in any order and the hash only depends on
+ * the final set.
+ */
+export const ltHashSubtractThenAdd = (
+	hash: Uint8Array,
+	add: Uint8Array[],
+	subtract: Uint8Array[],
+): Uint8Array => {
+	let result = hash;
+	for (const item of subtract) {
+		result = pointwise(result, expand(item), (a, b) => a - b);
+	}
+	for (const item of add) {
+		result = pointwise(result, expand(item), (a, b) => a + b);
+	}
+	return result;
+};
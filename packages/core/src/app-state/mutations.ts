@@ -0,0 +1,116 @@
+import type { SyncActionValue } from "@wha.ts/proto";
+import type { WAMessageKey } from "../messaging/types";
+import type { AppStateCollection, DecodedMutation } from "./syncd";
+
+/** A chat, contact or setting change synced from another of our devices. */
+export type AppStateAction =
+	/** `muteEndTime` is in milliseconds; undefined when the chat was unmuted. */
+	| { type: "mute"; jid: string; muteEndTime?: number }
+	| { type: "pin"; jid: string; pinned: boolean }
+	| { type: "archive"; jid: string; archived: boolean }
+	| { type: "markRead"; jid: string; read: boolean }
+	| { type: "deleteChat"; jid: string }
+	| { type: "star"; key: WAMessageKey; starred: boolean }
+	| { type: "contact"; jid: string; fullName?: string; firstName?: string }
+	| {
+			type: "labelEdit";
+			labelId: string;
+			name: string;
+			color: number;
+			deleted: boolean;
+	  }
+	| { type: "labelAssociation"; labelId: string; jid: string; labeled: boolean }
+	| { type: "pushName"; name: string }
+	/** An index this library does not model yet. */
+	| { type: "unknown"; index: string[] };
+
+export type AppStateMutation = AppStateAction & {
+	collection: AppStateCollection;
+	operation: DecodedMutation["operation"];
+	/** Milliseconds at which the change was made. */
+	timestamp: number;
+	/** The decrypted action, for fields the typed action leaves out. */
+	value?: SyncActionValue;
+};
+
+const toAction = (
+	[kind, ...args]: string[],
+	value: SyncActionValue | undefined,
+): AppStateAction => {
+	const [jid = "", second, third, fourth] = args;
+	switch (kind) {
+		case "mute":
+			return {
+				type: "mute",
+				jid,
+				muteEndTime: value?.muteAction?.muted
+					? Number(value.muteAction.muteEndTimestamp)
+					: undefined,
+			};
+		case "pin_v1":
+			return { type: "pin", jid, pinned: !!value?.pinAction?.pinned };
+		case "archive":
+			return {
+				type: "archive",
+				jid,
+				archived: !!value?.archiveChatAction?.archived,
+			};
+		case "markChatAsRead":
+			return {
+				type: "markRead",
+				jid,
+				read: !!value?.markChatAsReadAction?.read,
+			};
+		case "deleteChat":
+			return { type: "deleteChat", jid };
+		case "star":
+			return {
+				type: "star",
+				key: {
+					remoteJid: jid,
+					id: second ?? "",
+					fromMe: third === "1",
+					participant: fourth && fourth !== "0" ? fourth : undefined,
+				},
+				starred: !!value?.starAction?.starred,
+			};
+		case "contact":
+			return {
+				type: "contact",
+				jid,
+				fullName: value?.contactAction?.fullName || undefined,
+				firstName: value?.contactAction?.firstName || undefined,
+			};
+		case "label_edit":
+			return {
+				type: "labelEdit",
+				labelId: jid,
+				name: value?.labelEditAction?.name ?? "",
+				color: value?.labelEditAction?.color ?? 0,
+				deleted: !!value?.labelEditAction?.deleted,
+			};
+		case "label_jid":
+			return {
+				type: "labelAssociation",
+				labelId: jid,
+				jid: second ?? "",
+				labeled: !!value?.labelAssociationAction?.labeled,
+			};
+		case "setting_pushName":
+			return { type: "pushName", name: value?.pushNameSetting?.name ?? "" };
+		default:
+			return { type: "unknown", index: kind ? [kind, ...args] : args };
+	}
+};
+
+/** Maps a decrypted mutation onto the typed `app-state.mutation` payload. */
+export const toAppStateMutation = (
+	collection: AppStateCollection,
+	{ operation, index, value }: DecodedMutation,
+): AppStateMutation => ({
+	...toAction(index, value),
+	collection,
+	operation,
+	timestamp: Number(value?.timestamp ?? 0),
+	value,
+});
@@ -0,0 +1,458 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild, getBinaryNodeChildren } from "@wha.ts/binary";
+import {
+	type ExternalBlobReference,
+	ExternalBlobReferenceSchema,
+	KeyIdSchema,
+	SyncActionDataSchema,
+	type SyncActionValue,
+	SyncdIndexSchema,
+	type SyncdMutation,
+	SyncdMutation_SyncdOperation,
+	SyncdMutationSchema,
+	SyncdMutationsSchema,
+	type SyncdPatch,
+	SyncdPatchSchema,
+	SyncdRecordSchema,
+	type SyncdSnapshot,
+	SyncdSnapshotSchema,
+	SyncdValueSchema,
+	SyncdVersionSchema,
+} from "@wha.ts/proto";
+import type { AppStateSyncVersion } from "@wha.ts/types";
+import {
+	aesDecrypt,
+	aesEncrypt,
+	bytesToBase64,
+	bytesToUtf8,
+	concatBytes,
+	equalBytes,
+	hkdf,
+	hmacSha512,
+	hmacSign,
+	utf8ToBytes,
+} from "@wha.ts/utils";
+import { LT_HASH_SIZE, ltHashSubtractThenAdd } from "./lt-hash";
+
+/** The app state collections, from the most to the least urgent. */
+export const APP_STATE_COLLECTIONS = [
+	"critical_block",
+	"critical_unblock_low",
+	"regular_high",
+	"regular_low",
+	"regular",
+] as const;
+
+export type AppStateCollection = (typeof APP_STATE_COLLECTIONS)[number];
+
+/** Keys expanded from an app state sync key shared by our primary device. */
+export interface MutationKeys {
+	indexKey: Uint8Array;
+	valueEncryptionKey: Uint8Array;
+	valueMacKey: Uint8Array;
+	snapshotMacKey: Uint8Array;
+	patchMacKey: Uint8Array;
+}
+
+/** Resolves the mutation keys for a key id found in a patch or record. */
+export type MutationKeyLookup = (keyId: Uint8Array) => Promise<MutationKeys>;
+
+/** Fetches and decrypts an `md-app-state` blob. */
+export type ExternalBlobDownloader = (
+	blob: ExternalBlobReference,
+) => Promise<Uint8Array>;
+
+export interface DecodedMutation {
+	operation: "set" | "remove";
+	/** The JSON index, e.g. `["mute", jid]`. */
+	index: string[];
+	value?: SyncActionValue;
+}
+
+export interface DecodedCollection {
+	state: AppStateSyncVersion;
+	mutations: DecodedMutation[];
+}
+
+export interface SyncdCollectionResponse {
+	patches: SyncdPatch[];
+	snapshot?: SyncdSnapshot;
+	hasMorePatches: boolean;
+}
+
+/** Raised when a patch needs a key our primary device has not shared yet. */
+export class MissingAppStateKeyError extends Error {
+	constructor(public readonly keyId: string) {
+		super(`App state sync key ${keyId} is not available`);
+		this.name = "MissingAppStateKeyError";
+	}
+}
+
+const VALUE_MAC_LENGTH = 32;
+
+export const newAppStateVersion = (): AppStateSyncVersion => ({
+	version: 0,
+	hash: new Uint8Array(LT_HASH_SIZE),
+	indexValueMap: {},
+});
+
+export const expandAppStateSyncKey = (keyData: Uint8Array): MutationKeys => {
+	const expanded = hkdf(keyData, 160, { info: "WhatsApp Mutation Keys" });
+	return {
+		indexKey: expanded.slice(0, 32),
+		valueEncryptionKey: expanded.slice(32, 64),
+		valueMacKey: expanded.slice(64, 96),
+		snapshotMacKey: expanded.slice(96, 128),
+		patchMacKey: expanded.slice(128, 160),
+	};
+};
+
+const to64BitNetworkOrder = (value: number): Uint8Array => {
+	const bytes = new Uint8Array(8);
+	new DataView(bytes.buffer).setUint32(4, value);
+	return bytes;
+};
+
+export const generateValueMac = (
+	operation: SyncdMutation_SyncdOperation,
+	data: Uint8Array,
+	keyId: Uint8Array,
+	key: Uint8Array,
+): Uint8Array => {
+	const opByte = operation === SyncdMutation_SyncdOperation.SET ? 0x01 : 0x02;
+	const keyData = concatBytes(new Uint8Array([opByte]), keyId);
+	const length = new Uint8Array(8);
+	length[7] = keyData.length;
+	return hmacSha512(key, concatBytes(keyData, data, length)).slice(
+		0,
+		VALUE_MAC_LENGTH,
+	);
+};
+
+export const generateSnapshotMac = (
+	ltHash: Uint8Array,
+	version: number,
+	name: string,
+	key: Uint8Array,
+): Uint8Array =>
+	hmacSign(
+		key,
+		concatBytes(ltHash, to64BitNetworkOrder(version), utf8ToBytes(name)),
+	);
+
+export const generatePatchMac = (
+	snapshotMac: Uint8Array,
+	valueMacs: Uint8Array[],
+	version: number,
+	name: string,
+	key: Uint8Array,
+): Uint8Array =>
+	hmacSign(
+		key,
+		concatBytes(
+			snapshotMac,
+			...valueMacs,
+			to64BitNetworkOrder(version),
+			utf8ToBytes(name),
+		),
+	);
+
+/**
+ * Applies the records to the collection state: verifies each value and
+ * index MAC, decrypts the action and folds the value MAC into the LTHash.
+ */
+const decodeMutations = async (
+	mutations: SyncdMutation[],
+	initialState: AppStateSyncVersion,
+	getKeys: MutationKeyLookup,
+): Promise<DecodedCollection> => {
+	const indexValueMap = { ...initialState.indexValueMap };
+	const added: Uint8Array[] = [];
+	const removed: Uint8Array[] = [];
+	const decoded: DecodedMutation[] = [];
+
+	for (const { operation, record } of mutations) {
+		const keyId = record?.keyId?.id;
+		const indexMac = record?.index?.blob;
+		const content = record?.value?.blob;
+		if (!keyId || !indexMac || !content) {
+			throw new Error("App state mutation is missing its key, index or value");
+		}
+		const keys = await getKeys(keyId);
+		const encrypted = content.slice(0, -VALUE_MAC_LENGTH);
+		const valueMac = content.slice(-VALUE_MAC_LENGTH);
+		if (
+			!equalBytes(
+				generateValueMac(operation, encrypted, keyId, keys.valueMacKey),
+				valueMac,
+			)
+		) {
+			throw new Error("App state value MAC verification failed");
+		}
+
+		const action = fromBinary(
+			SyncActionDataSchema,
+			aesDecrypt(
+				keys.valueEncryptionKey,
+				encrypted.slice(16),
+				encrypted.slice(0, 16),
+			),
+		);
+		if (!equalBytes(hmacSign(keys.indexKey, action.index), indexMac)) {
+			throw new Error("App state index MAC verification failed");
+		}
+
+		const indexKey = bytesToBase64(indexMac);
+		const previous = indexValueMap[indexKey];
+		if (operation === SyncdMutation_SyncdOperation.REMOVE) {
+			if (!previous) {
+				throw new Error("App state mutation removes an unknown index");
+			}
+			delete indexValueMap[indexKey];
+		} else {
+			added.push(valueMac);
+			indexValueMap[indexKey] = valueMac;
+		}
+		if (previous) {
+			removed.push(previous);
+		}
+
+		decoded.push({
+			operation:
+				operation === SyncdMutation_SyncdOperation.REMOVE ? "remove" : "set",
+			index: JSON.parse(bytesToUtf8(action.index)),
+			value: action.value,
+		});
+	}
+
+	return {
+		state: {
+			version: initialState.version,
+			hash: ltHashSubtractThenAdd(initialState.hash, added, removed),
+			indexValueMap,
+		},
+		mutations: decoded,
+	};
+};
+
+/** Rebuilds a collection from a full snapshot and checks its MAC. */
+export const decodeSyncdSnapshot = async (
+	name: AppStateCollection,
+	snapshot: SyncdSnapshot,
+	getKeys: MutationKeyLookup,
+): Promise<DecodedCollection> => {
+	const version = Number(snapshot.version?.version ?? 0);
+	const result = await decodeMutations(
+		snapshot.records.map((record) =>
+			create(SyncdMutationSchema, {
+				operation: SyncdMutation_SyncdOperation.SET,
+				record,
+			}),
+		),
+		{ ...newAppStateVersion(), version },
+		getKeys,
+	);
+
+	const keys = await getKeys(snapshot.keyId?.id ?? new Uint8Array());
+	const expectedMac = generateSnapshotMac(
+		result.state.hash,
+		version,
+		name,
+		keys.snapshotMacKey,
+	);
+	if (!equalBytes(expectedMac, snapshot.mac)) {
+		throw new Error(`Failed to verify the ${name} snapshot at v${version}`);
+	}
+	return result;
+};
+
+/**
+ * Applies a patch on top of `state`, checking the patch MAC before and the
+ * snapshot MAC of the resulting LTHash after.
+ */
+export const decodeSyncdPatch = async (
+	name: AppStateCollection,
+	patch: SyncdPatch,
+	state: AppStateSyncVersion,
+	getKeys: MutationKeyLookup,
+	downloadBlob: ExternalBlobDownloader,
+): Promise<DecodedCollection> => {
+	const version = Number(patch.version?.version ?? 0);
+	const mutations = [...patch.mutations];
+	if (patch.externalMutations) {
+		const external = fromBinary(
+			SyncdMutationsSchema,
+			await downloadBlob(patch.externalMutations),
+		);
+		mutations.push(...external.mutations);
+	}
+
+	const keys = await getKeys(patch.keyId?.id ?? new Uint8Array());
+	const patchMac = generatePatchMac(
+		patch.snapshotMac,
+		mutations.map(
+			(mutation) =>
+				mutation.record?.value?.blob.slice(-VALUE_MAC_LENGTH) ??
+				new Uint8Array(),
+		),
+		version,
+		name,
+		keys.patchMacKey,
+	);
+	if (!equalBytes(patchMac, patch.patchMac)) {
+		throw new Error(`Invalid patch MAC for ${name} v${version}`);
+	}
+
+	const result = await decodeMutations(mutations, state, getKeys);
+	result.state.version = version;
+	const snapshotMac = generateSnapshotMac(
+		result.state.hash,
+		version,
+		name,
+		keys.snapshotMacKey,
+	);
+	if (!equalBytes(snapshotMac, patch.snapshotMac)) {
+		throw new Error(`Failed to verify the ${name} LTHash at v${version}`);
+	}
+	return result;
+};
+
+/**
+ * Reads the `<collection>` results of a `w:sync:app:state` IQ. Snapshots
+ * arrive as external blob references and are downloaded here.
+ */
+export const extractSyncdCollections = async (
+	response: BinaryNode,
+	downloadBlob: ExternalBlobDownloader,
+): Promise<Partial<Record<AppStateCollection, SyncdCollectionResponse>>> => {
+	const result: Partial<Record<AppStateCollection, SyncdCollectionResponse>> =
+		{};
+	const sync = getBinaryNodeChild(response, "sync");
+
+	for (const collection of getBinaryNodeChildren(sync, "collection")) {
+		const name = collection.attrs.name as AppStateCollection;
+		const patchesNode = getBinaryNodeChild(collection, "patches");
+		const patches: SyncdPatch[] = [];
+		for (const { content } of getBinaryNodeChildren(
+			patchesNode ?? collection,
+			"patch",
+		)) {
+			if (!(content instanceof Uint8Array)) {
+				continue;
+			}
+			const patch = fromBinary(SyncdPatchSchema, content);
+			patch.version ??= create(SyncdVersionSchema, {
+				version: BigInt(Number(collection.attrs.version ?? 0) + 1),
+			});
+			patches.push(patch);
+		}
+
+		let snapshot: SyncdSnapshot | undefined;
+		const snapshotContent = getBinaryNodeChild(collection, "snapshot")?.content;
+		if (snapshotContent instanceof Uint8Array) {
+			const reference = fromBinary(
+				ExternalBlobReferenceSchema,
+				snapshotContent,
+			);
+			snapshot = fromBinary(SyncdSnapshotSchema, await downloadBlob(reference));
+		}
+
+		result[name] = {
+			patches,
+			snapshot,
+			hasMorePatches: collection.attrs.has_more_patches === "true",
+		};
+	}
+	return result;
+};
+
+/**
+ * Encrypts a single mutation into a patch on top of `state` and returns the
+ * patch with the state it leads to.
+ */
+export const encodeSyncdPatch = (
+	name: AppStateCollection,
+	mutation: {
+		operation: SyncdMutation_SyncdOperation;
+		index: string[];
+		value: SyncActionValue;
+		version: number;
+	},
+	state: AppStateSyncVersion,
+	keyId: Uint8Array,
+	keys: MutationKeys,
+): { patch: SyncdPatch; state: AppStateSyncVersion } => {
+	const index = utf8ToBytes(JSON.stringify(mutation.index));
+	const encrypted = aesEncrypt(
+		toBinary(
+			SyncActionDataSchema,
+			create(SyncActionDataSchema, {
+				index,
+				value: mutation.value,
+				padding: new Uint8Array(),
+				version: mutation.version,
+			}),
+		),
+		keys.valueEncryptionKey,
+	);
+	const valueMac = generateValueMac(
+		mutation.operation,
+		encrypted,
+		keyId,
+		keys.valueMacKey,
+	);
+	const indexMac = hmacSign(keys.indexKey, index);
+
+	const indexKey = bytesToBase64(indexMac);
+	const previous = state.indexValueMap[indexKey];
+	const indexValueMap = { ...state.indexValueMap };
+	if (mutation.operation === SyncdMutation_SyncdOperation.REMOVE) {
+		delete indexValueMap[indexKey];
+	} else {
+		indexValueMap[indexKey] = valueMac;
+	}
+	const nextState: AppStateSyncVersion = {
+		version: state.version + 1,
+		hash: ltHashSubtractThenAdd(
+			state.hash,
+			mutation.operation === SyncdMutation_SyncdOperation.REMOVE
+				? []
+				: [valueMac],
+			previous ? [previous] : [],
+		),
+		indexValueMap,
+	};
+
+	const snapshotMac = generateSnapshotMac(
+		nextState.hash,
+		nextState.version,
+		name,
+		keys.snapshotMacKey,
+	);
+	const patch = create(SyncdPatchSchema, {
+		version: create(SyncdVersionSchema, { version: BigInt(nextState.version) }),
+		snapshotMac,
+		patchMac: generatePatchMac(
+			snapshotMac,
+			[valueMac],
+			nextState.version,
+			name,
+			keys.patchMacKey,
+		),
+		keyId: create(KeyIdSchema, { id: keyId }),
+		mutations: [
+			create(SyncdMutationSchema, {
+				operation: mutation.operation,
+				record: create(SyncdRecordSchema, {
+					index: create(SyncdIndexSchema, { blob: indexMac }),
+					value: create(SyncdValueSchema, {
+						blob: concatBytes(encrypted, valueMac),
+					}),
+					keyId: create(KeyIdSchema, { id: keyId }),
+				}),
+			}),
+		],
+	});
+	return { patch, state: nextState };
+};
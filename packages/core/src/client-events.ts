@@ -1,19 +1,20 @@
-import type { fromBinary } from "@bufbuild/protobuf";
 import type { BinaryNode } from "@wha.ts/binary";
-import type { MessageSchema } from "@wha.ts/proto";
 import type { ProtocolAddress } from "@wha.ts/signal";
+import type { AppStateMutation } from "./app-state/mutations";
 import type {
 	ConnectionUpdatePayload,
 	CredsUpdatePayload,
 } from "./core/authenticator-events";
 import type { NodePayload } from "./core/connection-events";
+import type { HistorySyncPayload } from "./messaging/history-sync";
+import type { WAMessage } from "./messaging/wa-message";
 
 declare module "@wha.ts/types" {
 	export interface ClientEventMap {
 		"connection.update": ConnectionUpdatePayload;
 		"creds.update": CredsUpdatePayload;
 		"message.received": {
-			message: ReturnType<typeof fromBinary<typeof MessageSchema>>;
+			message: WAMessage;
 			sender: ProtocolAddress;
 			rawNode: BinaryNode;
 		};
@@ -22,6 +23,8 @@ declare module "@wha.ts/types" {
 			rawNode: BinaryNode;
 			sender?: ProtocolAddress;
 		};
+		"history.sync": HistorySyncPayload;
+		"app-state.mutation": AppStateMutation;
 		"node.received": NodePayload;
 		"node.sent": NodePayload;
 	}
@@ -1,49 +1,117 @@
 import "./client-events";
-import { create, toBinary } from "@bufbuild/protobuf";
 import type { BinaryNode } from "@wha.ts/binary";
-import { jidDecode } from "@wha.ts/binary";
-import {
-	Message_ExtendedTextMessageSchema,
-	MessageSchema,
-} from "@wha.ts/proto";
-import { SessionCipher } from "@wha.ts/signal";
 import type {
 	ClientEventMap,
 	IAuthStateProvider,
 	IPlugin,
+	IStorageDatabase,
 	MergePlugins,
 } from "@wha.ts/types";
 import {
 	type TypedCustomEvent,
 	TypedEventTarget,
 } from "@wha.ts/types/generics/typed-event-target";
-import { generateMdTagPrefix, padRandomMax16 } from "@wha.ts/utils";
-import { Authenticator } from "./core/authenticator";
+import { AppStateManager } from "./app-state/app-state-manager";
+import {
+	buildMessageRange,
+	type ChatModification,
+	chatModificationToPatch,
+} from "./app-state/chat-modification";
+import type { AppStateMutation } from "./app-state/mutations";
+import type { AppStateCollection } from "./app-state/syncd";
+import type { ClientIdentity } from "./core/auth-payload-generators";
+import { Authenticator, type AuthState } from "./core/authenticator";
 import type {
 	ConnectionUpdatePayload,
 	CredsUpdatePayload,
 } from "./core/authenticator-events";
 import { ConnectionManager } from "./core/connection";
-import type { IConnectionActions } from "./core/types";
-import { DEFAULT_BROWSER, DEFAULT_SOCKET_CONFIG, WA_VERSION } from "./defaults";
+import type {
+	ConnectionState,
+	StateChangePayload,
+} from "./core/connection-events";
+import {
+	classifyDisconnect,
+	ReconnectController,
+	type ReconnectPolicy,
+} from "./core/reconnect";
+import {
+	ConnectionError,
+	ErrorWithStatusCode,
+	type IConnectionActions,
+	type QueryOptions,
+	type WaitForConnectionOptions,
+} from "./core/types";
+import {
+	DEFAULT_BROWSER,
+	DEFAULT_SOCKET_CONFIG,
+	DisconnectReason,
+	WA_VERSION,
+} from "./defaults";
+import { DeviceListManager } from "./devices";
+import { GroupParticipantsManager } from "./groups";
+import {
+	type DownloadMediaOptions,
+	type MediaFetcher,
+	MediaManager,
+	type MediaSource,
+} from "./media/media-manager";
+import {
+	HistorySyncManager,
+	type HistorySyncPayload,
+} from "./messaging/history-sync";
+import {
+	type AnyMessageContent,
+	buildMessageContent,
+	isMediaContent,
+} from "./messaging/message-content";
 import { MessageProcessor } from "./messaging/message-processor";
+import {
+	MessageSender,
+	type SendMessageResult,
+} from "./messaging/message-sender";
+import { MessageStore } from "./messaging/message-store";
+import { ReceiptManager } from "./messaging/receipts";
+import { RetryManager } from "./messaging/retry-manager";
+import type { WAMessageKey } from "./messaging/types";
 import { PluginManager } from "./plugins/plugin-manager";
 import { PreKeyManager } from "./prekeys";
 import { PresenceManager } from "./presence";
+import { SessionManager } from "./signal/session-manager";
 import { SignalProtocolStoreAdapter } from "./signal/signal-store";
 import type { ILogger, WebSocketConfig } from "./transport/types";
 
 interface ClientConfig<
 	_TStorage,
 	TPlugins extends readonly IPlugin[] = readonly [],
-> {
+> extends Partial<ClientIdentity> {
 	auth: IAuthStateProvider;
 	logger?: ILogger;
 	wsOptions?: Partial<WebSocketConfig>;
-	version?: number[];
-	browser?: readonly [string, string, string];
 	connectionManager?: ConnectionManager;
 	plugins?: TPlugins;
+	/**
+	 * Whether `readMessages` tells senders their messages were read. When
+	 * false the read state is only synced to our own devices. Defaults to true.
+	 */
+	sendReadReceipts?: boolean;
+	/** HTTP client for media uploads and downloads. Defaults to `fetch`. */
+	fetcher?: MediaFetcher;
+	/**
+	 * Keeps sent and received messages, with their receipt status, in this
+	 * database. Exposed as `client.messageStore`; off by default.
+	 */
+	messageStore?: IStorageDatabase;
+	/**
+	 * Reconnects after the connection drops, with exponential backoff. `true`
+	 * uses the default policy. Off by default.
+	 */
+	reconnect?: ReconnectPolicy | boolean;
+}
+
+export interface ClientState {
+	connection: ConnectionState;
+	auth: AuthState;
 }
 
 export declare interface WhaTSClient {
@@ -52,7 +120,7 @@ export declare interface WhaTSClient {
 	logger: ILogger;
 	signalStore: SignalProtocolStoreAdapter;
 
-	connect(): Promise<void>;
+	connect(options?: WaitForConnectionOptions): Promise<void>;
 	logout(reason?: string): Promise<void>;
 
 	addListener<K extends keyof ClientEventMap>(
@@ -70,11 +138,24 @@ export class WhaTSClient<
 	private messageProcessor: MessageProcessor;
 	protected connectionManager: ConnectionManager;
 	private authenticator: Authenticator;
-	private epoch = 0;
 	private pluginManager: PluginManager;
 	public signalStore: SignalProtocolStoreAdapter;
 	private preKeyManager: PreKeyManager;
 	private presenceManager: PresenceManager;
+	private sessionManager: SessionManager;
+	private deviceListManager: DeviceListManager;
+	private groupParticipantsManager: GroupParticipantsManager;
+	private messageSender: MessageSender;
+	private receiptManager: ReceiptManager;
+	private retryManager: RetryManager;
+	private mediaManager: MediaManager;
+	private historySyncManager: HistorySyncManager;
+	private appStateManager: AppStateManager;
+	private reconnectController?: ReconnectController;
+	/** Set while we restart the connection after a new login. */
+	private restartPending = false;
+	/** Present when `messageStore` was configured. */
+	public readonly messageStore?: MessageStore;
 
 	constructor(config: ClientConfig<_TStorage, TPlugins>) {
 		super();
@@ -86,6 +167,11 @@ export class WhaTSClient<
 			logger: logger,
 			version: config.version || WA_VERSION,
 			browser: config.browser || DEFAULT_BROWSER,
+			platformType: config.platformType,
+			connectType: config.connectType,
+			connectReason: config.connectReason,
+			passive: config.passive,
+			pull: config.pull,
 			wsOptions: {
 				...DEFAULT_SOCKET_CONFIG,
 				...(config.wsOptions || {}),
@@ -96,6 +182,10 @@ export class WhaTSClient<
 				logger: logger,
 			},
 			plugins: config.plugins,
+			sendReadReceipts: config.sendReadReceipts ?? true,
+			fetcher: config.fetcher,
+			messageStore: config.messageStore,
+			reconnect: config.reconnect,
 		} satisfies ClientConfig<_TStorage, TPlugins>;
 
 		this.auth = this.config.auth;
@@ -145,6 +235,7 @@ export class WhaTSClient<
 				this.logger,
 				this.auth.creds,
 				this.messageProcessor,
+				this.config,
 			);
 
 		this.presenceManager = new PresenceManager(
@@ -159,6 +250,84 @@ export class WhaTSClient<
 			this.connectionManager,
 		);
 
+		this.sessionManager = new SessionManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+			this.signalStore,
+		);
+
+		this.deviceListManager = new DeviceListManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+		);
+
+		this.groupParticipantsManager = new GroupParticipantsManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+		);
+
+		this.messageSender = new MessageSender(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+			this.signalStore,
+			this.sessionManager,
+			this.deviceListManager,
+			this.groupParticipantsManager,
+		);
+
+		this.mediaManager = new MediaManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+			this.config.fetcher,
+		);
+
+		this.receiptManager = new ReceiptManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+			this.messageProcessor,
+			{ sendReadReceipts: this.config.sendReadReceipts },
+		);
+
+		this.retryManager = new RetryManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+			this.messageProcessor,
+			this.messageSender,
+			this.preKeyManager,
+		);
+
+		if (this.config.messageStore) {
+			this.messageStore = new MessageStore(
+				this.config.messageStore,
+				this.auth,
+				this.logger,
+				this.connectionManager,
+				this.messageProcessor,
+			);
+		}
+
+		this.historySyncManager = new HistorySyncManager(
+			this.logger,
+			this.messageProcessor,
+			this.mediaManager,
+			this.messageStore,
+		);
+
+		this.appStateManager = new AppStateManager(
+			this.auth,
+			this.logger,
+			this.connectionManager,
+			this.messageProcessor,
+			this.mediaManager,
+		);
+
 		const connectionActions: IConnectionActions = {
 			sendNode: (node) => this.connectionManager.sendNode(node),
 			closeConnection: (error) => this.connectionManager.close(error),
@@ -169,19 +338,37 @@ export class WhaTSClient<
 			this.auth,
 			this.logger,
 			connectionActions,
+			this.config,
 		);
 
 		this.authenticator.addEventListener(
 			"connection.update",
 			(event: TypedCustomEvent<ConnectionUpdatePayload>) => {
-				this.dispatchTypedEvent("connection.update", event.detail);
+				// Every close also reaches the reconnect controller, which reports
+				// it once, with its verdict.
+				if (!this.reconnectController || event.detail.connection !== "close") {
+					this.dispatchTypedEvent("connection.update", event.detail);
+				}
 				if (event.detail.connection === "open" && this.auth.creds.me?.id) {
 					this.preKeyManager.checkAndUploadPreKeys().catch((err) => {
 						this.logger.error({ err }, "Initial pre-key check failed");
 					});
+					if (this.auth.creds.myAppStateKeyId) {
+						this.appStateManager.resync().catch((err) => {
+							this.logger.error({ err }, "App state sync failed");
+						});
+					}
 				}
 				if (event.detail.isNewLogin) {
-					this.connectionManager.reconnect();
+					this.restartPending = true;
+					this.connectionManager
+						.reconnect()
+						.catch((err) => {
+							this.logger.error({ err }, "Restart after login failed");
+						})
+						.finally(() => {
+							this.restartPending = false;
+						});
 				}
 			},
 		);
@@ -206,6 +393,34 @@ export class WhaTSClient<
 			},
 		);
 
+		if (this.config.reconnect) {
+			this.reconnectController = new ReconnectController(
+				this.connectionManager,
+				this.logger,
+				this.config.reconnect === true ? {} : this.config.reconnect,
+			);
+			this.reconnectController.addEventListener(
+				"connection.update",
+				(event: TypedCustomEvent<ConnectionUpdatePayload>) => {
+					this.dispatchTypedEvent("connection.update", event.detail);
+				},
+			);
+		}
+
+		this.historySyncManager.addEventListener(
+			"history.sync",
+			(event: TypedCustomEvent<HistorySyncPayload>) => {
+				this.dispatchTypedEvent("history.sync", event.detail);
+			},
+		);
+
+		this.appStateManager.addEventListener(
+			"app-state.mutation",
+			(event: TypedCustomEvent<AppStateMutation>) => {
+				this.dispatchTypedEvent("app-state.mutation", event.detail);
+			},
+		);
+
 		this.messageProcessor.addEventListener(
 			"message.decryption_error",
 			(event: TypedCustomEvent<ClientEventMap["message.decryption_error"]>) => {
@@ -249,180 +464,232 @@ export class WhaTSClient<
 		}) as EventListener);
 	}
 
-	async connect(): Promise<void> {
-		try {
-			await this.connectionManager.connect();
-		} catch (error) {
-			this.logger.error({ err: error }, "Connection failed");
-			throw error;
-		}
+	get state(): ClientState {
+		return {
+			connection: this.connectionManager.getState(),
+			auth: this.authenticator.getState(),
+		};
 	}
 
-	async logout(reason = "User initiated logout"): Promise<void> {
-		await this.connectionManager.close(new Error(reason));
+	/**
+	 * Opens the connection and resolves once we are logged in. A first login
+	 * waits through pairing, so listen for `connection.update` QR codes first.
+	 */
+	async connect(options: WaitForConnectionOptions = {}): Promise<void> {
+		const ready = this.waitForConnection(options);
+		// A failed attempt closes the connection, which settles `ready`.
+		this.connectionManager.connect().catch((error) => {
+			this.logger.error({ err: error }, "Connection failed");
+		});
+		await ready;
 	}
 
-	async sendTextMessage(
-		jid: string,
-		text: string,
-	): Promise<{ messageId: string; ack?: BinaryNode; error?: string }> {
-		const decodedJid = jidDecode(jid);
-		this.logger.debug(
-			{ decodedJid, originalJid: jid },
-			"Decoding JID for sending message",
-		);
-		if (!decodedJid || !decodedJid.user) {
-			throw new Error(`Invalid JID for text message: ${jid}`);
+	/**
+	 * Resolves when the connection is open, at once if it already is. Closes
+	 * that will be retried, by the reconnect policy or the restart after
+	 * pairing, keep waiting; any other close rejects with a `ConnectionError`.
+	 */
+	waitForConnection({
+		timeoutMs,
+		signal,
+	}: WaitForConnectionOptions = {}): Promise<void> {
+		if (this.connectionManager.getState() === "open") {
+			return Promise.resolve();
 		}
-		const userId = `${decodedJid.user}@${decodedJid.server}`;
 
-		const sessionRecords =
-			await this.signalStore.getAllSessionRecordsForUser(userId);
-		if (!sessionRecords.length) {
-			this.logger.error({ userId }, "No active sessions found for recipient");
-			throw new Error(`No active sessions found for recipient ${userId}`);
-		}
+		return new Promise<void>((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
 
-		const protoMsg = create(MessageSchema, {
-			extendedTextMessage: create(Message_ExtendedTextMessageSchema, {
-				text: text,
-			}),
-		});
-		const protoBytes = toBinary(MessageSchema, protoMsg);
-		const paddedProtoBytes = padRandomMax16(protoBytes);
-
-		const msgId = `${generateMdTagPrefix()}-${this.epoch++}`;
-		const nodesToSend: BinaryNode[] = [];
-
-		for (const { address } of sessionRecords) {
-			try {
-				const cipher = new SessionCipher(this.signalStore, address);
-				const encryptedResult = await cipher.encrypt(paddedProtoBytes);
-				const encType = encryptedResult.type === 3 ? "pkmsg" : "msg";
-				const { user, server } = jidDecode(jid) || {};
-				const recipientJid = `${user}@${server}`;
-				const messageNode: BinaryNode = {
-					tag: "message",
-					attrs: {
-						to: recipientJid,
-						id: msgId,
-						type: "text",
-					},
-					content: [
+			const onStateChange = ((event: TypedCustomEvent<StateChangePayload>) => {
+				if (event.detail.state === "open") {
+					cleanup();
+					resolve();
+				}
+			}) as EventListener;
+			const onUpdate = ((event: TypedCustomEvent<ConnectionUpdatePayload>) => {
+				const { connection, error, statusCode, lastDisconnect } = event.detail;
+				if (connection !== "close") {
+					return;
+				}
+				// With a policy, its verdict comes with `lastDisconnect`. Without
+				// one, only the restart after a new login is retried.
+				const willRetry = this.reconnectController
+					? lastDisconnect?.willReconnect !== false
+					: this.restartPending &&
+						classifyDisconnect(error) === "restartRequired";
+				if (willRetry) {
+					return;
+				}
+				fail(
+					new ConnectionError(
+						`Connection closed: ${error?.message ?? "unknown reason"}`,
+						"closed",
+						statusCode,
+						{ cause: error },
+					),
+				);
+			}) as EventListener;
+			const onAbort = () =>
+				fail(
+					new ConnectionError(
+						"Waiting for connection aborted",
+						"aborted",
+						undefined,
 						{
-							tag: "enc",
-							attrs: {
-								v: "2",
-								type: encType,
-							},
-							content: encryptedResult.body,
+							cause: signal?.reason,
 						},
-					],
-				};
-				nodesToSend.push(messageNode);
-			} catch (error) {
-				this.logger.error(
-					{ err: error, target: address.toString() },
-					"Encryption failed for device, skipping",
+					),
 				);
+
+			const cleanup = () => {
+				clearTimeout(timer);
+				this.connectionManager.removeEventListener(
+					"state.change",
+					onStateChange,
+				);
+				this.removeEventListener("connection.update", onUpdate);
+				signal?.removeEventListener("abort", onAbort);
+			};
+			const fail = (error: ConnectionError) => {
+				cleanup();
+				reject(error);
+			};
+
+			if (signal?.aborted) {
+				onAbort();
+				return;
 			}
-		}
+			this.connectionManager.addEventListener("state.change", onStateChange);
+			this.addEventListener("connection.update", onUpdate);
+			signal?.addEventListener("abort", onAbort, { once: true });
+			if (timeoutMs !== undefined) {
+				timer = setTimeout(
+					() =>
+						fail(
+							new ConnectionError(
+								`Connection not open after ${timeoutMs}ms`,
+								"timeout",
+							),
+						),
+					timeoutMs,
+				);
+			}
+		});
+	}
 
-		if (nodesToSend.length === 0) {
-			this.logger.error(
-				{ userId },
-				"No message nodes could be prepared for sending (all encryptions failed).",
-			);
-			throw new Error("Failed to prepare message for any recipient device.");
-		}
+	/**
+	 * Links this client to the account of `phoneNumber` with a code typed on
+	 * the phone, instead of scanning a QR code. Call it once the connection
+	 * asks for pairing and show the returned code to the user.
+	 */
+	async requestPairingCode(
+		phoneNumber: string,
+		customCode?: string,
+	): Promise<string> {
+		return this.authenticator.requestPairingCode(phoneNumber, customCode);
+	}
+
+	async logout(reason = "User initiated logout"): Promise<void> {
+		// Closing as logged out keeps the reconnect policy from reopening it.
+		const error = new ErrorWithStatusCode(reason);
+		error.statusCode = DisconnectReason.loggedOut;
+		await this.connectionManager.close(error);
+	}
 
-		this.logger.info(
-			{ count: nodesToSend.length, userId, msgId },
-			"Sending message nodes for device fanout",
+	/**
+	 * Sends any supported content to a user or group, e.g.
+	 * `{ type: "text", text, quoted, mentions }` or `{ type: "reaction", key, emoji }`.
+	 */
+	async sendMessage(
+		jid: string,
+		content: AnyMessageContent,
+	): Promise<SendMessageResult> {
+		const meId = this.auth.creds.me?.id;
+		const { message, relayOptions } = isMediaContent(content)
+			? await this.mediaManager.prepareMediaMessage(content, meId)
+			: buildMessageContent(content, meId);
+		const result = await this.messageSender.relayMessage(
+			jid,
+			message,
+			relayOptions,
 		);
+		await this.messageStore
+			?.recordOutgoing(jid, result.messageId, message, !result.error)
+			.catch((err) => {
+				this.logger.error({ err }, "Failed to store sent message");
+			});
+		return result;
+	}
 
-		try {
-			for (const node of nodesToSend) {
-				await this.connectionManager.sendNode(node);
-			}
-		} catch (sendError) {
-			this.logger.error(
-				{ err: sendError, msgId, to: jid },
-				"Failed to send one or more message nodes via ConnectionManager",
-			);
-			const errorMessage =
-				sendError instanceof Error ? sendError.message : String(sendError);
-			throw new Error(`Sending message node(s) failed: ${errorMessage}`);
-		}
+	/**
+	 * Downloads and decrypts the media of a received message, as bytes or,
+	 * with `{ stream: true }`, as a `ReadableStream`.
+	 */
+	downloadMedia(
+		message: MediaSource,
+		options: DownloadMediaOptions & { stream: true },
+	): Promise<ReadableStream<Uint8Array>>;
+	downloadMedia(
+		message: MediaSource,
+		options?: DownloadMediaOptions & { stream?: false },
+	): Promise<Uint8Array>;
+	async downloadMedia(
+		message: MediaSource,
+		options: DownloadMediaOptions = {},
+	): Promise<Uint8Array | ReadableStream<Uint8Array>> {
+		return options.stream
+			? this.mediaManager.downloadMedia(message, { ...options, stream: true })
+			: this.mediaManager.downloadMedia(message, { ...options, stream: false });
+	}
 
-		try {
-			const ackNode = await this.waitForMessageAck(msgId);
-			return { messageId: msgId, ack: ackNode };
-		} catch (ackError) {
-			this.logger.warn(
-				{ err: ackError, msgId, to: jid },
-				"Error while waiting for message ack, or ack contained an error.",
-			);
-			return {
-				messageId: msgId,
-				error: ackError instanceof Error ? ackError.message : String(ackError),
-			};
-		}
+	async sendTextMessage(jid: string, text: string): Promise<SendMessageResult> {
+		return this.sendMessage(jid, { type: "text", text });
 	}
 
 	/**
-	 * Waits for an ACK node matching the given messageId, or rejects on error/timeout.
+	 * Marks the given messages as read, batching ids per chat into a single
+	 * receipt each.
 	 */
-	private waitForMessageAck(messageId: string, timeoutMs = 15000) {
-		return new Promise<BinaryNode>((resolve, reject) => {
-			const timeoutId = setTimeout(() => {
-				cleanup();
-				reject(
-					new Error(
-						`Timeout waiting for ack for message ${messageId} after ${timeoutMs}ms`,
-					),
-				);
-			}, timeoutMs);
-
-			const listener = (event: TypedCustomEvent<{ node: BinaryNode }>) => {
-				const ackNode = event.detail.node;
-				if (ackNode.tag === "ack" && ackNode.attrs.id === messageId) {
-					this.logger.debug(
-						{ ackAttrs: ackNode.attrs, forMsgId: messageId },
-						"Received ack for message",
-					);
-					cleanup();
-					if (ackNode.attrs.error) {
-						const errorText =
-							ackNode.attrs.text || `Server error ${ackNode.attrs.error}`;
-						reject(
-							new Error(
-								`Message delivery failed (ack error ${
-									ackNode.attrs.error
-								}): ${errorText} for ID ${messageId}. Full attrs: ${JSON.stringify(
-									ackNode.attrs,
-								)}`,
-							),
-						);
-					} else {
-						resolve(ackNode);
-					}
-				}
-			};
-
-			const cleanup = () => {
-				clearTimeout(timeoutId);
-				this.connectionManager.removeEventListener(
-					"node.received",
-					listener as EventListener,
-				);
-			};
+	async readMessages(keys: WAMessageKey[]): Promise<void> {
+		await this.receiptManager.readMessages(keys);
+		await this.messageStore?.updateStatus(
+			keys.filter((key) => !key.fromMe),
+			"read",
+		);
+	}
 
-			this.connectionManager.addEventListener(
-				"node.received",
-				listener as EventListener,
-			);
+	/**
+	 * Archives, pins, mutes, marks read, stars a message in or deletes a chat
+	 * on all of our devices. With a message store, the latest stored message
+	 * bounds the range the change applies to.
+	 */
+	async chatModify(jid: string, modification: ChatModification): Promise<void> {
+		const lastMessages = await this.messageStore?.getMessages(jid, {
+			limit: 1,
 		});
+		await this.appStateManager.push(
+			chatModificationToPatch(
+				jid,
+				modification,
+				lastMessages?.length ? buildMessageRange(lastMessages) : undefined,
+			),
+		);
+	}
+
+	/**
+	 * Pulls the latest chats, contacts and settings from the server. Changes
+	 * arrive as `app-state.mutation` events.
+	 */
+	async resyncAppState(collections?: AppStateCollection[]): Promise<void> {
+		return this.appStateManager.resync(collections);
+	}
+
+	/**
+	 * Sends a node and waits for the matching `iq` result or `ack`.
+	 * Rejects with a `QueryError` when the server reports an error.
+	 */
+	async query(node: BinaryNode, options?: QueryOptions): Promise<BinaryNode> {
+		return this.connectionManager.query(node, options);
 	}
 
 	async reconnect(): Promise<void> {
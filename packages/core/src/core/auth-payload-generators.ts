@@ -24,7 +24,23 @@ import {
 } from "@wha.ts/utils";
 import { DEFAULT_BROWSER, WA_VERSION } from "../defaults";
 
-const getPlatformType = (platform: string): DeviceProps_PlatformType => {
+/** How this client introduces itself to the server in the handshake. */
+export interface ClientIdentity {
+	/** WhatsApp Web version to claim; see `fetchLatestWaWebVersion`. */
+	version: number[];
+	/** `[os, browser, os version]`, e.g. `["Mac OS", "Chrome", "14.4.1"]`. */
+	browser: readonly [string, string, string];
+	/** Shown in the phone's linked devices. Derived from the browser by default. */
+	platformType?: DeviceProps_PlatformType;
+	connectType?: ClientPayload_ConnectType;
+	connectReason?: ClientPayload_ConnectReason;
+	/** Logs in without becoming the active session. Defaults to false. */
+	passive?: boolean;
+	/** Asks the server to deliver pending notifications on login. Defaults to true. */
+	pull?: boolean;
+}
+
+export const getPlatformType = (platform: string): DeviceProps_PlatformType => {
 	const platformUpper = platform.toUpperCase();
 	switch (platformUpper) {
 		case "CHROME":
@@ -51,8 +67,8 @@ const getPlatformType = (platform: string): DeviceProps_PlatformType => {
 };
 
 const getUserAgent = (
-	version: number[] = WA_VERSION,
-	browser: readonly [string, string, string] = DEFAULT_BROWSER,
+	version: number[],
+	browser: readonly [string, string, string],
 ): ClientPayload["userAgent"] => {
 	return create(ClientPayload_UserAgentSchema, {
 		platform: ClientPayload_UserAgent_Platform.WEB,
@@ -73,7 +89,7 @@ const getUserAgent = (
 };
 
 const getWebInfo = (
-	browser: readonly [string, string, string] = DEFAULT_BROWSER,
+	browser: readonly [string, string, string],
 ): ClientPayload["webInfo"] => {
 	let webSubPlatform = ClientPayload_WebInfo_WebSubPlatform.WEB_BROWSER;
 	if (browser[0] === "Mac OS") {
@@ -86,18 +102,21 @@ const getWebInfo = (
 	});
 };
 
-const getBaseClientPayload = (
-	version: number[] = WA_VERSION,
-	browser: readonly [string, string, string] = DEFAULT_BROWSER,
-): Partial<ClientPayload> => ({
+const getBaseClientPayload = ({
+	version = WA_VERSION,
+	browser = DEFAULT_BROWSER,
+	connectType = ClientPayload_ConnectType.WIFI_UNKNOWN,
+	connectReason = ClientPayload_ConnectReason.USER_ACTIVATED,
+}: Partial<ClientIdentity>): Partial<ClientPayload> => ({
 	userAgent: getUserAgent(version, browser),
 	webInfo: getWebInfo(browser),
+	connectType,
+	connectReason,
 });
 
 export const generateLoginPayload = (
 	userJid: string,
-	version: number[] = WA_VERSION,
-	browser: readonly [string, string, string] = DEFAULT_BROWSER,
+	identity: Partial<ClientIdentity> = {},
 ): ClientPayload => {
 	const jidDecoded = jidDecode(userJid);
 
@@ -108,32 +127,28 @@ export const generateLoginPayload = (
 	const { user, device } = jidDecoded;
 
 	return create(ClientPayloadSchema, {
-		...(getBaseClientPayload(version, browser) as ClientPayload),
-		connectReason: ClientPayload_ConnectReason.USER_ACTIVATED,
-		connectType: ClientPayload_ConnectType.WIFI_UNKNOWN,
+		...(getBaseClientPayload(identity) as ClientPayload),
 		username: BigInt(user || "0"),
 		device: device || 0,
-		pull: true,
-		passive: false,
+		pull: identity.pull ?? true,
+		passive: identity.passive ?? false,
 	});
 };
 
 export const generateRegisterPayload = (
 	creds: AuthenticationCreds,
-	version: number[] = WA_VERSION,
-	browser: readonly [string, string, string] = DEFAULT_BROWSER,
+	identity: Partial<ClientIdentity> = {},
 ): ClientPayload => {
+	const { version = WA_VERSION, browser = DEFAULT_BROWSER } = identity;
 	const appVersionBuf = sha256(utf8ToBytes(version.join("."))); // maybe md5
 	const devicePropsObject = create(DevicePropsSchema, {
 		os: browser[0],
-		platformType: getPlatformType(browser[1]),
+		platformType: identity.platformType ?? getPlatformType(browser[1]),
 		requireFullSync: false,
 	});
 	const devicePropsBytes = toBinary(DevicePropsSchema, devicePropsObject);
 	return create(ClientPayloadSchema, {
-		...(getBaseClientPayload(version, browser) as ClientPayload),
-		connectReason: ClientPayload_ConnectReason.USER_ACTIVATED,
-		connectType: ClientPayload_ConnectType.WIFI_UNKNOWN,
+		...(getBaseClientPayload(identity) as ClientPayload),
 		passive: false,
 		pull: false,
 		devicePairingData: {
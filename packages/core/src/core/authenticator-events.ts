@@ -1,6 +1,7 @@
 import type { BinaryNode } from "@wha.ts/binary";
 import type { AuthenticationCreds } from "@wha.ts/types";
 import type { DisconnectReason } from "../defaults";
+import type { DisconnectKind } from "./reconnect";
 
 /**
  * Payload for connection.update events
@@ -11,6 +12,22 @@ export interface ConnectionUpdatePayload {
 	qr?: string;
 	error?: Error;
 	statusCode?: DisconnectReason;
+	/** Set once the stanzas queued while we were offline have been delivered. */
+	receivedPendingNotifications?: boolean;
+	/** Why the connection closed; emitted when a reconnect policy is set. */
+	lastDisconnect?: LastDisconnect;
+}
+
+export interface LastDisconnect {
+	error?: Error;
+	statusCode?: DisconnectReason;
+	reason: DisconnectKind;
+	date: Date;
+	/** Whether the reconnect policy scheduled another attempt. */
+	willReconnect: boolean;
+	/** Attempts made since the connection was last open, this one included. */
+	attempt: number;
+	delayMs?: number;
 }
 
 /**
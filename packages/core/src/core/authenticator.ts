@@ -1,8 +1,10 @@
-import { create, fromBinary, toBinary, toJson } from "@bufbuild/protobuf";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
 import type { BinaryNode, SINGLE_BYTE_TOKENS_TYPE } from "@wha.ts/binary";
 import {
 	getBinaryNodeChild,
+	getBinaryNodeChildBuffer,
 	getBinaryNodeChildren,
+	jidEncode,
 	S_WHATSAPP_NET,
 } from "@wha.ts/binary";
 import {
@@ -11,6 +13,7 @@ import {
 	type ADVSignedDeviceIdentityHMAC,
 	ADVSignedDeviceIdentityHMACSchema,
 	ADVSignedDeviceIdentitySchema,
+	DeviceProps_PlatformType,
 } from "@wha.ts/proto";
 import type { AuthenticationCreds, IAuthStateProvider } from "@wha.ts/types";
 import {
@@ -19,13 +22,24 @@ import {
 } from "@wha.ts/types/generics/typed-event-target";
 import type { KeyPair } from "@wha.ts/utils";
 import { Curve, concatBytes, equalBytes, hmacSign } from "@wha.ts/utils";
+import { DEFAULT_BROWSER } from "../defaults";
 import type { ILogger } from "../transport/types";
+import {
+	type ClientIdentity,
+	getPlatformType,
+} from "./auth-payload-generators";
 import type { AuthenticatorEventMap } from "./authenticator-events";
 import type { ConnectionManager } from "./connection";
+import {
+	buildCompanionFinish,
+	generatePairingCode,
+	isValidPairingCode,
+	wrapEphemeralKey,
+} from "./pairing-code";
 import { QRCodeGenerator } from "./qrcode";
-import type { ErrorWithStatusCode, IConnectionActions } from "./types";
+import { ErrorWithStatusCode, type IConnectionActions } from "./types";
 
-enum AuthState {
+export enum AuthState {
 	IDLE = "IDLE",
 	AWAITING_QR = "AWAITING_QR",
 	PROCESSING_PAIR_SUCCESS = "PROCESSING_PAIR_SUCCESS",
@@ -34,12 +48,17 @@ enum AuthState {
 }
 
 class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
-	private connectionManager: ConnectionManager;
+	private connectionManager: Pick<
+		ConnectionManager,
+		"addEventListener" | "query"
+	>;
 	private authStateProvider: IAuthStateProvider;
 	private logger: ILogger;
 	private connectionActions: IConnectionActions;
 	private qrCodeGenerator: QRCodeGenerator;
 	private state: AuthState = AuthState.IDLE;
+	/** The phone number being linked with a pairing code, as a user jid. */
+	private pairingJid?: string;
 
 	private setState(newState: AuthState): void {
 		if (this.state !== newState) {
@@ -47,11 +66,16 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 		}
 	}
 
+	getState(): AuthState {
+		return this.state;
+	}
+
 	constructor(
-		connectionManager: ConnectionManager,
+		connectionManager: Pick<ConnectionManager, "addEventListener" | "query">,
 		authStateProvider: IAuthStateProvider,
 		logger: ILogger,
 		connectionActions: IConnectionActions,
+		private identity: Partial<ClientIdentity> = {},
 	) {
 		super();
 		this.connectionManager = connectionManager;
@@ -105,6 +129,12 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 			},
 		);
 
+		this.connectionManager.addEventListener("offline.complete", () => {
+			this.dispatchTypedEvent("connection.update", {
+				receivedPendingNotifications: true,
+			});
+		});
+
 		this.connectionManager.addEventListener("ws.close", () => {
 			this.qrCodeGenerator.stop();
 			this.setState(AuthState.IDLE);
@@ -125,15 +155,13 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 			this.handleLoginSuccess(node);
 		} else if (node.tag === "fail") {
 			this.handleLoginFailure(node);
-		} else if (node.tag === "ib") {
-			const offlinePreviewNode = getBinaryNodeChild(node, "offline_preview");
-			if (offlinePreviewNode) {
-				this.connectionActions.sendNode({
-					tag: "ib",
-					attrs: {},
-					content: [{ tag: "offline_batch", attrs: { count: "30" } }],
-				});
-			}
+		} else if (
+			node.tag === "notification" &&
+			node.attrs.type === "link_code_companion_reg"
+		) {
+			this.handleLinkCodeCompanionReg(node).catch((err) =>
+				this.logger.error({ err }, "Failed to handle pairing code response"),
+			);
 		}
 	};
 
@@ -171,9 +199,170 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 
 		const refNodes = getBinaryNodeChildren(pairDeviceNode, "ref");
 
+		if (this.pairingJid) {
+			this.logger.debug("Linking with a pairing code, not showing QR codes");
+			return;
+		}
 		this.qrCodeGenerator.start(refNodes);
 	}
 
+	/** Ends a pairing code login, so later pair-device requests show QR codes. */
+	private clearPairingCode(): void {
+		this.pairingJid = undefined;
+		this.authStateProvider.creds.pairingCode = undefined;
+	}
+
+	/**
+	 * Links this device by typing a code on the phone instead of scanning a QR
+	 * code. Resolves with the code to show once the server has registered it;
+	 * pairing then completes through the usual `pair-success`.
+	 */
+	async requestPairingCode(
+		phoneNumber: string,
+		customCode?: string,
+	): Promise<string> {
+		const user = phoneNumber.replace(/[^0-9]/g, "");
+		if (!user) {
+			throw new Error(`Invalid phone number: ${phoneNumber}`);
+		}
+		const code = customCode?.toUpperCase() ?? generatePairingCode();
+		if (!isValidPairingCode(code)) {
+			throw new Error(`Invalid pairing code: ${customCode}`);
+		}
+
+		const creds = this.authStateProvider.creds;
+		this.pairingJid = jidEncode(user, "s.whatsapp.net");
+		creds.pairingCode = code;
+		this.qrCodeGenerator.stop();
+
+		const browser = this.identity.browser ?? DEFAULT_BROWSER;
+		const platformType =
+			this.identity.platformType ||
+			getPlatformType(browser[1]) ||
+			DeviceProps_PlatformType.CHROME;
+		await this.connectionManager.query({
+			tag: "iq",
+			attrs: { to: S_WHATSAPP_NET, type: "set", xmlns: "md" },
+			content: [
+				{
+					tag: "link_code_companion_reg",
+					attrs: {
+						jid: this.pairingJid,
+						stage: "companion_hello",
+						should_show_push_notification: "true",
+					},
+					content: [
+						{
+							tag: "link_code_pairing_wrapped_companion_ephemeral_pub",
+							attrs: {},
+							content: await wrapEphemeralKey(
+								code,
+								creds.pairingEphemeralKeyPair.publicKey,
+							),
+						},
+						{
+							tag: "companion_server_auth_key_pub",
+							attrs: {},
+							content: creds.noiseKey.publicKey,
+						},
+						{
+							tag: "companion_platform_id",
+							attrs: {},
+							content: platformType.toString(),
+						},
+						{
+							tag: "companion_platform_display",
+							attrs: {},
+							content: `${browser[1]} (${browser[0]})`,
+						},
+						{ tag: "link_code_pairing_nonce", attrs: {}, content: "0" },
+					],
+				},
+			],
+		});
+
+		this.logger.info({ jid: this.pairingJid }, "Requested pairing code");
+		this.dispatchTypedEvent("creds.update", { pairingCode: code });
+		return code;
+	}
+
+	/**
+	 * The phone accepted the pairing code: derive the ADV secret from its
+	 * keys and send ours back, after which `pair-success` arrives.
+	 */
+	private async handleLinkCodeCompanionReg(node: BinaryNode): Promise<void> {
+		const creds = this.authStateProvider.creds;
+		const reg = getBinaryNodeChild(node, "link_code_companion_reg");
+		if (!this.pairingJid || !creds.pairingCode) {
+			this.logger.warn("Received a pairing code response without a request");
+			return;
+		}
+
+		try {
+			const ref = getBinaryNodeChildBuffer(reg, "link_code_pairing_ref");
+			const primaryIdentityPublicKey = getBinaryNodeChildBuffer(
+				reg,
+				"primary_identity_pub",
+			);
+			const wrappedPrimaryEphemeral = getBinaryNodeChildBuffer(
+				reg,
+				"link_code_pairing_wrapped_primary_ephemeral_pub",
+			);
+			if (!ref || !primaryIdentityPublicKey || !wrappedPrimaryEphemeral) {
+				throw new Error("Incomplete link_code_companion_reg notification");
+			}
+
+			const { wrappedKeyBundle, advSecretKey } = await buildCompanionFinish({
+				code: creds.pairingCode,
+				companionEphemeral: creds.pairingEphemeralKeyPair,
+				identity: creds.signedIdentityKey,
+				primaryIdentityPublicKey,
+				wrappedPrimaryEphemeral,
+			});
+			// Needed to verify the pair-success that follows.
+			creds.advSecretKey = advSecretKey;
+
+			await this.connectionManager.query({
+				tag: "iq",
+				attrs: { to: S_WHATSAPP_NET, type: "set", xmlns: "md" },
+				content: [
+					{
+						tag: "link_code_companion_reg",
+						attrs: { jid: this.pairingJid, stage: "companion_finish" },
+						content: [
+							{
+								tag: "link_code_pairing_wrapped_key_bundle",
+								attrs: {},
+								content: wrappedKeyBundle,
+							},
+							{
+								tag: "companion_identity_public",
+								attrs: {},
+								content: creds.signedIdentityKey.publicKey,
+							},
+							{ tag: "link_code_pairing_ref", attrs: {}, content: ref },
+						],
+					},
+				],
+			});
+			this.dispatchTypedEvent("creds.update", { advSecretKey });
+		} catch (err) {
+			const error = err instanceof Error ? err : new Error(String(err));
+			this.clearPairingCode();
+			this.logger.error({ err: error }, "Failed to complete pairing code");
+			this.dispatchTypedEvent("connection.update", {
+				connection: "close",
+				error,
+			});
+			this.connectionActions
+				.closeConnection(error)
+				.catch((err) =>
+					this.logger.error({ err }, "Failed to trigger connection close"),
+				);
+			this.setState(AuthState.FAILED);
+		}
+	}
+
 	private _createSignalIdentity(
 		jid: string,
 		publicKey: Uint8Array,
@@ -249,10 +438,12 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 
 		return {
 			me: { id: verifiedData.deviceJid, name: verifiedData.businessName },
-			account: toJson(
-				ADVSignedDeviceIdentitySchema,
-				verifiedData.account,
-			) as unknown as ADVSignedDeviceIdentity,
+			account: {
+				details: verifiedData.account.details,
+				accountSignatureKey: verifiedData.account.accountSignatureKey,
+				accountSignature: verifiedData.account.accountSignature,
+				deviceSignature: verifiedData.account.deviceSignature,
+			},
 			signalIdentities: [...(creds.signalIdentities || []), identity],
 			platform: verifiedData.platformName,
 			pairingCode: undefined,
@@ -381,6 +572,7 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 			);
 
 			Object.assign(this.authStateProvider.creds, updatedCreds);
+			this.clearPairingCode();
 			await this.authStateProvider.saveCreds();
 
 			await this.connectionActions.sendNode(reply);
@@ -398,6 +590,7 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 			);
 			this.setState(AuthState.AUTHENTICATED);
 		} catch (error) {
+			this.clearPairingCode();
 			if (!(error instanceof Error)) {
 				throw error;
 			}
@@ -467,13 +660,15 @@ class Authenticator extends TypedEventTarget<AuthenticatorEventMap> {
 		const reason = node.attrs.reason || "unknown";
 		const code = Number.parseInt(reason, 10) || 401;
 		this.logger.error({ code, attrs: node.attrs }, "Login failed");
-		const error = new Error(`Login failed: ${reason}`);
+		const error = new ErrorWithStatusCode(`Login failed: ${reason}`);
+		error.statusCode = code;
 
 		this.qrCodeGenerator.stop();
 		this.state = AuthState.FAILED;
 		this.dispatchTypedEvent("connection.update", {
 			connection: "close",
 			error,
+			statusCode: code,
 		});
 		this.connectionActions
 			.closeConnection(error)
@@ -27,6 +27,11 @@ interface ErrorPayload {
 	error: Error;
 }
 
+export interface OfflineCompletePayload {
+	/** Offline stanzas handled since the last `<offline_preview/>`. */
+	handled: number;
+}
+
 interface WsClosePayload {
 	code: number;
 	reason: string;
@@ -37,6 +42,7 @@ export interface ConnectionManagerEventMap {
 	"handshake.complete": HandshakeCompletePayload;
 	"node.received": NodePayload;
 	"node.sent": NodeSentPayload;
+	"offline.complete": OfflineCompletePayload;
 	error: ErrorPayload;
 	"ws.close": WsClosePayload;
 }
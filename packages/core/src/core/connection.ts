@@ -1,24 +1,42 @@
 import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
 import type { BinaryNode } from "@wha.ts/binary";
-import { decodeBinaryNode, encodeBinaryNode } from "@wha.ts/binary";
+import {
+	decodeBinaryNode,
+	encodeBinaryNode,
+	getBinaryNodeChild,
+	S_WHATSAPP_NET,
+} from "@wha.ts/binary";
 import {
 	type ClientPayload,
 	ClientPayloadSchema,
 	HandshakeMessageSchema,
 } from "@wha.ts/proto";
 import type { AuthenticationCreds } from "@wha.ts/types";
-import { bytesToHex, utf8ToBytes } from "@wha.ts/utils";
+import { bytesToHex, generateMdTagPrefix, utf8ToBytes } from "@wha.ts/utils";
 import {
 	type TypedCustomEvent,
 	TypedEventTarget,
 } from "../../../types/src/generics/typed-event-target";
-import { DEFAULT_SOCKET_CONFIG, NOISE_WA_HEADER } from "../defaults";
+import {
+	DEFAULT_SOCKET_CONFIG,
+	DisconnectReason,
+	KEEP_ALIVE_GRACE_MS,
+	NOISE_WA_HEADER,
+} from "../defaults";
 import type { MessageProcessor } from "../messaging/message-processor";
 import { FrameHandler } from "../transport/frame-handler";
-import { NoiseProcessor } from "../transport/noise-processor";
-import type { ILogger, WebSocketConfig } from "../transport/types";
+import {
+	NoiseProcessor,
+	TEST_ROOT_CA_PUBLIC_KEY,
+} from "../transport/noise-processor";
+import type {
+	ILogger,
+	IWebSocketClient,
+	WebSocketConfig,
+} from "../transport/types";
 import { NativeWebSocketClient } from "../transport/websocket";
 import {
+	type ClientIdentity,
 	generateLoginPayload,
 	generateRegisterPayload,
 } from "./auth-payload-generators";
@@ -28,6 +46,13 @@ import type {
 	StateChangePayload,
 } from "./connection-events";
 import { IncomingNodeHandler } from "./incoming-node-handler";
+import { ErrorWithStatusCode, QueryError, type QueryOptions } from "./types";
+
+interface PendingQuery {
+	resolve: (node: BinaryNode) => void;
+	reject: (error: Error) => void;
+	timeoutId: ReturnType<typeof setTimeout>;
+}
 
 class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 	private logger: ILogger;
@@ -36,7 +61,7 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 	private routingInfo?: Uint8Array;
 	private creds: AuthenticationCreds;
 
-	private ws!: NativeWebSocketClient;
+	private ws!: IWebSocketClient;
 	private noiseProcessor!: NoiseProcessor;
 	private frameHandler!: FrameHandler;
 	private nodeHandler!: IncomingNodeHandler;
@@ -45,6 +70,12 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 
 	private closingError?: Error;
 
+	private tagPrefix = generateMdTagPrefix();
+	private epoch = 0;
+	private pendingQueries = new Map<string, PendingQuery>();
+	private lastReceivedAt = 0;
+	private keepAliveTimer?: ReturnType<typeof setInterval>;
+
 	private handleWsOpenEvent = () => this.handleWsOpen();
 	private handleWsMessageEvent = (
 		event: TypedCustomEvent<{ data: Uint8Array }>,
@@ -66,6 +97,7 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 		logger: ILogger,
 		creds: AuthenticationCreds,
 		messageProcessor: MessageProcessor,
+		private identity: Partial<ClientIdentity> = {},
 	) {
 		super();
 		this.logger = logger;
@@ -80,11 +112,25 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 	private initializeConnectionComponents(): void {
 		this.logger.info("Initializing connection components...");
 
+		if (this.ws) {
+			this.removeWsListeners();
+		}
+
+		const createTransport =
+			this.config.transportFactory ??
+			((url, config) => new NativeWebSocketClient(url, config));
+		const ws = createTransport(this.config.url, this.config);
+		this.ws = ws;
+		this.setupWsListeners();
+
 		this.noiseProcessor = new NoiseProcessor({
 			localStaticKeyPair: this.creds.pairingEphemeralKeyPair,
 			noisePrologue: NOISE_WA_HEADER,
 			logger: this.logger,
 			routingInfo: this.routingInfo,
+			rootCaPublicKey: (ws as { [TEST_ROOT_CA_PUBLIC_KEY]?: Uint8Array })[
+				TEST_ROOT_CA_PUBLIC_KEY
+			],
 		});
 
 		this.frameHandler = new FrameHandler(
@@ -104,15 +150,9 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 			},
 			this.messageProcessor,
 			this.logger,
+			this.creds,
 		);
 
-		if (this.ws) {
-			this.removeWsListeners();
-		}
-
-		this.ws = new NativeWebSocketClient(this.config.url, this.config);
-		this.setupWsListeners();
-
 		this.frameHandler.resetFramingState();
 	}
 
@@ -145,11 +185,20 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 	private setState(newState: typeof this.state, error?: Error): void {
 		if (this.state !== newState) {
 			this.state = newState;
+			if (newState === "open") {
+				this.startKeepAlive();
+			} else if (newState === "closing" || newState === "closed") {
+				this.stopKeepAlive();
+			}
 			const payload: StateChangePayload = { state: newState, error };
 			this.dispatchTypedEvent("state.change", payload);
 		}
 	}
 
+	getState(): ConnectionState {
+		return this.state;
+	}
+
 	async connect(): Promise<void> {
 		if (this.state !== "closed") {
 			this.logger.warn(
@@ -203,9 +252,9 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 				);
 				let clientPayload: ClientPayload;
 				if (this.creds.me?.id) {
-					clientPayload = generateLoginPayload(this.creds.me.id);
+					clientPayload = generateLoginPayload(this.creds.me.id, this.identity);
 				} else {
-					clientPayload = generateRegisterPayload(this.creds);
+					clientPayload = generateRegisterPayload(this.creds, this.identity);
 				}
 
 				const clientPayloadBytes = toBinary(ClientPayloadSchema, clientPayload);
@@ -245,6 +294,7 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 	};
 
 	private handleWsMessage = async (data: Uint8Array): Promise<void> => {
+		this.lastReceivedAt = Date.now();
 		try {
 			await this.frameHandler.handleReceivedData(data);
 		} catch (error) {
@@ -286,6 +336,7 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 
 		try {
 			const node = decodeBinaryNode(decryptedPayload);
+			this.settlePendingQuery(node);
 			this.nodeHandler.processNode(node, this.state);
 		} catch (error) {
 			if (!(error instanceof Error)) {
@@ -317,6 +368,169 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 		}
 	}
 
+	generateMessageTag(): string {
+		return `${this.tagPrefix}-${this.epoch++}`;
+	}
+
+	/**
+	 * Sends a node and resolves with the server's response carrying the same
+	 * id: an `iq` of type result/error or an `ack`. A missing id is generated.
+	 */
+	async query(
+		node: BinaryNode,
+		options: QueryOptions = {},
+	): Promise<BinaryNode> {
+		if (!node.attrs.id) {
+			node.attrs.id = this.generateMessageTag();
+		}
+		const id = node.attrs.id;
+		const timeoutMs =
+			options.timeoutMs ??
+			this.config.defaultQueryTimeoutMs ??
+			DEFAULT_SOCKET_CONFIG.defaultQueryTimeoutMs;
+
+		const response = new Promise<BinaryNode>((resolve, reject) => {
+			const timeoutId = setTimeout(() => {
+				this.pendingQueries.delete(id);
+				const error = new ErrorWithStatusCode(
+					`Timed out after ${timeoutMs}ms waiting for response to ${node.tag} ${id}`,
+				);
+				error.statusCode = DisconnectReason.timedOut;
+				reject(error);
+			}, timeoutMs);
+			this.pendingQueries.set(id, { resolve, reject, timeoutId });
+		});
+		// A close during the send rejects `response` before we return it.
+		response.catch(() => {});
+
+		try {
+			await this.sendNode(node);
+		} catch (error) {
+			const pending = this.pendingQueries.get(id);
+			if (pending) {
+				clearTimeout(pending.timeoutId);
+				this.pendingQueries.delete(id);
+			}
+			throw error;
+		}
+
+		return response;
+	}
+
+	private settlePendingQuery(node: BinaryNode): void {
+		const isResponse =
+			node.tag === "ack" ||
+			(node.tag === "iq" &&
+				(node.attrs.type === "result" || node.attrs.type === "error"));
+		const id = node.attrs.id;
+		if (!isResponse || !id) {
+			return;
+		}
+
+		const pending = this.pendingQueries.get(id);
+		if (!pending) {
+			return;
+		}
+		clearTimeout(pending.timeoutId);
+		this.pendingQueries.delete(id);
+
+		const error = this.extractQueryError(node);
+		if (error) {
+			pending.reject(error);
+		} else {
+			pending.resolve(node);
+		}
+	}
+
+	private extractQueryError(node: BinaryNode): QueryError | undefined {
+		let code: number;
+		let text: string | undefined;
+
+		if (node.tag === "iq" && node.attrs.type === "error") {
+			const errorNode = getBinaryNodeChild(node, "error");
+			code = Number(errorNode?.attrs.code ?? 500);
+			text = errorNode?.attrs.text;
+		} else if (node.tag === "ack" && node.attrs.error) {
+			code = Number(node.attrs.error);
+			text = node.attrs.text;
+		} else {
+			return undefined;
+		}
+
+		return new QueryError(
+			`Query ${node.attrs.id} failed with ${code}${text ? ` (${text})` : ""}`,
+			code,
+			text,
+			node,
+		);
+	}
+
+	/**
+	 * Pings the server every `keepAliveIntervalMs` while open. A socket that
+	 * received nothing for a whole interval plus a grace period is presumed
+	 * dead, e.g. half-open TCP, and closed as `connectionLost`.
+	 */
+	private startKeepAlive(): void {
+		const intervalMs =
+			this.config.keepAliveIntervalMs ??
+			DEFAULT_SOCKET_CONFIG.keepAliveIntervalMs;
+		this.stopKeepAlive();
+		if (!intervalMs) {
+			return;
+		}
+		this.lastReceivedAt = Date.now();
+		this.keepAliveTimer = setInterval(
+			() => this.sendKeepAlive(intervalMs),
+			intervalMs,
+		);
+	}
+
+	private stopKeepAlive(): void {
+		clearInterval(this.keepAliveTimer);
+		this.keepAliveTimer = undefined;
+	}
+
+	private sendKeepAlive(intervalMs: number): void {
+		const silentForMs = Date.now() - this.lastReceivedAt;
+		if (silentForMs > intervalMs + KEEP_ALIVE_GRACE_MS) {
+			const error = new ErrorWithStatusCode(
+				`Connection lost, nothing received for ${silentForMs}ms`,
+			);
+			error.statusCode = DisconnectReason.connectionLost;
+			this.logger.warn({ silentForMs }, "Keep-alive timed out");
+			this.close(error);
+			// A dead socket may never complete the close handshake.
+			if (this.state === "closing") {
+				this.handleWsClose(1006, utf8ToBytes("Keep-alive timeout"));
+			}
+			return;
+		}
+
+		this.query(
+			{
+				tag: "iq",
+				attrs: { to: S_WHATSAPP_NET, type: "get", xmlns: "w:p" },
+				content: [{ tag: "ping", attrs: {} }],
+			},
+			{ timeoutMs: intervalMs },
+		).catch((err) => {
+			this.logger.warn({ err }, "Keep-alive ping failed");
+		});
+	}
+
+	private failPendingQueries(reason?: Error): void {
+		for (const [id, pending] of this.pendingQueries) {
+			clearTimeout(pending.timeoutId);
+			const error = new ErrorWithStatusCode(
+				`Connection closed while waiting for response to ${id}`,
+				{ cause: reason },
+			);
+			error.statusCode = DisconnectReason.connectionClosed;
+			pending.reject(error);
+		}
+		this.pendingQueries.clear();
+	}
+
 	private handleWsError = (error: Error): void => {
 		this.logger.error({ err: error }, "WebSocket error occurred");
 		this.dispatchTypedEvent("error", { error });
@@ -332,7 +546,11 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 				"Connection closed, likely due to an expired client version.",
 			);
 		} else if (!error && this.state !== "closing") {
-			error = new Error(`WebSocket closed unexpectedly: ${code} ${reason}`);
+			const lostError = new ErrorWithStatusCode(
+				`WebSocket closed unexpectedly: ${code} ${reason}`,
+			);
+			lostError.statusCode = DisconnectReason.connectionLost;
+			error = lostError;
 		}
 
 		this.setState(
@@ -343,6 +561,7 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 					: new Error("Unknown close reason")),
 		);
 		this.removeWsListeners();
+		this.failPendingQueries(error);
 		this.dispatchTypedEvent("ws.close", { code, reason });
 		if (error) this.dispatchTypedEvent("error", { error });
 		// Clear the closing error for the next connection cycle
@@ -379,7 +598,9 @@ class ConnectionManager extends TypedEventTarget<ConnectionManagerEventMap> {
 				this.logger.info(
 					`Current state is ${this.state}, closing before reconnect...`,
 				);
-				await this.close(new Error("Reconnection requested"));
+				const restartError = new ErrorWithStatusCode("Reconnection requested");
+				restartError.statusCode = DisconnectReason.restartRequired;
+				await this.close(restartError);
 				this.logger.warn("Waiting for connection to fully close...");
 				await new Promise<void>((resolve) => {
 					const listener = () => resolve();
@@ -1,28 +1,62 @@
 import type { BinaryNode } from "@wha.ts/binary";
 import { getBinaryNodeChild, S_WHATSAPP_NET } from "@wha.ts/binary";
+import type { AuthenticationCreds } from "@wha.ts/types";
 import { generateMdTagPrefix } from "@wha.ts/utils/generic";
-import { DisconnectReason } from "../defaults";
-import type { MessageProcessor } from "../messaging/message-processor";
+import { DisconnectReason, NackReason, OFFLINE_BATCH_SIZE } from "../defaults";
+import type {
+	MessageProcessingResult,
+	MessageProcessor,
+} from "../messaging/message-processor";
 import type { ILogger } from "../transport/types";
-import type { ConnectionState } from "./connection-events";
+import type {
+	ConnectionManagerEventMap,
+	ConnectionState,
+} from "./connection-events";
 import { ErrorWithStatusCode } from "./types";
 
 interface IConnectionManagerActions {
 	setState(newState: ConnectionState, error?: Error): void;
 	sendNode(node: BinaryNode): Promise<void>;
 	close(error?: Error): Promise<void>;
-	dispatchTypedEvent(
-		type: "node.received",
-		payload: { node: BinaryNode },
+	dispatchTypedEvent<K extends "node.received" | "offline.complete">(
+		type: K,
+		payload: ConnectionManagerEventMap[K],
 	): void;
 }
 
+/** Status codes for stream errors that carry a reason element but no code. */
+const STREAM_ERROR_CODES: Record<string, DisconnectReason> = {
+	conflict: DisconnectReason.connectionReplaced,
+};
+
+/** Stanza tags the server expects an `<ack>` for. */
+const ACKED_STANZAS = new Set(["message", "receipt", "notification", "call"]);
+
+const nackReasonFor = (
+	result: MessageProcessingResult | undefined,
+): NackReason | undefined => {
+	if (result?.status !== "failed") {
+		return undefined;
+	}
+	return result.error.message.startsWith("Discarded:")
+		? NackReason.signalErrorOldCounter
+		: NackReason.unhandledError;
+};
+
 export class IncomingNodeHandler {
 	private epoch = 0;
+	/** Whether the server is still delivering what queued up while offline. */
+	private offlinePending = false;
+	private offlineHandled = 0;
+	/** Offline stanzas still being decrypted. */
+	private offlineInFlight = 0;
+	/** `<ib><offline/>` arrived, but stanzas before it are still in flight. */
+	private offlineCompletePending = false;
 	constructor(
 		private connection: IConnectionManagerActions,
-		private messageProcessor: MessageProcessor,
+		private messageProcessor: Pick<MessageProcessor, "processIncomingNode">,
 		private logger: ILogger,
+		private creds: AuthenticationCreds,
 	) {}
 
 	/**
@@ -45,16 +79,142 @@ export class IncomingNodeHandler {
 			return;
 		}
 
+		this.handleOfflineMarkers(node);
+
 		if (getBinaryNodeChild(node, "enc")) {
-			this.messageProcessor.processIncomingNode(node).catch((err) => {
-				this.logger.error(
-					{ err, nodeTag: node.tag, from: node.attrs.from },
-					"Error processing encrypted node in MessageProcessor",
-				);
-			});
+			const isOffline = node.attrs.offline !== undefined;
+			if (isOffline) {
+				this.offlineInFlight++;
+			}
+			this.messageProcessor
+				.processIncomingNode(node)
+				.then((result) => this.sendAck(node, nackReasonFor(result)))
+				.catch((err) => {
+					this.logger.error(
+						{ err, nodeTag: node.tag, from: node.attrs.from },
+						"Error processing encrypted node in MessageProcessor",
+					);
+					this.sendAck(node, NackReason.unhandledError);
+				})
+				.finally(() => {
+					this.countOfflineStanza(node);
+					if (isOffline) {
+						this.offlineInFlight--;
+						this.completeOffline();
+					}
+				});
 		} else {
 			this.connection.dispatchTypedEvent("node.received", { node });
+			this.sendAck(node);
+			this.countOfflineStanza(node);
+		}
+	}
+
+	/**
+	 * `<ib><offline_preview/>` announces the stanzas queued while we were
+	 * offline; they are then pulled in batches until `<ib><offline/>` says the
+	 * queue is empty. The `ib` itself still goes out as `node.received`, and
+	 * `offline.complete` follows once every offline stanza has been handled.
+	 */
+	private handleOfflineMarkers(node: BinaryNode): void {
+		if (node.tag !== "ib") {
+			return;
+		}
+		const preview = getBinaryNodeChild(node, "offline_preview");
+		if (preview) {
+			this.logger.info({ attrs: preview.attrs }, "Receiving offline stanzas");
+			this.offlinePending = true;
+			this.offlineHandled = 0;
+			this.requestOfflineBatch();
+		} else if (getBinaryNodeChild(node, "offline")) {
+			this.logger.info(
+				{ handled: this.offlineHandled },
+				"Received all offline stanzas",
+			);
+			this.offlinePending = false;
+			this.offlineCompletePending = true;
+			this.completeOffline();
+		}
+	}
+
+	/** Reports the offline queue as done once nothing is left in flight. */
+	private completeOffline(): void {
+		if (!this.offlineCompletePending || this.offlineInFlight > 0) {
+			return;
+		}
+		this.offlineCompletePending = false;
+		this.connection.dispatchTypedEvent("offline.complete", {
+			handled: this.offlineHandled,
+		});
+	}
+
+	/** Asks for the next batch once the current one has been handled. */
+	private countOfflineStanza(node: BinaryNode): void {
+		if (node.attrs.offline === undefined) {
+			return;
 		}
+		this.offlineHandled++;
+		if (this.offlinePending && this.offlineHandled % OFFLINE_BATCH_SIZE === 0) {
+			this.requestOfflineBatch();
+		}
+	}
+
+	private requestOfflineBatch(): void {
+		this.connection
+			.sendNode({
+				tag: "ib",
+				attrs: {},
+				content: [
+					{
+						tag: "offline_batch",
+						attrs: { count: OFFLINE_BATCH_SIZE.toString() },
+					},
+				],
+			})
+			.catch((err) => {
+				this.logger.warn({ err }, "Failed to request offline batch");
+			});
+	}
+
+	/**
+	 * Acknowledges a `message`, `receipt`, `notification` or `call` stanza so
+	 * the server stops redelivering it. An `errorCode` turns it into a nack.
+	 */
+	private sendAck(node: BinaryNode, errorCode?: NackReason): void {
+		const { id, from, participant, recipient, type } = node.attrs;
+		if (!ACKED_STANZAS.has(node.tag) || !id || !from) {
+			return;
+		}
+
+		const isUnavailable =
+			node.tag === "message" && !!getBinaryNodeChild(node, "unavailable");
+		const attrs: Record<string, string> = { id, to: from, class: node.tag };
+		if (errorCode !== undefined) {
+			attrs.error = errorCode.toString();
+		}
+		if (participant) {
+			attrs.participant = participant;
+		}
+		if (recipient) {
+			attrs.recipient = recipient;
+		}
+		// Messages only echo their type back when the ack carries news.
+		if (
+			type &&
+			(node.tag !== "message" || isUnavailable || errorCode !== undefined)
+		) {
+			attrs.type = type;
+		}
+		if (isUnavailable && this.creds.me?.id) {
+			attrs.from = this.creds.me.id;
+		}
+
+		this.connection.sendNode({ tag: "ack", attrs }).catch((err) => {
+			this.logger.warn(
+				{ err, id, class: node.tag },
+				"Failed to acknowledge stanza",
+			);
+		});
 	}
 
 	private handleStreamError(node: BinaryNode): boolean {
@@ -62,17 +222,21 @@ export class IncomingNodeHandler {
 			return false;
 		}
 
-		const code = node.attrs.code;
-		const message = `Stream Error (code: ${code})`;
+		const [reasonNode] = Array.isArray(node.content) ? node.content : [];
+		const reason = reasonNode?.tag ?? "unknown";
+		const statusCode: DisconnectReason =
+			Number(node.attrs.code) ||
+			STREAM_ERROR_CODES[reason] ||
+			DisconnectReason.badSession;
+		const message = `Stream Error (code: ${statusCode}, reason: ${reason})`;
 		this.logger.warn({ node }, message);
 
-		let error: ErrorWithStatusCode;
-		if (code === "515") {
-			error = new ErrorWithStatusCode("Restart Required");
-			error.statusCode = DisconnectReason.restartRequired;
-		} else {
-			error = new ErrorWithStatusCode(message);
-		}
+		const error = new ErrorWithStatusCode(
+			statusCode === DisconnectReason.restartRequired
+				? "Restart Required"
+				: message,
+		);
+		error.statusCode = statusCode;
 
 		this.connection.close(error);
 		return true;
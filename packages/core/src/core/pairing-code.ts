@@ -0,0 +1,114 @@
+import type { KeyPair } from "@wha.ts/utils";
+import {
+	aesCTR,
+	aesEncryptGCM,
+	Curve,
+	concatBytes,
+	hkdf,
+	pbkdf2Sha256,
+	randomBytes,
+} from "@wha.ts/utils";
+
+/** Crockford's base32 without 0, I, O and U, as shown on the phone. */
+const PAIRING_CODE_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTVWXYZ";
+const PAIRING_CODE_LENGTH = 8;
+const PAIRING_KEY_ITERATIONS = 2 << 16;
+
+export const generatePairingCode = (): string => {
+	let code = "";
+	let value = 0;
+	let bits = 0;
+	for (const byte of randomBytes(5)) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			bits -= 5;
+			code += PAIRING_CODE_ALPHABET[(value >>> bits) & 31];
+		}
+		value &= (1 << bits) - 1;
+	}
+	return code;
+};
+
+export const isValidPairingCode = (code: string): boolean =>
+	code.length === PAIRING_CODE_LENGTH &&
+	[...code].every((char) => PAIRING_CODE_ALPHABET.includes(char));
+
+const derivePairingKey = (code: string, salt: Uint8Array) =>
+	pbkdf2Sha256(code, salt, PAIRING_KEY_ITERATIONS, 32);
+
+/**
+ * Encrypts an ephemeral public key under the pairing code, as
+ * `salt ‖ iv ‖ AES-CTR(key)`. Both sides of the exchange use this format.
+ */
+export const wrapEphemeralKey = async (
+	code: string,
+	publicKey: Uint8Array,
+): Promise<Uint8Array> => {
+	const salt = randomBytes(32);
+	const iv = randomBytes(16);
+	const key = await derivePairingKey(code, salt);
+	return concatBytes(salt, iv, aesCTR(publicKey, key, iv));
+};
+
+export const unwrapEphemeralKey = async (
+	code: string,
+	wrapped: Uint8Array,
+): Promise<Uint8Array> => {
+	const key = await derivePairingKey(code, wrapped.slice(0, 32));
+	return aesCTR(wrapped.slice(48, 80), key, wrapped.slice(32, 48));
+};
+
+/**
+ * Answers the primary device once it has accepted the code: wraps our
+ * identity key for it and derives the ADV secret that authenticates the
+ * following `pair-success`.
+ */
+export const buildCompanionFinish = async ({
+	code,
+	companionEphemeral,
+	identity,
+	primaryIdentityPublicKey,
+	wrappedPrimaryEphemeral,
+}: {
+	code: string;
+	companionEphemeral: KeyPair;
+	identity: KeyPair;
+	primaryIdentityPublicKey: Uint8Array;
+	wrappedPrimaryEphemeral: Uint8Array;
+}): Promise<{ wrappedKeyBundle: Uint8Array; advSecretKey: Uint8Array }> => {
+	const primaryEphemeral = await unwrapEphemeralKey(
+		code,
+		wrappedPrimaryEphemeral,
+	);
+	const companionSharedKey = Curve.sharedKey(
+		companionEphemeral.privateKey,
+		primaryEphemeral,
+	);
+	const random = randomBytes(32);
+
+	const salt = randomBytes(32);
+	const iv = randomBytes(12);
+	const bundleKey = hkdf(companionSharedKey, 32, {
+		salt,
+		info: "link_code_pairing_key_bundle_encryption_key",
+	});
+	const bundle = aesEncryptGCM(
+		concatBytes(identity.publicKey, primaryIdentityPublicKey, random),
+		bundleKey,
+		iv,
+		new Uint8Array(),
+	);
+
+	const identitySharedKey = Curve.sharedKey(
+		identity.privateKey,
+		primaryIdentityPublicKey,
+	);
+	const advSecretKey = hkdf(
+		concatBytes(companionSharedKey, identitySharedKey, random),
+		32,
+		{ info: "adv_secret" },
+	);
+
+	return { wrappedKeyBundle: concatBytes(salt, iv, bundle), advSecretKey };
+};
@@ -0,0 +1,177 @@
+import {
+	type TypedCustomEvent,
+	TypedEventTarget,
+} from "@wha.ts/types/generics/typed-event-target";
+import { DEFAULT_RECONNECT_POLICY, DisconnectReason } from "../defaults";
+import type { ILogger } from "../transport/types";
+import type {
+	ConnectionUpdatePayload,
+	LastDisconnect,
+} from "./authenticator-events";
+import type { ConnectionManager } from "./connection";
+import type { StateChangePayload } from "./connection-events";
+import type { ErrorWithStatusCode } from "./types";
+
+export type DisconnectKind =
+	| "restartRequired"
+	| "connectionLost"
+	| "loggedOut"
+	| "connectionReplaced"
+	| "badSession";
+
+export interface ReconnectPolicy {
+	/** Attempts after a disconnect before giving up. Defaults to 10. */
+	maxAttempts?: number;
+	/** Delay before the first attempt. Defaults to 1s. */
+	initialDelayMs?: number;
+	/** Upper bound for the backoff delay. Defaults to 60s. */
+	maxDelayMs?: number;
+	/** Growth of the delay per attempt. Defaults to 2. */
+	factor?: number;
+	/** Fraction of the delay added or removed at random. Defaults to 0.2. */
+	jitter?: number;
+	/** Stops any pending and future reconnect attempts once aborted. */
+	signal?: AbortSignal;
+}
+
+/** Maps the status code of a close error onto how we should react to it. */
+export const classifyDisconnect = (error?: Error): DisconnectKind => {
+	switch ((error as ErrorWithStatusCode | undefined)?.statusCode) {
+		case DisconnectReason.restartRequired:
+			return "restartRequired";
+		case DisconnectReason.loggedOut:
+		case DisconnectReason.forbidden:
+		case DisconnectReason.multideviceMismatch:
+			return "loggedOut";
+		case DisconnectReason.connectionReplaced:
+			return "connectionReplaced";
+		case DisconnectReason.badSession:
+			return "badSession";
+		default:
+			return "connectionLost";
+	}
+};
+
+/**
+ * Reconnects after the connection closes, with exponential backoff and
+ * jitter. A restart the server asked for is retried at once; a logged out
+ * session, or one another client replaced, is never retried.
+ */
+export class ReconnectController extends TypedEventTarget<{
+	"connection.update": ConnectionUpdatePayload;
+}> {
+	private policy: Required<Omit<ReconnectPolicy, "signal">>;
+	private attempt = 0;
+	private timer?: ReturnType<typeof setTimeout>;
+
+	constructor(
+		private connectionManager: Pick<
+			ConnectionManager,
+			"addEventListener" | "getState" | "reconnect"
+		>,
+		private logger: ILogger,
+		private options: ReconnectPolicy = {},
+	) {
+		super();
+		this.policy = { ...DEFAULT_RECONNECT_POLICY, ...options };
+
+		this.connectionManager.addEventListener("state.change", ((
+			event: TypedCustomEvent<StateChangePayload>,
+		) => {
+			const { state, error } = event.detail;
+			if (state === "open") {
+				this.attempt = 0;
+			} else if (state === "closed") {
+				this.handleClose(error);
+			}
+		}) as EventListener);
+
+		this.options.signal?.addEventListener("abort", () => this.cancel(), {
+			once: true,
+		});
+	}
+
+	/** Clears a scheduled attempt; later disconnects are handled again. */
+	cancel(): void {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+	}
+
+	private handleClose(error?: Error): void {
+		const reason = classifyDisconnect(error);
+		const statusCode = (error as ErrorWithStatusCode | undefined)?.statusCode;
+		const lastDisconnect: LastDisconnect = {
+			error,
+			statusCode,
+			reason,
+			date: new Date(),
+			willReconnect: false,
+			attempt: this.attempt,
+		};
+
+		if (
+			reason === "loggedOut" ||
+			reason === "connectionReplaced" ||
+			this.options.signal?.aborted ||
+			this.timer
+		) {
+			this.emitClose(lastDisconnect);
+			return;
+		}
+		if (this.attempt >= this.policy.maxAttempts) {
+			this.logger.error(
+				{ attempts: this.attempt, err: error },
+				"Giving up reconnecting",
+			);
+			this.emitClose(lastDisconnect);
+			return;
+		}
+
+		this.attempt++;
+		const delayMs = reason === "restartRequired" ? 0 : this.backoff();
+		this.logger.info(
+			{ reason, attempt: this.attempt, delayMs },
+			"Scheduling reconnect",
+		);
+		this.emitClose({
+			...lastDisconnect,
+			willReconnect: true,
+			attempt: this.attempt,
+			delayMs,
+		});
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.reconnect();
+		}, delayMs);
+	}
+
+	private reconnect(): void {
+		// Someone else reconnected in the meantime, e.g. after a new login.
+		if (this.connectionManager.getState() !== "closed") {
+			return;
+		}
+		this.dispatchTypedEvent("connection.update", { connection: "connecting" });
+		// A failed attempt closes the connection again, which schedules the next.
+		this.connectionManager.reconnect().catch((err) => {
+			this.logger.warn({ err, attempt: this.attempt }, "Reconnect failed");
+		});
+	}
+
+	private backoff(): number {
+		const { initialDelayMs, maxDelayMs, factor, jitter } = this.policy;
+		const delay = Math.min(
+			maxDelayMs,
+			initialDelayMs * factor ** (this.attempt - 1),
+		);
+		return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+	}
+
+	private emitClose(lastDisconnect: LastDisconnect): void {
+		this.dispatchTypedEvent("connection.update", {
+			connection: "close",
+			error: lastDisconnect.error,
+			statusCode: lastDisconnect.statusCode,
+			lastDisconnect,
+		});
+	}
+}
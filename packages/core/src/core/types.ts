@@ -10,3 +10,46 @@ export interface IConnectionActions {
 export class ErrorWithStatusCode extends Error {
 	public statusCode?: DisconnectReason;
 }
+
+export interface QueryOptions {
+	/** Overrides `defaultQueryTimeoutMs` from the socket config. */
+	timeoutMs?: number;
+}
+
+/**
+ * Raised when the server answers a query with an `iq type="error"` or an
+ * `ack` carrying an `error` attribute.
+ */
+export class QueryError extends Error {
+	constructor(
+		message: string,
+		public readonly code: number,
+		public readonly text: string | undefined,
+		public readonly node: BinaryNode,
+	) {
+		super(message);
+		this.name = "QueryError";
+	}
+}
+
+export interface WaitForConnectionOptions {
+	/** Rejects if the connection is not open by then. No limit by default. */
+	timeoutMs?: number;
+	signal?: AbortSignal;
+}
+
+/**
+ * Raised when waiting for the connection to open fails: it timed out, the
+ * wait was aborted, or the connection closed for good, e.g. a failed login.
+ */
+export class ConnectionError extends Error {
+	constructor(
+		message: string,
+		public readonly reason: "timeout" | "aborted" | "closed",
+		public readonly statusCode?: number,
+		options?: ErrorOptions,
+	) {
+		super(message, options);
+		this.name = "ConnectionError";
+	}
+}
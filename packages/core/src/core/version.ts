@@ -0,0 +1,45 @@
+import { WA_VERSION, WA_WEB_VERSION_URL } from "../defaults";
+import type { MediaFetcher } from "../media/media-manager";
+
+export interface LatestVersion {
+	version: number[];
+	/** False when the lookup failed and `version` is the bundled `WA_VERSION`. */
+	isLatest: boolean;
+	error?: Error;
+}
+
+/**
+ * Looks up the version WhatsApp Web currently ships, to pass as `version`
+ * once the bundled one expires. Never throws: on failure it resolves with
+ * `WA_VERSION` and the error.
+ */
+export const fetchLatestWaWebVersion = async ({
+	url = WA_WEB_VERSION_URL,
+	fetcher = (input, init) => fetch(input, init),
+}: {
+	url?: string;
+	fetcher?: MediaFetcher;
+} = {}): Promise<LatestVersion> => {
+	try {
+		const response = await fetcher(url, {
+			headers: { "sec-fetch-site": "none", "user-agent": "Mozilla/5.0" },
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+		}
+
+		const match = (await response.text()).match(
+			/\\?"client_revision\\?":\s*(\d+)/,
+		);
+		if (!match?.[1]) {
+			throw new Error(`No client_revision found in ${url}`);
+		}
+		return { version: [2, 3000, Number(match[1])], isLatest: true };
+	} catch (error) {
+		return {
+			version: WA_VERSION,
+			isLatest: false,
+			error: error instanceof Error ? error : new Error(String(error)),
+		};
+	}
+};
@@ -2,6 +2,9 @@ const DEFAULT_ORIGIN = "https://web.whatsapp.com";
 // An whatsapp version expires after 2 months. When expired, the client will not be able to connect to WhatsApp servers.
 export const WA_VERSION = [2, 3000, 1025200398]; // Released on 7/28/2025, 12:25:17 AM, expires on 9/28/2025, 12:25:17 AM
 
+/** Served by WhatsApp Web; embeds the current `client_revision`. */
+export const WA_WEB_VERSION_URL = "https://web.whatsapp.com/sw.js";
+
 export const DEFAULT_BROWSER = ["Wha.ts", "Desktop", "0.1"] as const;
 
 export const WHATSAPP_ROOT_CA_PUBLIC_KEY = new Uint8Array([
@@ -17,11 +20,27 @@ export const DEFAULT_SOCKET_CONFIG = {
 	waWebSocketUrl: "wss://web.whatsapp.com/ws/chat",
 	connectTimeoutMs: 20_000,
 	defaultQueryTimeoutMs: 60_000,
+	keepAliveIntervalMs: 30_000,
 	origin: DEFAULT_ORIGIN,
 };
 
+export const DEFAULT_RECONNECT_POLICY = {
+	maxAttempts: 10,
+	initialDelayMs: 1_000,
+	maxDelayMs: 60_000,
+	factor: 2,
+	jitter: 0.2,
+};
+
+export const KEEP_ALIVE_GRACE_MS = 5_000; // Silence tolerated past the keep-alive interval
+export const OFFLINE_BATCH_SIZE = 30; // Offline stanzas requested per <offline_batch>
 export const MIN_PREKEY_COUNT = 10; // Minimum pre-keys to maintain on server
 export const PREKEY_UPLOAD_BATCH_SIZE = 30; // Number of pre-keys to upload in a batch
+export const DEVICE_LIST_CACHE_TTL_MS = 5 * 60_000; // How long a fetched device list is trusted
+export const GROUP_PARTICIPANTS_CACHE_TTL_MS = 5 * 60_000; // How long a fetched participant list is trusted
+export const MAX_MESSAGE_RETRY_COUNT = 5; // Retry receipts sent (or honoured) per message
+export const RECENT_MESSAGE_CACHE_SIZE = 256; // Sent messages kept for answering retry receipts
+export const MAX_APP_STATE_SYNC_ATTEMPTS = 2; // Resyncs of an app state collection before giving up
 
 // Disconnect reasons for connection closure
 export enum DisconnectReason {
@@ -36,3 +55,47 @@ export enum DisconnectReason {
 	forbidden = 403,
 	unavailableService = 503,
 }
+
+// Error codes sent in a negative <ack> for stanzas we failed to handle
+export enum NackReason {
+	parsingError = 487,
+	unrecognizedStanza = 488,
+	unrecognizedStanzaClass = 489,
+	unrecognizedStanzaType = 490,
+	invalidProtobuf = 491,
+	missingMessageSecret = 495,
+	signalErrorOldCounter = 496,
+	messageDeletedOnPeer = 499,
+	unhandledError = 500,
+}
+
+// HKDF info suffixes (`WhatsApp <suffix> Keys`) used to expand a media key
+export const MEDIA_HKDF_KEY_MAPPING = {
+	image: "Image",
+	video: "Video",
+	gif: "Video",
+	audio: "Audio",
+	ptt: "Audio",
+	document: "Document",
+	sticker: "Image",
+	"thumbnail-image": "Image Thumbnail",
+	"thumbnail-video": "Video Thumbnail",
+	"thumbnail-document": "Document Thumbnail",
+	"md-msg-hist": "History",
+	"md-app-state": "App State",
+} as const;
+
+export type MediaType = keyof typeof MEDIA_HKDF_KEY_MAPPING;
+
+// Upload paths on the media hosts returned by the media_conn IQ
+export const MEDIA_PATH_MAP: Partial<Record<MediaType, string>> = {
+	image: "/mms/image",
+	video: "/mms/video",
+	gif: "/mms/video",
+	audio: "/mms/audio",
+	ptt: "/mms/audio",
+	document: "/mms/document",
+	sticker: "/mms/image",
+	"md-msg-hist": "/mms/md-app-state",
+	"md-app-state": "",
+};
@@ -0,0 +1,182 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	getBinaryNodeChild,
+	getBinaryNodeChildren,
+	jidDecode,
+	jidEncode,
+	S_WHATSAPP_NET,
+} from "@wha.ts/binary";
+import type { DeviceList, IAuthStateProvider } from "@wha.ts/types";
+import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
+import type { ConnectionManager } from "./core/connection";
+import { DEVICE_LIST_CACHE_TTL_MS } from "./defaults";
+import type { ILogger } from "./transport/types";
+
+const toUserJid = (jid: string): string => {
+	const decoded = jidDecode(jid);
+	if (!decoded?.user) {
+		throw new Error(`Invalid JID for device lookup: ${jid}`);
+	}
+	return jidEncode(decoded.user, decoded.server);
+};
+
+/**
+ * Extracts `{ userJid: deviceIds }` from a usync response with a `devices`
+ * query. Users without a device list are left out.
+ */
+export const parseUSyncDevices = (
+	node: BinaryNode,
+): Record<string, number[]> => {
+	const list = getBinaryNodeChild(getBinaryNodeChild(node, "usync"), "list");
+	const result: Record<string, number[]> = {};
+
+	for (const user of getBinaryNodeChildren(list, "user")) {
+		const jid = user.attrs.jid;
+		const deviceList = getBinaryNodeChild(
+			getBinaryNodeChild(user, "devices"),
+			"device-list",
+		);
+		if (!jid || !deviceList) {
+			continue;
+		}
+		result[toUserJid(jid)] = getBinaryNodeChildren(deviceList, "device")
+			.map((device) => Number(device.attrs.id))
+			.filter((id) => Number.isInteger(id));
+	}
+
+	return result;
+};
+
+export class DeviceListManager {
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<
+			ConnectionManager,
+			"addEventListener" | "query" | "generateMessageTag"
+		>,
+		private ttlMs = DEVICE_LIST_CACHE_TTL_MS,
+	) {
+		this.connectionManager.addEventListener("node.received", ((
+			event: TypedCustomEvent<{ node: BinaryNode }>,
+		) => {
+			const { node } = event.detail;
+			if (node.tag === "notification" && node.attrs.type === "devices") {
+				this.handleDevicesNotification(node).catch((err) => {
+					this.logger.error({ err }, "Failed to handle devices notification");
+				});
+			}
+		}) as EventListener);
+	}
+
+	/**
+	 * Resolves user JIDs into the JIDs of all their devices, excluding the
+	 * device this client runs on. Cached lists younger than the TTL are reused
+	 * unless `useCache` is false.
+	 */
+	public async getDevices(
+		jids: string[],
+		{ useCache = true }: { useCache?: boolean } = {},
+	): Promise<string[]> {
+		const users = [...new Set(jids.map(toUserJid))];
+		const deviceIds: Record<string, number[]> = {};
+		let usersToFetch = users;
+
+		if (useCache) {
+			const cached = await this.auth.keys.get("device-list", users);
+			const now = Date.now();
+			usersToFetch = users.filter((user) => {
+				const entry = cached[user];
+				if (entry && now - entry.fetchedAt < this.ttlMs) {
+					deviceIds[user] = entry.deviceIds;
+					return false;
+				}
+				return true;
+			});
+		}
+
+		if (usersToFetch.length) {
+			const fetched = await this.fetchDeviceIds(usersToFetch);
+			const fetchedAt = Date.now();
+			const update: Record<string, DeviceList> = {};
+			for (const [user, ids] of Object.entries(fetched)) {
+				deviceIds[user] = ids;
+				update[user] = { deviceIds: ids, fetchedAt };
+			}
+			await this.auth.keys.set({ "device-list": update });
+		}
+
+		const me = jidDecode(this.auth.creds.me?.id);
+		const deviceJids: string[] = [];
+		for (const [user, ids] of Object.entries(deviceIds)) {
+			const decoded = jidDecode(user);
+			for (const id of ids) {
+				if (decoded?.user === me?.user && id === (me?.device ?? 0)) {
+					continue;
+				}
+				deviceJids.push(
+					jidEncode(decoded?.user, decoded?.server, id || undefined),
+				);
+			}
+		}
+		return deviceJids;
+	}
+
+	/** Drops cached device lists so the next lookup hits the server. */
+	public async invalidate(jids: string[]): Promise<void> {
+		const users = [...new Set(jids.map(toUserJid))];
+		await this.auth.keys.set({
+			"device-list": Object.fromEntries(users.map((user) => [user, null])),
+		});
+	}
+
+	private async fetchDeviceIds(
+		users: string[],
+	): Promise<Record<string, number[]>> {
+		this.logger.debug({ users }, "Fetching device lists via usync");
+
+		const response = await this.connectionManager.query({
+			tag: "iq",
+			attrs: {
+				to: S_WHATSAPP_NET,
+				type: "get",
+				xmlns: "usync",
+			},
+			content: [
+				{
+					tag: "usync",
+					attrs: {
+						sid: this.connectionManager.generateMessageTag(),
+						mode: "query",
+						last: "true",
+						index: "0",
+						context: "message",
+					},
+					content: [
+						{
+							tag: "query",
+							attrs: {},
+							content: [{ tag: "devices", attrs: { version: "2" } }],
+						},
+						{
+							tag: "list",
+							attrs: {},
+							content: users.map((jid) => ({ tag: "user", attrs: { jid } })),
+						},
+					],
+				},
+			],
+		});
+
+		return parseUSyncDevices(response);
+	}
+
+	private async handleDevicesNotification(node: BinaryNode): Promise<void> {
+		const from = node.attrs.from;
+		if (!from) {
+			return;
+		}
+		this.logger.debug({ from }, "Device list changed, invalidating cache");
+		await this.invalidate([from]);
+	}
+}
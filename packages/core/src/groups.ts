@@ -0,0 +1,91 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild, getBinaryNodeChildren } from "@wha.ts/binary";
+import type { IAuthStateProvider } from "@wha.ts/types";
+import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
+import type { ConnectionManager } from "./core/connection";
+import { GROUP_PARTICIPANTS_CACHE_TTL_MS } from "./defaults";
+import type { ILogger } from "./transport/types";
+
+/** Extracts the participant JIDs from a `w:g2` group query response. */
+export const parseGroupParticipants = (node: BinaryNode): string[] =>
+	getBinaryNodeChildren(getBinaryNodeChild(node, "group"), "participant")
+		.map((participant) => participant.attrs.jid)
+		.filter((jid): jid is string => !!jid);
+
+export class GroupParticipantsManager {
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<
+			ConnectionManager,
+			"addEventListener" | "query"
+		>,
+		private ttlMs = GROUP_PARTICIPANTS_CACHE_TTL_MS,
+	) {
+		this.connectionManager.addEventListener("node.received", ((
+			event: TypedCustomEvent<{ node: BinaryNode }>,
+		) => {
+			const { node } = event.detail;
+			if (node.tag === "notification" && node.attrs.type === "w:gp2") {
+				this.handleGroupNotification(node).catch((err) => {
+					this.logger.error({ err }, "Failed to handle group notification");
+				});
+			}
+		}) as EventListener);
+	}
+
+	/**
+	 * Resolves the participant JIDs of a group. A cached list younger than
+	 * the TTL is reused unless `useCache` is false.
+	 */
+	public async getParticipants(
+		groupJid: string,
+		{ useCache = true }: { useCache?: boolean } = {},
+	): Promise<string[]> {
+		if (useCache) {
+			const cached = (
+				await this.auth.keys.get("group-participants", [groupJid])
+			)[groupJid];
+			if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+				return cached.participants;
+			}
+		}
+
+		const participants = await this.fetchParticipants(groupJid);
+		await this.auth.keys.set({
+			"group-participants": {
+				[groupJid]: { participants, fetchedAt: Date.now() },
+			},
+		});
+		return participants;
+	}
+
+	/** Drops cached participant lists so the next lookup hits the server. */
+	public async invalidate(groupJids: string[]): Promise<void> {
+		await this.auth.keys.set({
+			"group-participants": Object.fromEntries(
+				groupJids.map((groupJid) => [groupJid, null]),
+			),
+		});
+	}
+
+	private async fetchParticipants(groupJid: string): Promise<string[]> {
+		this.logger.debug({ groupJid }, "Fetching group participants");
+
+		const response = await this.connectionManager.query({
+			tag: "iq",
+			attrs: { type: "get", xmlns: "w:g2", to: groupJid },
+			content: [{ tag: "query", attrs: { request: "interactive" } }],
+		});
+		return parseGroupParticipants(response);
+	}
+
+	private async handleGroupNotification(node: BinaryNode): Promise<void> {
+		const from = node.attrs.from;
+		if (!from) {
+			return;
+		}
+		this.logger.debug({ from }, "Group changed, invalidating participants");
+		await this.invalidate([from]);
+	}
+}
@@ -1,3 +1,74 @@
 export type { ClientEventMap } from "@wha.ts/types";
-export { createWAClient } from "./client";
+export type { ChatModification } from "./app-state/chat-modification";
+export type {
+	AppStateAction,
+	AppStateMutation,
+} from "./app-state/mutations";
+export {
+	APP_STATE_COLLECTIONS,
+	type AppStateCollection,
+	MissingAppStateKeyError,
+} from "./app-state/syncd";
+export { type ClientState, createWAClient } from "./client";
+export type { ClientIdentity } from "./core/auth-payload-generators";
+export { AuthState } from "./core/authenticator";
+export type {
+	ConnectionUpdatePayload,
+	LastDisconnect,
+} from "./core/authenticator-events";
+export type { ConnectionState } from "./core/connection-events";
+export {
+	classifyDisconnect,
+	type DisconnectKind,
+	type ReconnectPolicy,
+} from "./core/reconnect";
+export {
+	ConnectionError,
+	ErrorWithStatusCode,
+	QueryError,
+	type QueryOptions,
+	type WaitForConnectionOptions,
+} from "./core/types";
+export {
+	fetchLatestWaWebVersion,
+	type LatestVersion,
+} from "./core/version";
+export { DisconnectReason } from "./defaults";
+export type {
+	DownloadMediaOptions,
+	MediaFetcher,
+	MediaSource,
+} from "./media/media-manager";
+export type {
+	HistorySyncChat,
+	HistorySyncContact,
+	HistorySyncPayload,
+} from "./messaging/history-sync";
+export type {
+	AnyMessageContent,
+	MediaMessageContent,
+	QuotedMessage,
+	VCardContact,
+} from "./messaging/message-content";
+export type { SendMessageResult } from "./messaging/message-sender";
+export type {
+	GetMessagesOptions,
+	MessageStatus,
+	MessageStore,
+	StoredChat,
+	StoredMessage,
+} from "./messaging/message-store";
+export type { WAMessageKey } from "./messaging/types";
+export {
+	getText,
+	normalizeMessageContent,
+	type WAMessage,
+	type WAMessageContent,
+} from "./messaging/wa-message";
 export { SignalProtocolStoreAdapter } from "./signal/signal-store";
+export {
+	IWebSocketClient,
+	type TransportFactory,
+	type WebSocketClientEventMap,
+	type WebSocketConfig,
+} from "./transport/types";
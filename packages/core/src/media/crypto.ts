@@ -0,0 +1,185 @@
+import {
+	aesDecrypt,
+	aesDecryptBlocks,
+	aesEncryptWithIV,
+	concatBytes,
+	createHmacSha256,
+	createSha256,
+	equalBytes,
+	hkdf,
+	hmacSign,
+	randomBytes,
+	sha256,
+} from "@wha.ts/utils";
+import { MEDIA_HKDF_KEY_MAPPING, type MediaType } from "../defaults";
+
+/** Length of the truncated HMAC appended to encrypted media. */
+export const MEDIA_MAC_LENGTH = 10;
+
+export interface MediaKeys {
+	iv: Uint8Array;
+	cipherKey: Uint8Array;
+	macKey: Uint8Array;
+}
+
+export interface EncryptedMedia {
+	mediaKey: Uint8Array;
+	/** AES-CBC ciphertext followed by the truncated HMAC. */
+	encrypted: Uint8Array;
+	fileSha256: Uint8Array;
+	fileEncSha256: Uint8Array;
+	fileLength: number;
+}
+
+/** Hashes a downloaded file is checked against, when the message has them. */
+export interface MediaHashes {
+	fileEncSha256?: Uint8Array;
+	fileSha256?: Uint8Array;
+}
+
+const AES_BLOCK_SIZE = 16;
+
+const assertHash = (
+	name: string,
+	actual: Uint8Array,
+	expected: Uint8Array | undefined,
+) => {
+	if (expected?.length && !equalBytes(actual, expected)) {
+		throw new Error(`Media ${name} mismatch`);
+	}
+};
+
+/** Expands a 32 byte media key into the IV, cipher key and MAC key. */
+export const getMediaKeys = (
+	mediaKey: Uint8Array,
+	mediaType: MediaType,
+): MediaKeys => {
+	const expanded = hkdf(mediaKey, 112, {
+		info: `WhatsApp ${MEDIA_HKDF_KEY_MAPPING[mediaType]} Keys`,
+	});
+	return {
+		iv: expanded.slice(0, 16),
+		cipherKey: expanded.slice(16, 48),
+		macKey: expanded.slice(48, 80),
+	};
+};
+
+/**
+ * Encrypts media the way WhatsApp stores it: AES-256-CBC under keys derived
+ * from a fresh media key, authenticated with an HMAC over IV and ciphertext.
+ */
+export const encryptMedia = (
+	plaintext: Uint8Array,
+	mediaType: MediaType,
+	mediaKey = randomBytes(32),
+): EncryptedMedia => {
+	const { iv, cipherKey, macKey } = getMediaKeys(mediaKey, mediaType);
+	const ciphertext = aesEncryptWithIV(plaintext, cipherKey, iv);
+	const mac = hmacSign(macKey, concatBytes(iv, ciphertext)).slice(
+		0,
+		MEDIA_MAC_LENGTH,
+	);
+	const encrypted = concatBytes(ciphertext, mac);
+
+	return {
+		mediaKey,
+		encrypted,
+		fileSha256: sha256(plaintext),
+		fileEncSha256: sha256(encrypted),
+		fileLength: plaintext.length,
+	};
+};
+
+/** Key for the AES-GCM payloads of media retry requests and notifications. */
+export const getMediaRetryKey = (mediaKey: Uint8Array): Uint8Array =>
+	hkdf(mediaKey, 32, { info: "WhatsApp Media Retry Notification" });
+
+/**
+ * Verifies the hashes and HMAC of a downloaded media file and decrypts it.
+ */
+export const decryptMedia = (
+	encrypted: Uint8Array,
+	mediaKey: Uint8Array,
+	mediaType: MediaType,
+	hashes: MediaHashes = {},
+): Uint8Array => {
+	assertHash("fileEncSha256", sha256(encrypted), hashes.fileEncSha256);
+
+	const { iv, cipherKey, macKey } = getMediaKeys(mediaKey, mediaType);
+	const ciphertext = encrypted.subarray(0, -MEDIA_MAC_LENGTH);
+	const mac = encrypted.subarray(-MEDIA_MAC_LENGTH);
+	const expectedMac = hmacSign(macKey, concatBytes(iv, ciphertext)).subarray(
+		0,
+		MEDIA_MAC_LENGTH,
+	);
+	if (!equalBytes(mac, expectedMac)) {
+		throw new Error("Media HMAC mismatch");
+	}
+
+	const plaintext = aesDecrypt(cipherKey, ciphertext, iv);
+	assertHash("fileSha256", sha256(plaintext), hashes.fileSha256);
+	return plaintext;
+};
+
+/**
+ * Streaming counterpart of `decryptMedia`. Blocks are decrypted as they
+ * arrive; the HMAC and hashes can only be checked once the download ends, so
+ * a tampered file errors the stream at the end.
+ */
+export const createMediaDecryptStream = (
+	mediaKey: Uint8Array,
+	mediaType: MediaType,
+	hashes: MediaHashes = {},
+): TransformStream<Uint8Array, Uint8Array> => {
+	const { iv, cipherKey, macKey } = getMediaKeys(mediaKey, mediaType);
+	const mac = createHmacSha256(macKey).update(iv);
+	const encHash = createSha256();
+	const plainHash = createSha256();
+	let chainIv = iv;
+	let pending: Uint8Array = new Uint8Array(0);
+
+	const decryptBlocks = (blocks: Uint8Array, final: boolean) => {
+		mac.update(blocks);
+		encHash.update(blocks);
+		const plaintext = final
+			? aesDecrypt(cipherKey, blocks, chainIv)
+			: aesDecryptBlocks(cipherKey, blocks, chainIv);
+		chainIv = blocks.slice(-AES_BLOCK_SIZE);
+		plainHash.update(plaintext);
+		return plaintext;
+	};
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			pending = concatBytes(pending, chunk);
+			// Hold back the MAC and the last block, which carries the padding.
+			const available = pending.length - MEDIA_MAC_LENGTH - AES_BLOCK_SIZE;
+			const ready = available - (available % AES_BLOCK_SIZE);
+			if (ready > 0) {
+				controller.enqueue(decryptBlocks(pending.slice(0, ready), false));
+				pending = pending.slice(ready);
+			}
+		},
+		flush(controller) {
+			const ciphertext = pending.subarray(0, -MEDIA_MAC_LENGTH);
+			const receivedMac = pending.subarray(-MEDIA_MAC_LENGTH);
+			if (
+				ciphertext.length < AES_BLOCK_SIZE ||
+				ciphertext.length % AES_BLOCK_SIZE
+			) {
+				throw new Error("Truncated media download");
+			}
+			const plaintext = decryptBlocks(ciphertext, true);
+
+			if (
+				!equalBytes(mac.digest().subarray(0, MEDIA_MAC_LENGTH), receivedMac)
+			) {
+				throw new Error("Media HMAC mismatch");
+			}
+			encHash.update(receivedMac);
+			assertHash("fileEncSha256", encHash.digest(), hashes.fileEncSha256);
+			assertHash("fileSha256", plainHash.digest(), hashes.fileSha256);
+			controller.enqueue(plaintext);
+		},
+	});
+};
@@ -0,0 +1,554 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	getBinaryNodeChild,
+	getBinaryNodeChildBuffer,
+	getBinaryNodeChildren,
+	jidDecode,
+	jidEncode,
+	S_WHATSAPP_NET,
+} from "@wha.ts/binary";
+import {
+	MediaRetryNotification_ResultType,
+	MediaRetryNotificationSchema,
+	type Message,
+	Message_AudioMessageSchema,
+	Message_DocumentMessageSchema,
+	Message_ImageMessageSchema,
+	Message_VideoMessageSchema,
+	MessageSchema,
+	ServerErrorReceiptSchema,
+} from "@wha.ts/proto";
+import type { IAuthStateProvider } from "@wha.ts/types";
+import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
+import {
+	aesDecryptGCM,
+	aesEncryptGCM,
+	bytesToBase64,
+	randomBytes,
+	utf8ToBytes,
+} from "@wha.ts/utils";
+import type { ConnectionManager } from "../core/connection";
+import {
+	DEFAULT_SOCKET_CONFIG,
+	MEDIA_PATH_MAP,
+	type MediaType,
+} from "../defaults";
+import {
+	type BuiltMessageContent,
+	buildContextInfo,
+	type MediaMessageContent,
+} from "../messaging/message-content";
+import type { WAMessageKey } from "../messaging/types";
+import { normalizeMessageContent } from "../messaging/wa-message";
+import type { ILogger } from "../transport/types";
+import {
+	createMediaDecryptStream,
+	decryptMedia,
+	encryptMedia,
+	getMediaRetryKey,
+} from "./crypto";
+
+/** The subset of `fetch` used for media transfers; inject it to stub HTTP. */
+export type MediaFetcher = (
+	input: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+export interface MediaConnHost {
+	hostname: string;
+	maxContentLengthBytes?: number;
+}
+
+export interface MediaConn {
+	auth: string;
+	/** Seconds the auth token stays valid. */
+	ttl: number;
+	hosts: MediaConnHost[];
+	fetchedAt: number;
+}
+
+export interface MediaUploadResult {
+	url: string;
+	directPath: string;
+}
+
+export interface DownloadMediaOptions {
+	/** Resolve to a `ReadableStream` that decrypts while downloading. */
+	stream?: boolean;
+	/**
+	 * Key of the message carrying the media. Required to ask the sender's
+	 * phone to re-upload media that expired on the server.
+	 */
+	key?: WAMessageKey;
+}
+
+/** A message proto, or anything wrapping one together with its key. */
+export type MediaSource = Message | { message?: Message; key?: WAMessageKey };
+
+/** Where encrypted media lives and how to verify it. */
+export interface DownloadableMedia {
+	url?: string;
+	directPath: string;
+	mediaKey: Uint8Array;
+	fileEncSha256: Uint8Array;
+	fileSha256: Uint8Array;
+}
+
+const MEDIA_HOST = "https://mmg.whatsapp.net";
+
+/** HTTP statuses media hosts answer with once a file has expired. */
+const EXPIRED_MEDIA_STATUSES = new Set([404, 410]);
+
+/**
+ * Finds the media payload of a message, looking inside the ephemeral,
+ * view once and captioned document wrappers.
+ */
+export const extractMediaContent = (
+	source: Message,
+): { mediaType: MediaType; media: DownloadableMedia } | undefined => {
+	const message = normalizeMessageContent(source);
+	if (message.imageMessage) {
+		return { mediaType: "image", media: message.imageMessage };
+	}
+	if (message.videoMessage) {
+		return { mediaType: "video", media: message.videoMessage };
+	}
+	if (message.audioMessage) {
+		return { mediaType: "audio", media: message.audioMessage };
+	}
+	if (message.documentMessage) {
+		return { mediaType: "document", media: message.documentMessage };
+	}
+	if (message.stickerMessage) {
+		return { mediaType: "sticker", media: message.stickerMessage };
+	}
+	return undefined;
+};
+
+/**
+ * Builds the `server-error` receipt that asks our phone to have the sender
+ * re-upload expired media.
+ */
+export const buildMediaRetryRequest = (
+	key: WAMessageKey,
+	mediaKey: Uint8Array,
+	meId: string,
+): BinaryNode => {
+	const me = jidDecode(meId);
+	const iv = randomBytes(12);
+	const ciphertext = aesEncryptGCM(
+		toBinary(
+			ServerErrorReceiptSchema,
+			create(ServerErrorReceiptSchema, { stanzaId: key.id }),
+		),
+		getMediaRetryKey(mediaKey),
+		iv,
+		utf8ToBytes(key.id),
+	);
+
+	const rmrAttrs: Record<string, string> = {
+		jid: key.remoteJid,
+		from_me: (!!key.fromMe).toString(),
+	};
+	if (key.participant) {
+		rmrAttrs.participant = key.participant;
+	}
+
+	return {
+		tag: "receipt",
+		attrs: {
+			id: key.id,
+			to: jidEncode(me?.user, me?.server ?? "s.whatsapp.net"),
+			type: "server-error",
+		},
+		content: [
+			{
+				tag: "encrypt",
+				attrs: {},
+				content: [
+					{ tag: "enc_p", attrs: {}, content: ciphertext },
+					{ tag: "enc_iv", attrs: {}, content: iv },
+				],
+			},
+			{ tag: "rmr", attrs: rmrAttrs },
+		],
+	};
+};
+
+/** Reads the new direct path out of a `mediaretry` notification. */
+export const decodeMediaRetryNotification = (
+	node: BinaryNode,
+	mediaKey: Uint8Array,
+): string => {
+	const errorNode = getBinaryNodeChild(node, "error");
+	if (errorNode) {
+		throw new Error(
+			`Media re-upload failed with code ${errorNode.attrs.code ?? "unknown"}`,
+		);
+	}
+
+	const encrypted = getBinaryNodeChild(node, "encrypt");
+	const ciphertext = getBinaryNodeChildBuffer(encrypted, "enc_p");
+	const iv = getBinaryNodeChildBuffer(encrypted, "enc_iv");
+	if (!ciphertext || !iv || !node.attrs.id) {
+		throw new Error("Malformed media retry notification");
+	}
+
+	const notification = fromBinary(
+		MediaRetryNotificationSchema,
+		aesDecryptGCM(
+			ciphertext,
+			getMediaRetryKey(mediaKey),
+			iv,
+			utf8ToBytes(node.attrs.id),
+		),
+	);
+	if (
+		notification.result !== MediaRetryNotification_ResultType.SUCCESS ||
+		!notification.directPath
+	) {
+		throw new Error(
+			`Media re-upload failed: ${MediaRetryNotification_ResultType[notification.result]}`,
+		);
+	}
+	return notification.directPath;
+};
+
+/** Base64url without padding, as media hosts expect hashes in URLs. */
+const toUrlSafeBase64 = (bytes: Uint8Array): string =>
+	bytesToBase64(bytes)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+
+export const parseMediaConn = (node: BinaryNode): MediaConn => {
+	const mediaConn = getBinaryNodeChild(node, "media_conn");
+	if (!mediaConn?.attrs.auth) {
+		throw new Error("media_conn response is missing the auth token");
+	}
+	return {
+		auth: mediaConn.attrs.auth,
+		ttl: Number(mediaConn.attrs.ttl ?? 0),
+		hosts: getBinaryNodeChildren(mediaConn, "host")
+			.filter((host) => !!host.attrs.hostname)
+			.map((host) => ({
+				hostname: host.attrs.hostname as string,
+				maxContentLengthBytes: host.attrs.maxContentLengthBytes
+					? Number(host.attrs.maxContentLengthBytes)
+					: undefined,
+			})),
+		fetchedAt: Date.now(),
+	};
+};
+
+const CONTENT_MEDIA_TYPE: Record<MediaMessageContent["type"], MediaType> = {
+	image: "image",
+	video: "video",
+	audio: "audio",
+	document: "document",
+};
+
+export class MediaManager {
+	private mediaConn?: MediaConn;
+
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<
+			ConnectionManager,
+			"addEventListener" | "removeEventListener" | "query" | "sendNode"
+		>,
+		private fetcher: MediaFetcher = (input, init) => fetch(input, init),
+		private mediaRetryTimeoutMs = DEFAULT_SOCKET_CONFIG.defaultQueryTimeoutMs,
+	) {}
+
+	/** Returns the media hosts and upload token, reusing them within the TTL. */
+	public async getMediaConn(forceRefresh = false): Promise<MediaConn> {
+		const cached = this.mediaConn;
+		if (
+			cached &&
+			!forceRefresh &&
+			Date.now() - cached.fetchedAt < cached.ttl * 1000
+		) {
+			return cached;
+		}
+
+		const response = await this.connectionManager.query({
+			tag: "iq",
+			attrs: { type: "set", xmlns: "w:m", to: S_WHATSAPP_NET },
+			content: [{ tag: "media_conn", attrs: {} }],
+		});
+		this.mediaConn = parseMediaConn(response);
+		this.logger.debug(
+			{ hosts: this.mediaConn.hosts.map((host) => host.hostname) },
+			"Fetched media connection",
+		);
+		return this.mediaConn;
+	}
+
+	/**
+	 * Uploads already encrypted media, trying each media host in turn until
+	 * one accepts it.
+	 */
+	public async upload(
+		encrypted: Uint8Array,
+		fileEncSha256: Uint8Array,
+		mediaType: MediaType,
+	): Promise<MediaUploadResult> {
+		const path = MEDIA_PATH_MAP[mediaType];
+		if (path === undefined) {
+			throw new Error(`Uploading ${mediaType} media is not supported`);
+		}
+
+		const { auth, hosts } = await this.getMediaConn();
+		const token = toUrlSafeBase64(fileEncSha256);
+		let lastError: unknown = new Error("No media hosts available");
+
+		for (const { hostname, maxContentLengthBytes } of hosts) {
+			if (maxContentLengthBytes && encrypted.length > maxContentLengthBytes) {
+				continue;
+			}
+			const url = `https://${hostname}${path}/${token}?auth=${encodeURIComponent(auth)}&token=${encodeURIComponent(token)}`;
+			try {
+				const response = await this.fetcher(url, {
+					method: "POST",
+					body: encrypted as BodyInit,
+					headers: {
+						"Content-Type": "application/octet-stream",
+						Origin: DEFAULT_SOCKET_CONFIG.origin,
+					},
+				});
+				if (!response.ok) {
+					throw new Error(`Media upload failed with HTTP ${response.status}`);
+				}
+				const result = (await response.json()) as {
+					url?: string;
+					direct_path?: string;
+				};
+				if (!result.url || !result.direct_path) {
+					throw new Error("Media upload response is missing url/direct_path");
+				}
+				return { url: result.url, directPath: result.direct_path };
+			} catch (err) {
+				this.logger.warn({ err, hostname }, "Media upload to host failed");
+				lastError = err;
+			}
+		}
+
+		throw lastError;
+	}
+
+	/**
+	 * Encrypts and uploads the media of `content` and returns the message
+	 * proto pointing at it, ready for the send path.
+	 */
+	public async prepareMediaMessage(
+		content: MediaMessageContent,
+		meId?: string,
+	): Promise<BuiltMessageContent> {
+		const mediaType: MediaType =
+			content.type === "audio" && content.ptt
+				? "ptt"
+				: content.type === "video" && content.gifPlayback
+					? "gif"
+					: CONTENT_MEDIA_TYPE[content.type];
+		const media = encryptMedia(content.data, mediaType);
+		const { url, directPath } = await this.upload(
+			media.encrypted,
+			media.fileEncSha256,
+			mediaType,
+		);
+
+		const common = {
+			url,
+			directPath,
+			mediaKey: media.mediaKey,
+			mediaKeyTimestamp: BigInt(Math.floor(Date.now() / 1000)),
+			fileSha256: media.fileSha256,
+			fileEncSha256: media.fileEncSha256,
+			fileLength: BigInt(media.fileLength),
+			contextInfo: buildContextInfo(content, meId),
+		};
+
+		let message: BuiltMessageContent["message"];
+		switch (content.type) {
+			case "image":
+				message = create(MessageSchema, {
+					imageMessage: create(Message_ImageMessageSchema, {
+						...common,
+						mimetype: content.mimetype ?? "image/jpeg",
+						caption: content.caption,
+						width: content.width,
+						height: content.height,
+					}),
+				});
+				break;
+			case "video":
+				message = create(MessageSchema, {
+					videoMessage: create(Message_VideoMessageSchema, {
+						...common,
+						mimetype: content.mimetype ?? "video/mp4",
+						caption: content.caption,
+						gifPlayback: content.gifPlayback,
+						seconds: content.seconds,
+					}),
+				});
+				break;
+			case "audio":
+				message = create(MessageSchema, {
+					audioMessage: create(Message_AudioMessageSchema, {
+						...common,
+						mimetype: content.mimetype ?? "audio/ogg; codecs=opus",
+						ptt: content.ptt,
+						seconds: content.seconds,
+					}),
+				});
+				break;
+			case "document":
+				message = create(MessageSchema, {
+					documentMessage: create(Message_DocumentMessageSchema, {
+						...common,
+						mimetype: content.mimetype,
+						fileName: content.fileName,
+						caption: content.caption,
+					}),
+				});
+				break;
+		}
+
+		return { message, relayOptions: { type: "media" } };
+	}
+
+	/**
+	 * Downloads, verifies and decrypts the media of a message. Media that
+	 * expired on the server is re-requested from the sender when the message
+	 * key is known; the message's `directPath` is then updated in place.
+	 */
+	public downloadMedia(
+		source: MediaSource,
+		options: DownloadMediaOptions & { stream: true },
+	): Promise<ReadableStream<Uint8Array>>;
+	public downloadMedia(
+		source: MediaSource,
+		options?: DownloadMediaOptions & { stream?: false },
+	): Promise<Uint8Array>;
+	public async downloadMedia(
+		source: MediaSource,
+		options: DownloadMediaOptions = {},
+	): Promise<Uint8Array | ReadableStream<Uint8Array>> {
+		const message = "$typeName" in source ? source : source.message;
+		const key = options.key ?? ("$typeName" in source ? undefined : source.key);
+		const extracted = message ? extractMediaContent(message) : undefined;
+		if (!extracted?.media.mediaKey.length) {
+			throw new Error("Message has no downloadable media");
+		}
+		const { mediaType, media } = extracted;
+
+		let response = await this.fetchMedia(media);
+		if (EXPIRED_MEDIA_STATUSES.has(response.status) && key) {
+			this.logger.info(
+				{ id: key.id, status: response.status },
+				"Media expired, requesting re-upload",
+			);
+			media.directPath = await this.requestMediaReupload(key, media.mediaKey);
+			media.url = "";
+			response = await this.fetchMedia(media);
+		}
+		if (!response.ok) {
+			throw new Error(`Media download failed with HTTP ${response.status}`);
+		}
+
+		const hashes = {
+			fileEncSha256: media.fileEncSha256,
+			fileSha256: media.fileSha256,
+		};
+		if (options.stream) {
+			if (!response.body) {
+				throw new Error("Media response has no body to stream");
+			}
+			return response.body.pipeThrough(
+				createMediaDecryptStream(media.mediaKey, mediaType, hashes),
+			);
+		}
+		return decryptMedia(
+			new Uint8Array(await response.arrayBuffer()),
+			media.mediaKey,
+			mediaType,
+			hashes,
+		);
+	}
+
+	/**
+	 * Downloads and decrypts a file that is referenced outside a message,
+	 * such as a history sync blob.
+	 */
+	public async downloadEncryptedFile(
+		media: DownloadableMedia,
+		mediaType: MediaType,
+	): Promise<Uint8Array> {
+		const response = await this.fetchMedia(media);
+		if (!response.ok) {
+			throw new Error(`Media download failed with HTTP ${response.status}`);
+		}
+		return decryptMedia(
+			new Uint8Array(await response.arrayBuffer()),
+			media.mediaKey,
+			mediaType,
+			{ fileEncSha256: media.fileEncSha256, fileSha256: media.fileSha256 },
+		);
+	}
+
+	private fetchMedia(media: DownloadableMedia): Promise<Response> {
+		const url = media.url?.startsWith(`${MEDIA_HOST}/`)
+			? media.url
+			: `${MEDIA_HOST}${media.directPath}`;
+		return this.fetcher(url, {
+			method: "GET",
+			headers: { Origin: DEFAULT_SOCKET_CONFIG.origin },
+		});
+	}
+
+	/** Sends a media retry request and waits for the matching notification. */
+	private async requestMediaReupload(
+		key: WAMessageKey,
+		mediaKey: Uint8Array,
+	): Promise<string> {
+		const meId = this.auth.creds.me?.id;
+		if (!meId) {
+			throw new Error("Cannot request media re-upload before pairing");
+		}
+
+		let listener: EventListener | undefined;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const notification = new Promise<BinaryNode>((resolve, reject) => {
+			listener = ((event: TypedCustomEvent<{ node: BinaryNode }>) => {
+				const { node } = event.detail;
+				if (
+					node.tag === "notification" &&
+					node.attrs.type === "mediaretry" &&
+					node.attrs.id === key.id
+				) {
+					resolve(node);
+				}
+			}) as EventListener;
+			timer = setTimeout(
+				() => reject(new Error("Timed out waiting for media re-upload")),
+				this.mediaRetryTimeoutMs,
+			);
+			this.connectionManager.addEventListener("node.received", listener);
+		});
+
+		try {
+			await this.connectionManager.sendNode(
+				buildMediaRetryRequest(key, mediaKey, meId),
+			);
+			return decodeMediaRetryNotification(await notification, mediaKey);
+		} finally {
+			clearTimeout(timer);
+			if (listener) {
+				this.connectionManager.removeEventListener("node.received", listener);
+			}
+		}
+	}
+}
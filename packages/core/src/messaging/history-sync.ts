@@ -0,0 +1,237 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	type HistorySync,
+	type HistorySync_HistorySyncType,
+	HistorySyncSchema,
+	type Message_HistorySyncNotification,
+	WebMessageInfo_Status,
+} from "@wha.ts/proto";
+import {
+	type TypedCustomEvent,
+	TypedEventTarget,
+} from "@wha.ts/types/generics/typed-event-target";
+import { unzlibSync } from "fflate";
+import type { MediaManager } from "../media/media-manager";
+import type { ILogger } from "../transport/types";
+import type { MessageProcessor } from "./message-processor";
+import type { MessageStatus, MessageStore } from "./message-store";
+import { fromWebMessageInfo, type WAMessage } from "./wa-message";
+
+export interface HistorySyncChat {
+	jid: string;
+	name?: string;
+	unreadCount: number;
+	/** Unix seconds of the last activity in the chat. */
+	conversationTimestamp?: number;
+	archived: boolean;
+	/** Pin timestamp; 0 when the chat is not pinned. */
+	pinned: number;
+	/** Unix seconds until which the chat is muted; 0 when it is not. */
+	muteEndTime: number;
+}
+
+export interface HistorySyncContact {
+	jid: string;
+	name?: string;
+}
+
+export interface HistorySyncPayload {
+	syncType: HistorySync_HistorySyncType;
+	chats: HistorySyncChat[];
+	contacts: HistorySyncContact[];
+	messages: WAMessage[];
+	/** Display names users chose for themselves, by user JID. */
+	pushNames: Record<string, string>;
+	/** Order of this chunk within the sync. */
+	chunkOrder?: number;
+	/** Overall sync progress in percent, when the phone reports it. */
+	progress?: number;
+}
+
+interface HistorySyncEventMap {
+	"history.sync": HistorySyncPayload;
+}
+
+/** `WebMessageInfo.status` values mapped onto the store's statuses. */
+const WEB_MESSAGE_STATUS: Partial<
+	Record<WebMessageInfo_Status, MessageStatus>
+> = {
+	[WebMessageInfo_Status.PENDING]: "pending",
+	[WebMessageInfo_Status.SERVER_ACK]: "server_ack",
+	[WebMessageInfo_Status.DELIVERY_ACK]: "delivered",
+	[WebMessageInfo_Status.READ]: "read",
+	[WebMessageInfo_Status.PLAYED]: "played",
+};
+
+/**
+ * Fetches the blob a `historySyncNotification` points at: inline for the
+ * first bootstrap chunk, otherwise as `md-msg-hist` media. Blobs are zlib
+ * deflated `HistorySync` protos.
+ */
+export const downloadHistorySync = async (
+	notification: Message_HistorySyncNotification,
+	mediaManager: Pick<MediaManager, "downloadEncryptedFile">,
+): Promise<HistorySync> => {
+	const compressed = notification.initialHistBootstrapInlinePayload?.length
+		? notification.initialHistBootstrapInlinePayload
+		: await mediaManager.downloadEncryptedFile(
+				{
+					directPath: notification.directPath,
+					mediaKey: notification.mediaKey,
+					fileEncSha256: notification.fileEncSha256,
+					fileSha256: notification.fileSha256,
+				},
+				"md-msg-hist",
+			);
+	return fromBinary(HistorySyncSchema, unzlibSync(compressed));
+};
+
+type StoreEntry = Parameters<MessageStore["upsertMessages"]>[0][number];
+
+/** A conversation's chat summary and the messages to store for it. */
+interface ParsedConversation {
+	chat: HistorySyncChat;
+	entries: StoreEntry[];
+}
+
+/**
+ * Parses a `HistorySync` proto once into the `history.sync` payload and,
+ * per conversation, the entries to store.
+ */
+const parseHistorySync = (historySync: HistorySync) => {
+	const chats: HistorySyncChat[] = [];
+	const conversations: ParsedConversation[] = [];
+	const contacts: HistorySyncContact[] = [];
+	const messages: WAMessage[] = [];
+
+	for (const conversation of historySync.conversations) {
+		const name = conversation.name || conversation.displayName || undefined;
+		const chat: HistorySyncChat = {
+			jid: conversation.id,
+			name,
+			unreadCount: conversation.unreadCount,
+			conversationTimestamp:
+				Number(conversation.conversationTimestamp) || undefined,
+			archived: conversation.archived,
+			pinned: conversation.pinned,
+			muteEndTime: Number(conversation.muteEndTime),
+		};
+		chats.push(chat);
+		contacts.push({ jid: conversation.id, name });
+
+		const entries: StoreEntry[] = [];
+		for (const { message: info } of conversation.messages) {
+			const message = info ? fromWebMessageInfo(info) : undefined;
+			if (!info || !message) {
+				continue;
+			}
+			messages.push(message);
+			entries.push({
+				message,
+				status:
+					WEB_MESSAGE_STATUS[info.status] ??
+					(message.key.fromMe ? "server_ack" : "delivered"),
+			});
+		}
+		conversations.push({ chat, entries });
+	}
+
+	const pushNames: Record<string, string> = {};
+	for (const { id, pushname } of historySync.pushnames) {
+		if (id && pushname) {
+			pushNames[id] = pushname;
+		}
+	}
+
+	const payload: HistorySyncPayload = {
+		syncType: historySync.syncType,
+		chats,
+		contacts,
+		messages,
+		pushNames,
+		chunkOrder: historySync.chunkOrder,
+		progress: historySync.progress,
+	};
+	return { payload, conversations };
+};
+
+/** Flattens a `HistorySync` proto into the `history.sync` payload. */
+export const processHistorySync = (
+	historySync: HistorySync,
+): HistorySyncPayload => parseHistorySync(historySync).payload;
+
+/**
+ * Turns the history sync notifications our primary device sends after
+ * pairing into `history.sync` events, and copies the messages into the
+ * message store when one is configured.
+ */
+export class HistorySyncManager extends TypedEventTarget<HistorySyncEventMap> {
+	constructor(
+		private logger: ILogger,
+		messageProcessor: Pick<MessageProcessor, "addEventListener">,
+		private mediaManager: Pick<MediaManager, "downloadEncryptedFile">,
+		private messageStore?: MessageStore,
+	) {
+		super();
+
+		messageProcessor.addEventListener("history.notification", ((
+			event: TypedCustomEvent<{
+				notification: Message_HistorySyncNotification;
+				rawNode: BinaryNode;
+			}>,
+		) => {
+			const { notification, rawNode } = event.detail;
+			this.processNotification(notification).catch((err) => {
+				this.logger.error(
+					{ err, id: rawNode.attrs.id, syncType: notification.syncType },
+					"Failed to process history sync",
+				);
+			});
+		}) as EventListener);
+	}
+
+	public async processNotification(
+		notification: Message_HistorySyncNotification,
+	): Promise<HistorySyncPayload> {
+		const historySync = await downloadHistorySync(
+			notification,
+			this.mediaManager,
+		);
+		const { payload, conversations } = parseHistorySync(historySync);
+		if (this.messageStore) {
+			await this.persist(conversations, this.messageStore);
+		}
+
+		this.logger.info(
+			{
+				syncType: payload.syncType,
+				chats: payload.chats.length,
+				messages: payload.messages.length,
+				progress: payload.progress,
+			},
+			"Processed history sync chunk",
+		);
+		this.dispatchTypedEvent("history.sync", payload);
+		return payload;
+	}
+
+	/**
+	 * Stores each conversation with one batch upsert. The unread count comes
+	 * from the conversation, as history messages rarely carry a read status.
+	 */
+	private async persist(
+		conversations: ParsedConversation[],
+		store: MessageStore,
+	) {
+		for (const { chat, entries } of conversations) {
+			await store.upsertMessages(entries, [
+				{
+					jid: chat.jid,
+					unreadCount: chat.unreadCount,
+					lastMessageTimestamp: chat.conversationTimestamp ?? 0,
+				},
+			]);
+		}
+	}
+}
@@ -0,0 +1,296 @@
+import { create } from "@bufbuild/protobuf";
+import { isJidGroup } from "@wha.ts/binary";
+import {
+	type ContextInfo,
+	ContextInfoSchema,
+	type Message,
+	Message_ContactMessageSchema,
+	Message_ContactsArrayMessageSchema,
+	Message_ExtendedTextMessageSchema,
+	Message_LocationMessageSchema,
+	Message_PollCreationMessage_OptionSchema,
+	Message_PollCreationMessageSchema,
+	Message_ProtocolMessage_Type,
+	Message_ProtocolMessageSchema,
+	Message_ReactionMessageSchema,
+	MessageContextInfoSchema,
+	MessageKeySchema,
+	MessageSchema,
+} from "@wha.ts/proto";
+import { randomBytes } from "@wha.ts/utils";
+import type { RelayMessageOptions } from "./message-sender";
+import type { WAMessageKey } from "./types";
+
+/** A message being replied to. */
+export interface QuotedMessage {
+	key: WAMessageKey;
+	message: Message;
+}
+
+/** Context shared by the content kinds that can reply or mention. */
+export interface MessageContextOptions {
+	quoted?: QuotedMessage;
+	/** User JIDs mentioned in the message. */
+	mentions?: string[];
+}
+
+export interface VCardContact {
+	displayName: string;
+	vcard: string;
+}
+
+/** Media content; the bytes are encrypted and uploaded before sending. */
+export type MediaMessageContent =
+	| ({
+			type: "image";
+			data: Uint8Array;
+			mimetype?: string;
+			caption?: string;
+			width?: number;
+			height?: number;
+	  } & MessageContextOptions)
+	| ({
+			type: "video";
+			data: Uint8Array;
+			mimetype?: string;
+			caption?: string;
+			/** Plays the video as a looping GIF. */
+			gifPlayback?: boolean;
+			seconds?: number;
+	  } & MessageContextOptions)
+	| ({
+			type: "audio";
+			data: Uint8Array;
+			mimetype?: string;
+			/** Sends the audio as a voice note. */
+			ptt?: boolean;
+			seconds?: number;
+	  } & MessageContextOptions)
+	| ({
+			type: "document";
+			data: Uint8Array;
+			mimetype: string;
+			fileName?: string;
+			caption?: string;
+	  } & MessageContextOptions);
+
+export type AnyMessageContent =
+	| MediaMessageContent
+	| ({ type: "text"; text: string } & MessageContextOptions)
+	| ({
+			type: "location";
+			latitude: number;
+			longitude: number;
+			name?: string;
+			address?: string;
+	  } & MessageContextOptions)
+	| ({
+			type: "contacts";
+			/** Shown as the title when more than one contact is shared. */
+			displayName?: string;
+			contacts: VCardContact[];
+	  } & MessageContextOptions)
+	| ({
+			type: "poll";
+			name: string;
+			options: string[];
+			/** How many options a voter may pick; 0 allows any number. */
+			selectableCount?: number;
+	  } & MessageContextOptions)
+	/** An empty `emoji` removes our earlier reaction. */
+	| { type: "reaction"; key: WAMessageKey; emoji: string }
+	| { type: "edit"; key: WAMessageKey; text: string }
+	/** Deletes the message for everyone. */
+	| { type: "delete"; key: WAMessageKey };
+
+export interface BuiltMessageContent {
+	message: Message;
+	/** Stanza attributes to relay the message with. */
+	relayOptions: Pick<RelayMessageOptions, "type" | "additionalAttributes">;
+}
+
+/** `edit` attribute values of the `<message>` stanza. */
+const EDIT_ATTR = {
+	edit: "1",
+	senderRevoke: "7",
+	adminRevoke: "8",
+} as const;
+
+const toProtoKey = (key: WAMessageKey) =>
+	create(MessageKeySchema, {
+		remoteJid: key.remoteJid,
+		fromMe: !!key.fromMe,
+		id: key.id,
+		participant: key.participant,
+	});
+
+const MEDIA_CONTENT_TYPES = new Set<AnyMessageContent["type"]>([
+	"image",
+	"video",
+	"audio",
+	"document",
+]);
+
+export const isMediaContent = (
+	content: AnyMessageContent,
+): content is MediaMessageContent => MEDIA_CONTENT_TYPES.has(content.type);
+
+export const buildContextInfo = (
+	{ quoted, mentions }: MessageContextOptions,
+	meId: string | undefined,
+): ContextInfo | undefined => {
+	if (!quoted && !mentions?.length) {
+		return undefined;
+	}
+	const contextInfo = create(ContextInfoSchema, {
+		mentionedJid: mentions ?? [],
+	});
+	if (quoted) {
+		contextInfo.stanzaId = quoted.key.id;
+		contextInfo.quotedMessage = quoted.message;
+		const participant = quoted.key.fromMe
+			? meId
+			: (quoted.key.participant ?? quoted.key.remoteJid);
+		if (participant) {
+			contextInfo.participant = participant;
+		}
+	}
+	return contextInfo;
+};
+
+/**
+ * Turns user facing content into the `Message` proto and the stanza
+ * attributes it must be relayed with. `meId` names us as the author when
+ * one of our own messages is quoted. Media content goes through
+ * `MediaManager.prepareMediaMessage` instead.
+ */
+export const buildMessageContent = (
+	content: Exclude<AnyMessageContent, MediaMessageContent>,
+	meId?: string,
+): BuiltMessageContent => {
+	switch (content.type) {
+		case "text":
+			return {
+				message: create(MessageSchema, {
+					extendedTextMessage: create(Message_ExtendedTextMessageSchema, {
+						text: content.text,
+						contextInfo: buildContextInfo(content, meId),
+					}),
+				}),
+				relayOptions: { type: "text" },
+			};
+
+		case "location":
+			return {
+				message: create(MessageSchema, {
+					locationMessage: create(Message_LocationMessageSchema, {
+						degreesLatitude: content.latitude,
+						degreesLongitude: content.longitude,
+						name: content.name,
+						address: content.address,
+						contextInfo: buildContextInfo(content, meId),
+					}),
+				}),
+				relayOptions: { type: "media" },
+			};
+
+		case "contacts": {
+			const [first, ...rest] = content.contacts;
+			if (!first) {
+				throw new Error("Contact messages need at least one contact");
+			}
+			const contextInfo = buildContextInfo(content, meId);
+			const message = rest.length
+				? create(MessageSchema, {
+						contactsArrayMessage: create(Message_ContactsArrayMessageSchema, {
+							displayName:
+								content.displayName ?? `${content.contacts.length} contacts`,
+							contacts: content.contacts.map((contact) =>
+								create(Message_ContactMessageSchema, contact),
+							),
+							contextInfo,
+						}),
+					})
+				: create(MessageSchema, {
+						contactMessage: create(Message_ContactMessageSchema, {
+							...first,
+							contextInfo,
+						}),
+					});
+			return { message, relayOptions: { type: "media" } };
+		}
+
+		case "poll":
+			if (content.options.length < 2) {
+				throw new Error("Polls need at least two options");
+			}
+			return {
+				message: create(MessageSchema, {
+					pollCreationMessage: create(Message_PollCreationMessageSchema, {
+						name: content.name,
+						options: content.options.map((optionName) =>
+							create(Message_PollCreationMessage_OptionSchema, { optionName }),
+						),
+						selectableOptionsCount: content.selectableCount ?? 0,
+						contextInfo: buildContextInfo(content, meId),
+					}),
+					// Votes are encrypted with this secret, so it must travel with
+					// the poll.
+					messageContextInfo: create(MessageContextInfoSchema, {
+						messageSecret: randomBytes(32),
+					}),
+				}),
+				relayOptions: { type: "poll" },
+			};
+
+		case "reaction":
+			return {
+				message: create(MessageSchema, {
+					reactionMessage: create(Message_ReactionMessageSchema, {
+						key: toProtoKey(content.key),
+						text: content.emoji,
+						senderTimestampMs: BigInt(Date.now()),
+					}),
+				}),
+				relayOptions: { type: "reaction" },
+			};
+
+		case "edit":
+			return {
+				message: create(MessageSchema, {
+					protocolMessage: create(Message_ProtocolMessageSchema, {
+						key: toProtoKey(content.key),
+						type: Message_ProtocolMessage_Type.MESSAGE_EDIT,
+						editedMessage: create(MessageSchema, {
+							conversation: content.text,
+						}),
+						timestampMs: BigInt(Date.now()),
+					}),
+				}),
+				relayOptions: {
+					type: "text",
+					additionalAttributes: { edit: EDIT_ATTR.edit },
+				},
+			};
+
+		case "delete":
+			return {
+				message: create(MessageSchema, {
+					protocolMessage: create(Message_ProtocolMessageSchema, {
+						key: toProtoKey(content.key),
+						type: Message_ProtocolMessage_Type.REVOKE,
+					}),
+				}),
+				relayOptions: {
+					type: "text",
+					additionalAttributes: {
+						// Only group admins can revoke someone else's message.
+						edit:
+							isJidGroup(content.key.remoteJid) && !content.key.fromMe
+								? EDIT_ATTR.adminRevoke
+								: EDIT_ATTR.senderRevoke,
+					},
+				},
+			};
+	}
+};
@@ -1,18 +1,29 @@
 import { fromBinary } from "@bufbuild/protobuf";
 import type { BinaryNode } from "@wha.ts/binary";
-import { getBinaryNodeChild, jidDecode } from "@wha.ts/binary";
-import { MessageSchema } from "@wha.ts/proto";
+import { getBinaryNodeChildren, jidDecode } from "@wha.ts/binary";
+import {
+	type Message,
+	type Message_AppStateSyncKey,
+	type Message_HistorySyncNotification,
+	MessageSchema,
+} from "@wha.ts/proto";
 import { ProtocolAddress, SessionCipher } from "@wha.ts/signal";
+import {
+	deserializeSenderKeyDistributionMessage,
+	GroupSessionBuilder,
+} from "@wha.ts/signal/groups/builder";
 import { GroupCipher } from "@wha.ts/signal/groups/cipher";
 import type { IAuthStateProvider, ISignalProtocolStore } from "@wha.ts/types";
 import { TypedEventTarget } from "@wha.ts/types/generics/typed-event-target";
 import { unpadRandomMax16 } from "@wha.ts/utils";
+import { toSenderKeyName } from "../signal/session-manager";
 import type { SignalProtocolStoreAdapter } from "../signal/signal-store";
 import type { ILogger } from "../transport/types";
+import { toWAMessage, type WAMessage } from "./wa-message";
 
-interface MessageProcessorEventMap {
+export interface MessageProcessorEventMap {
 	"message.decrypted": {
-		message: ReturnType<typeof fromBinary<typeof MessageSchema>>;
+		message: WAMessage;
 		sender: ProtocolAddress;
 		rawNode: BinaryNode;
 	};
@@ -21,8 +32,41 @@ interface MessageProcessorEventMap {
 		rawNode: BinaryNode;
 		sender?: ProtocolAddress;
 	};
+	"message.processed": MessageProcessingResult & { rawNode: BinaryNode };
+	/** Our primary device announced a history sync blob. */
+	"history.notification": {
+		notification: Message_HistorySyncNotification;
+		rawNode: BinaryNode;
+	};
+	/** Our primary device shared keys for app state patches. */
+	"app-state.key-share": {
+		keys: Message_AppStateSyncKey[];
+		rawNode: BinaryNode;
+	};
 }
 
+const SENDER_KEY_ONLY_FIELDS = new Set([
+	"$typeName",
+	"$unknown",
+	"senderKeyDistributionMessage",
+	"fastRatchetKeySenderKeyDistributionMessage",
+	"messageContextInfo",
+]);
+
+/** True when a decrypted message exists only to hand over a sender key. */
+const isOnlySenderKeyDistribution = (message: Message): boolean =>
+	(!!message.senderKeyDistributionMessage ||
+		!!message.fastRatchetKeySenderKeyDistributionMessage) &&
+	Object.entries(message).every(
+		([field, value]) =>
+			SENDER_KEY_ONLY_FIELDS.has(field) || value === undefined,
+	);
+
+export type MessageProcessingResult =
+	| { status: "decrypted" }
+	| { status: "duplicate" }
+	| { status: "failed"; error: Error };
+
 type PreDecryptCallback = (node: BinaryNode) => void | Promise<void>;
 
 export class MessageProcessor extends TypedEventTarget<MessageProcessorEventMap> {
@@ -79,9 +123,16 @@ export class MessageProcessor extends TypedEventTarget<MessageProcessorEventMap>
 		await this.authState.saveCreds();
 	}
 
-	async processIncomingNode(node: BinaryNode): Promise<void> {
+	/**
+	 * Decrypts every `<enc>` of a message stanza and reports the outcome for
+	 * the stanza as a whole, both as the return value and as a
+	 * `message.processed` event. Resolves undefined for stanzas it ignores.
+	 */
+	async processIncomingNode(
+		node: BinaryNode,
+	): Promise<MessageProcessingResult | undefined> {
 		if (node.tag !== "message") {
-			return;
+			return undefined;
 		}
 
 		const { from: chatJid, id: messageId } = node.attrs;
@@ -90,13 +141,13 @@ export class MessageProcessor extends TypedEventTarget<MessageProcessorEventMap>
 			const messageKey = `${chatJid}|${messageId}`;
 			if (this.processedMessages.has(messageKey)) {
 				this.logger.info({ key: messageKey }, "Ignoring duplicate message");
-				return;
+				return this.reportProcessed(node, { status: "duplicate" });
 			}
 		}
 
-		const encNode = getBinaryNodeChild(node, "enc");
-		if (!encNode) {
-			return;
+		const encNodes = getBinaryNodeChildren(node, "enc");
+		if (!encNodes.length) {
+			return undefined;
 		}
 
 		if (this.onPreDecrypt) {
@@ -108,117 +159,203 @@ export class MessageProcessor extends TypedEventTarget<MessageProcessorEventMap>
 		}
 
 		const { from: senderJidWithDevice, participant } = node.attrs;
-		const ciphertext = encNode?.content;
-		const type = encNode?.attrs.type;
 		const effectiveSenderJid = participant || senderJidWithDevice;
+		const decodedJid = jidDecode(effectiveSenderJid);
 
-		if (
-			!effectiveSenderJid ||
-			typeof effectiveSenderJid !== "string" ||
-			!(ciphertext instanceof Uint8Array) ||
-			ciphertext.length === 0 ||
-			!type
-		) {
+		if (!effectiveSenderJid || !decodedJid?.user) {
 			this.logger.warn(
-				{ attrs: node.attrs, content_type: typeof ciphertext, type },
+				{ attrs: node.attrs },
 				"[MessageProcessor] Received invalid encrypted node structure",
 			);
+			const error = new Error("Invalid encrypted node structure");
 			this.dispatchTypedEvent("message.decryption_error", {
-				error: new Error("Invalid encrypted node structure"),
+				error,
 				rawNode: node,
 			});
-			return;
+			return this.reportProcessed(node, { status: "failed", error });
 		}
 
-		let senderAddress: ProtocolAddress | undefined;
-		try {
-			const decodedJid = jidDecode(effectiveSenderJid);
-			if (!decodedJid || !decodedJid.user) {
-				throw new Error(`Cannot decode JID: ${effectiveSenderJid}`);
-			}
-			senderAddress = new ProtocolAddress(
-				decodedJid.user,
-				decodedJid.device ?? 0,
-			);
-
-			const cipher = new SessionCipher(this.signalStore, senderAddress);
+		const senderAddress = new ProtocolAddress(
+			decodedJid.user,
+			decodedJid.device ?? 0,
+		);
 
-			let plaintextBuffer: Uint8Array;
-			const groupJid = senderJidWithDevice;
-			const senderJid = participant;
+		// Pairwise payloads may carry the sender key the skmsg needs.
+		const orderedEncNodes = [
+			...encNodes.filter((enc) => enc.attrs.type !== "skmsg"),
+			...encNodes.filter((enc) => enc.attrs.type === "skmsg"),
+		];
 
-			if (type === "pkmsg") {
-				plaintextBuffer = await cipher.decryptPreKeyWhisperMessage(ciphertext);
-			} else if (type === "msg") {
-				plaintextBuffer = await cipher.decryptWhisperMessage(ciphertext);
-			} else if (type === "skmsg") {
-				if (!senderJid)
-					throw new Error("skmsg is missing 'participant' attribute");
+		let failure: Error | undefined;
+		for (const encNode of orderedEncNodes) {
+			try {
+				const plaintextBuffer = await this.decryptEncNode(
+					node,
+					encNode,
+					senderAddress,
+				);
 
-				const senderKeyName = `${groupJid}::${senderJid}`;
-				const groupCipher = new GroupCipher(this.genericStore, senderKeyName);
+				const isPlaintext = node.attrs.type === "plaintext";
+				const plaintext = isPlaintext
+					? plaintextBuffer
+					: unpadRandomMax16(plaintextBuffer);
 
-				const rawProtoBytes = ciphertext.slice(1, -8);
+				const message = fromBinary(MessageSchema, plaintext);
 
-				plaintextBuffer = await groupCipher.decrypt(rawProtoBytes);
-			} else {
-				this.logger.warn(
-					{ type, from: senderAddress.toString() },
-					"[MessageProcessor] Received encrypted node with unknown type",
+				await this.processSenderKeyDistribution(
+					message,
+					chatJid,
+					effectiveSenderJid,
 				);
-				this.dispatchTypedEvent("message.decryption_error", {
-					error: new Error(`Unknown encryption type: ${type}`),
-					rawNode: node,
+
+				if (isOnlySenderKeyDistribution(message)) {
+					continue;
+				}
+
+				const protocolMessage = message.protocolMessage;
+				const historySync = protocolMessage?.historySyncNotification;
+				const keyShare = protocolMessage?.appStateSyncKeyShare;
+				if (historySync || keyShare) {
+					if (!this.isFromOwnAccount(decodedJid.user)) {
+						this.logger.warn(
+							{ from: effectiveSenderJid },
+							"Ignoring sync payload from another account",
+						);
+					} else if (historySync) {
+						this.dispatchTypedEvent("history.notification", {
+							notification: historySync,
+							rawNode: node,
+						});
+					} else if (keyShare) {
+						this.dispatchTypedEvent("app-state.key-share", {
+							keys: keyShare.keys,
+							rawNode: node,
+						});
+					}
+					continue;
+				}
+
+				this.dispatchTypedEvent("message.decrypted", {
+					message: toWAMessage(node, message, this.authState.creds.me?.id),
 					sender: senderAddress,
+					rawNode: node,
 				});
-				return;
+			} catch (error) {
+				failure ??= this.dispatchDecryptionError(error, node, senderAddress);
 			}
+		}
 
-			const isPlaintext = node.attrs.type === "plaintext";
-			const plaintext = isPlaintext
-				? plaintextBuffer
-				: unpadRandomMax16(plaintextBuffer);
+		// A failed message stays unprocessed so the copy the sender re-sends
+		// after our retry receipt is not dropped as a duplicate.
+		if (messageId && chatJid && !failure) {
+			await this.markMessageAsProcessed(chatJid, messageId);
+		}
 
-			const message = fromBinary(MessageSchema, plaintext);
+		return this.reportProcessed(
+			node,
+			failure ? { status: "failed", error: failure } : { status: "decrypted" },
+		);
+	}
 
-			if (messageId && chatJid) {
-				await this.markMessageAsProcessed(chatJid, messageId);
-			}
+	private reportProcessed(
+		rawNode: BinaryNode,
+		result: MessageProcessingResult,
+	): MessageProcessingResult {
+		this.dispatchTypedEvent("message.processed", { ...result, rawNode });
+		return result;
+	}
 
-			this.dispatchTypedEvent("message.decrypted", {
-				message,
-				sender: senderAddress,
-				rawNode: node,
-			});
-		} catch (error) {
-			if (messageId && chatJid) {
-				await this.markMessageAsProcessed(chatJid, messageId);
-			}
-			if (error instanceof Error) {
-				const isKeyError = /Key used already or never filled/i.test(
-					error.message,
-				);
+	private async decryptEncNode(
+		node: BinaryNode,
+		encNode: BinaryNode,
+		senderAddress: ProtocolAddress,
+	): Promise<Uint8Array> {
+		const ciphertext = encNode.content;
+		const type = encNode.attrs.type;
 
-				if (isKeyError) {
-					this.dispatchTypedEvent("message.decryption_error", {
-						error: new Error(`Discarded: ${error.message}`),
-						rawNode: node,
-						sender: senderAddress,
-					});
-				} else {
-					this.dispatchTypedEvent("message.decryption_error", {
-						error,
-						rawNode: node,
-						sender: senderAddress,
-					});
-				}
-			} else {
-				this.dispatchTypedEvent("message.decryption_error", {
-					error: new Error(`Unknown error: ${String(error)}`),
-					rawNode: node,
-					sender: senderAddress,
-				});
-			}
+		if (!(ciphertext instanceof Uint8Array) || ciphertext.length === 0) {
+			throw new Error("Invalid encrypted node structure");
+		}
+
+		if (type === "pkmsg") {
+			const cipher = new SessionCipher(this.signalStore, senderAddress);
+			return cipher.decryptPreKeyWhisperMessage(ciphertext);
+		}
+		if (type === "msg") {
+			const cipher = new SessionCipher(this.signalStore, senderAddress);
+			return cipher.decryptWhisperMessage(ciphertext);
+		}
+		if (type === "skmsg") {
+			const { from: groupJid, participant: senderJid } = node.attrs;
+			if (!groupJid || !senderJid)
+				throw new Error("skmsg is missing 'participant' attribute");
+
+			const groupCipher = new GroupCipher(
+				this.genericStore,
+				toSenderKeyName(groupJid, senderJid),
+			);
+
+			return groupCipher.decrypt(ciphertext);
 		}
+
+		this.logger.warn(
+			{ type, from: senderAddress.toString() },
+			"[MessageProcessor] Received encrypted node with unknown type",
+		);
+		throw new Error(`Unknown encryption type: ${type}`);
+	}
+
+	/** Sync payloads are only trusted from devices of our own account. */
+	private isFromOwnAccount(senderUser: string): boolean {
+		return jidDecode(this.authState.creds.me?.id)?.user === senderUser;
+	}
+
+	/**
+	 * Stores the sender key carried by a decrypted pairwise message so later
+	 * `skmsg` payloads from the same participant can be decrypted.
+	 */
+	private async processSenderKeyDistribution(
+		message: Message,
+		chatJid: string | undefined,
+		senderJid: string,
+	): Promise<void> {
+		const distribution =
+			message.senderKeyDistributionMessage ??
+			message.fastRatchetKeySenderKeyDistributionMessage;
+		const serialized = distribution?.axolotlSenderKeyDistributionMessage;
+		const groupJid = distribution?.groupId || chatJid;
+		if (!serialized?.length || !groupJid) {
+			return;
+		}
+
+		const senderKeyName = toSenderKeyName(groupJid, senderJid);
+		await new GroupSessionBuilder(this.genericStore).process(
+			senderKeyName,
+			deserializeSenderKeyDistributionMessage(serialized),
+		);
+		this.logger.debug({ senderKeyName }, "Stored incoming sender key");
+	}
+
+	private dispatchDecryptionError(
+		error: unknown,
+		rawNode: BinaryNode,
+		sender: ProtocolAddress,
+	): Error {
+		let reported: Error;
+		if (error instanceof Error) {
+			const isKeyError = /Key used already or never filled/i.test(
+				error.message,
+			);
+			reported = isKeyError ? new Error(`Discarded: ${error.message}`) : error;
+		} else {
+			reported = new Error(`Unknown error: ${String(error)}`);
+		}
+
+		this.dispatchTypedEvent("message.decryption_error", {
+			error: reported,
+			rawNode,
+			sender,
+		});
+		return reported;
 	}
 }
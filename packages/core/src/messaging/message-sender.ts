@@ -0,0 +1,430 @@
+import { create, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { isJidGroup, jidDecode, jidEncode } from "@wha.ts/binary";
+import {
+	ADVSignedDeviceIdentitySchema,
+	type Message,
+	Message_DeviceSentMessageSchema,
+	Message_SenderKeyDistributionMessageSchema,
+	MessageSchema,
+} from "@wha.ts/proto";
+import { SessionCipher } from "@wha.ts/signal";
+import {
+	GroupSessionBuilder,
+	serializeSenderKeyDistributionMessage,
+} from "@wha.ts/signal/groups/builder";
+import { GroupCipher } from "@wha.ts/signal/groups/cipher";
+import type { AuthenticationCreds, IAuthStateProvider } from "@wha.ts/types";
+import { KeyedMutex, padRandomMax16 } from "@wha.ts/utils";
+import type { ConnectionManager } from "../core/connection";
+import { ErrorWithStatusCode, QueryError } from "../core/types";
+import { RECENT_MESSAGE_CACHE_SIZE } from "../defaults";
+import type { DeviceListManager } from "../devices";
+import type { GroupParticipantsManager } from "../groups";
+import {
+	jidToSignalAddress,
+	type SessionManager,
+	toSenderKeyName,
+} from "../signal/session-manager";
+import type { SignalProtocolStoreAdapter } from "../signal/signal-store";
+import type { ILogger } from "../transport/types";
+
+export interface SendMessageResult {
+	messageId: string;
+	ack?: BinaryNode;
+	error?: string;
+}
+
+export interface RelayMessageOptions {
+	messageId?: string;
+	/** The stanza `type` attribute; "text" unless the content says otherwise. */
+	type?: string;
+	/** Extra `<message>` attributes, such as `edit` for edits and deletes. */
+	additionalAttributes?: Record<string, string>;
+	/**
+	 * Re-encrypts the message for this device alone, as the answer to its
+	 * retry receipt. Sessions are rebuilt from a fresh pre-key bundle.
+	 */
+	participant?: string;
+}
+
+const toUserJid = (jid: string): string => {
+	const decoded = jidDecode(jid);
+	if (!decoded?.user) {
+		throw new Error(`Invalid JID: ${jid}`);
+	}
+	return jidEncode(decoded.user, decoded.server);
+};
+
+/** The `<device-identity>` node that accompanies `pkmsg` payloads. */
+export const buildDeviceIdentityNode = (
+	creds: AuthenticationCreds,
+): BinaryNode => {
+	if (!creds.account) {
+		throw new Error("Cannot send pkmsg without a paired account identity");
+	}
+	return {
+		tag: "device-identity",
+		attrs: {},
+		content: toBinary(
+			ADVSignedDeviceIdentitySchema,
+			create(ADVSignedDeviceIdentitySchema, creds.account),
+		),
+	};
+};
+
+export class MessageSender {
+	private recentMessages = new Map<
+		string,
+		{ jid: string; message: Message; options: RelayMessageOptions }
+	>();
+	/** Serialises group sends per sender key so no chain iteration is reused. */
+	private senderKeyMutex = new KeyedMutex();
+
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<
+			ConnectionManager,
+			"query" | "generateMessageTag"
+		>,
+		private signalStore: SignalProtocolStoreAdapter,
+		private sessionManager: Pick<SessionManager, "assertSessions">,
+		private deviceListManager: Pick<DeviceListManager, "getDevices">,
+		private groupParticipantsManager: Pick<
+			GroupParticipantsManager,
+			"getParticipants"
+		>,
+	) {}
+
+	/**
+	 * Encrypts a message for every device of the recipient and of our own
+	 * account and sends it as a single stanza. Our own devices receive it
+	 * wrapped in a `deviceSentMessage` so they render it as sent by us.
+	 * Group JIDs are routed through the sender key path.
+	 */
+	public async relayMessage(
+		jid: string,
+		message: Message,
+		options: RelayMessageOptions = {},
+	): Promise<SendMessageResult> {
+		const result = isJidGroup(jid)
+			? await this.relayGroupMessage(jid, message, options)
+			: await this.relayDirectMessage(jid, message, options);
+
+		if (!result.error && !options.participant) {
+			this.rememberMessage(result.messageId, jid, message, options);
+		}
+		return result;
+	}
+
+	/**
+	 * Sends a recently sent message again to the device that failed to
+	 * decrypt it. Resolves undefined when the message is no longer cached.
+	 */
+	public async resendMessage(
+		messageId: string,
+		deviceJid: string,
+	): Promise<SendMessageResult | undefined> {
+		const cached = this.recentMessages.get(messageId);
+		if (!cached) {
+			return undefined;
+		}
+		return this.relayMessage(cached.jid, cached.message, {
+			...cached.options,
+			messageId,
+			participant: deviceJid,
+		});
+	}
+
+	private rememberMessage(
+		messageId: string,
+		jid: string,
+		message: Message,
+		options: RelayMessageOptions,
+	) {
+		this.recentMessages.set(messageId, { jid, message, options });
+		if (this.recentMessages.size > RECENT_MESSAGE_CACHE_SIZE) {
+			const oldest = this.recentMessages.keys().next().value;
+			if (oldest !== undefined) {
+				this.recentMessages.delete(oldest);
+			}
+		}
+	}
+
+	private async relayDirectMessage(
+		jid: string,
+		message: Message,
+		options: RelayMessageOptions,
+	): Promise<SendMessageResult> {
+		const recipientJid = toUserJid(jid);
+		const meId = this.auth.creds.me?.id;
+		const meUser = meId ? jidDecode(meId)?.user : undefined;
+
+		const deviceJids = options.participant
+			? [options.participant]
+			: await this.deviceListManager.getDevices(
+					meId ? [recipientJid, meId] : [recipientJid],
+				);
+		await this.sessionManager.assertSessions(deviceJids, !!options.participant);
+
+		const messageBytes = padRandomMax16(toBinary(MessageSchema, message));
+		const ownDeviceMessageBytes = padRandomMax16(
+			toBinary(
+				MessageSchema,
+				create(MessageSchema, {
+					deviceSentMessage: create(Message_DeviceSentMessageSchema, {
+						destinationJid: recipientJid,
+						message,
+					}),
+				}),
+			),
+		);
+
+		const isSelfChat = meUser === jidDecode(recipientJid)?.user;
+		const { participants, includesPreKeyMessage } =
+			await this.encryptForDevices(deviceJids, (deviceJid) =>
+				!isSelfChat && !!meUser && jidDecode(deviceJid)?.user === meUser
+					? ownDeviceMessageBytes
+					: messageBytes,
+			);
+
+		if (!participants.length) {
+			throw new Error(`No active sessions found for recipient ${recipientJid}`);
+		}
+
+		const content: BinaryNode[] = [
+			{ tag: "participants", attrs: {}, content: participants },
+		];
+		if (includesPreKeyMessage) {
+			content.push(buildDeviceIdentityNode(this.auth.creds));
+		}
+
+		const messageId =
+			options.messageId ?? this.connectionManager.generateMessageTag();
+		const stanza: BinaryNode = {
+			tag: "message",
+			attrs: {
+				to: recipientJid,
+				id: messageId,
+				type: options.type ?? "text",
+				...options.additionalAttributes,
+			},
+			content,
+		};
+		if (options.participant) {
+			// Only the retrying device may see this copy.
+			stanza.attrs.to = options.participant;
+			if (jidDecode(options.participant)?.user === meUser) {
+				stanza.attrs.recipient = recipientJid;
+			} else {
+				stanza.attrs.device_fanout = "false";
+			}
+		}
+
+		this.logger.info(
+			{ to: recipientJid, messageId, devices: participants.length },
+			"Sending message",
+		);
+
+		return this.sendStanza(stanza);
+	}
+
+	/**
+	 * Encrypts once with our sender key for the group (`skmsg`) and hands the
+	 * key itself, pairwise, to every device that has not received it yet.
+	 */
+	private async relayGroupMessage(
+		groupJid: string,
+		message: Message,
+		options: RelayMessageOptions,
+	): Promise<SendMessageResult> {
+		const meId = this.auth.creds.me?.id;
+		if (!meId) {
+			throw new Error("Cannot send group messages before pairing");
+		}
+
+		const deviceJids = options.participant
+			? [options.participant]
+			: await this.deviceListManager.getDevices([
+					...(await this.groupParticipantsManager.getParticipants(groupJid)),
+					meId,
+				]);
+
+		const senderKeyName = toSenderKeyName(groupJid, meId);
+		return this.senderKeyMutex.runExclusive(senderKeyName, () =>
+			this.sendWithSenderKey(
+				groupJid,
+				senderKeyName,
+				deviceJids,
+				message,
+				options,
+			),
+		);
+	}
+
+	/**
+	 * Encrypts, sends and records who got the sender key. Callers hold the
+	 * lock for `senderKeyName`, as the key state and `sender-key-memory` are
+	 * read and written back.
+	 */
+	private async sendWithSenderKey(
+		groupJid: string,
+		senderKeyName: string,
+		deviceJids: string[],
+		message: Message,
+		options: RelayMessageOptions,
+	): Promise<SendMessageResult> {
+		const distributionMessage = await new GroupSessionBuilder(
+			this.auth.keys,
+		).create(senderKeyName);
+		const ciphertext = await new GroupCipher(
+			this.auth.keys,
+			senderKeyName,
+		).encrypt(padRandomMax16(toBinary(MessageSchema, message)));
+
+		const memoryResult = await this.auth.keys.get("sender-key-memory", [
+			groupJid,
+		]);
+		const senderKeyMemory = memoryResult[groupJid] ?? {};
+		// A retrying device may have lost our sender key, so it always gets it
+		// again.
+		const devicesWithoutKey = options.participant
+			? deviceJids
+			: deviceJids.filter((deviceJid) => !senderKeyMemory[deviceJid]);
+
+		const content: BinaryNode[] = [];
+		let distributedTo: string[] = [];
+
+		if (devicesWithoutKey.length) {
+			await this.sessionManager.assertSessions(
+				devicesWithoutKey,
+				!!options.participant,
+			);
+			const distributionBytes = padRandomMax16(
+				toBinary(
+					MessageSchema,
+					create(MessageSchema, {
+						senderKeyDistributionMessage: create(
+							Message_SenderKeyDistributionMessageSchema,
+							{
+								groupId: groupJid,
+								axolotlSenderKeyDistributionMessage:
+									serializeSenderKeyDistributionMessage(distributionMessage),
+							},
+						),
+					}),
+				),
+			);
+			const { participants, includesPreKeyMessage } =
+				await this.encryptForDevices(
+					devicesWithoutKey,
+					() => distributionBytes,
+				);
+			distributedTo = participants.map((node) => node.attrs.jid as string);
+
+			if (participants.length) {
+				content.push({ tag: "participants", attrs: {}, content: participants });
+			}
+			if (includesPreKeyMessage) {
+				content.push(buildDeviceIdentityNode(this.auth.creds));
+			}
+		}
+
+		content.push({
+			tag: "enc",
+			attrs: { v: "2", type: "skmsg" },
+			content: ciphertext,
+		});
+
+		const messageId =
+			options.messageId ?? this.connectionManager.generateMessageTag();
+		const stanza: BinaryNode = {
+			tag: "message",
+			attrs: {
+				to: groupJid,
+				id: messageId,
+				type: options.type ?? "text",
+				...options.additionalAttributes,
+			},
+			content,
+		};
+		if (options.participant) {
+			stanza.attrs.participant = options.participant;
+		}
+
+		this.logger.info(
+			{ to: groupJid, messageId, newKeyRecipients: distributedTo.length },
+			"Sending group message",
+		);
+
+		const result = await this.sendStanza(stanza);
+		if (!result.error && distributedTo.length) {
+			for (const deviceJid of distributedTo) {
+				senderKeyMemory[deviceJid] = true;
+			}
+			await this.auth.keys.set({
+				"sender-key-memory": { [groupJid]: senderKeyMemory },
+			});
+		}
+		return result;
+	}
+
+	private async encryptForDevices(
+		deviceJids: string[],
+		plaintextFor: (deviceJid: string) => Uint8Array,
+	): Promise<{ participants: BinaryNode[]; includesPreKeyMessage: boolean }> {
+		const participants: BinaryNode[] = [];
+		let includesPreKeyMessage = false;
+
+		for (const deviceJid of deviceJids) {
+			try {
+				const encrypted = await new SessionCipher(
+					this.signalStore,
+					jidToSignalAddress(deviceJid),
+				).encrypt(plaintextFor(deviceJid));
+				const type = encrypted.type === 3 ? "pkmsg" : "msg";
+				includesPreKeyMessage ||= type === "pkmsg";
+				participants.push({
+					tag: "to",
+					attrs: { jid: deviceJid },
+					content: [
+						{
+							tag: "enc",
+							attrs: { v: "2", type },
+							content: encrypted.body,
+						},
+					],
+				});
+			} catch (error) {
+				this.logger.error(
+					{ err: error, target: deviceJid },
+					"Encryption failed for device, skipping",
+				);
+			}
+		}
+
+		return { participants, includesPreKeyMessage };
+	}
+
+	private async sendStanza(stanza: BinaryNode): Promise<SendMessageResult> {
+		const messageId = stanza.attrs.id as string;
+		try {
+			const ack = await this.connectionManager.query(stanza);
+			return { messageId, ack };
+		} catch (error) {
+			if (error instanceof QueryError || error instanceof ErrorWithStatusCode) {
+				this.logger.warn(
+					{ err: error, messageId, to: stanza.attrs.to },
+					"Error while waiting for message ack, or ack contained an error.",
+				);
+				return { messageId, error: error.message };
+			}
+			this.logger.error(
+				{ err: error, messageId, to: stanza.attrs.to },
+				"Failed to send message stanza",
+			);
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,496 @@
+import { fromBinary, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild, getBinaryNodeChildren } from "@wha.ts/binary";
+import { type Message, MessageSchema } from "@wha.ts/proto";
+import type {
+	IAuthStateProvider,
+	ICollection,
+	IStorageDatabase,
+} from "@wha.ts/types";
+import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
+import { base64ToBytes, bytesToBase64, Mutex } from "@wha.ts/utils";
+import type { ConnectionManager } from "../core/connection";
+import type { ILogger } from "../transport/types";
+import type { MessageProcessor } from "./message-processor";
+import type { WAMessageKey } from "./types";
+import {
+	buildMessageKey,
+	getMessageContent,
+	normalizeMessageContent,
+	toUserJid,
+	type WAMessage,
+} from "./wa-message";
+
+/** How far a message got, in the order the states are reached. */
+export type MessageStatus =
+	| "pending"
+	| "server_ack"
+	| "delivered"
+	| "read"
+	| "played";
+
+const STATUS_ORDER: MessageStatus[] = [
+	"pending",
+	"server_ack",
+	"delivered",
+	"read",
+	"played",
+];
+
+/** Receipt types that move a message to a new status. */
+const RECEIPT_STATUS: Record<string, MessageStatus> = {
+	read: "read",
+	"read-self": "read",
+	played: "played",
+	"played-self": "played",
+};
+
+export interface StoredMessage extends WAMessage {
+	status: MessageStatus;
+}
+
+export interface StoredChat {
+	jid: string;
+	/** Timestamp of the newest stored message. */
+	lastMessageTimestamp: number;
+	/** Incoming messages not yet marked as read. */
+	unreadCount: number;
+}
+
+export interface GetMessagesOptions {
+	/** Only return messages older than this one. */
+	before?: WAMessageKey;
+	/** Defaults to 50. */
+	limit?: number;
+}
+
+interface SerializedMessage {
+	key: WAMessageKey;
+	timestamp: number;
+	pushName?: string;
+	status: MessageStatus;
+	/** Base64 `Message` proto. */
+	message: string;
+}
+
+/** Chat record plus the index buckets holding its messages. */
+interface SerializedChat extends StoredChat {
+	/** Ascending; see `bucketOf`. */
+	buckets: number[];
+}
+
+/** A chat's messages within one bucket, oldest first. */
+type IndexBucket = { id: string; timestamp: number }[];
+
+const DEFAULT_PAGE_SIZE = 50;
+const SECONDS_PER_BUCKET = 24 * 60 * 60;
+
+const bucketOf = (timestamp: number) =>
+	Math.floor(timestamp / SECONDS_PER_BUCKET);
+
+const messageStorageKey = ({ remoteJid, id }: WAMessageKey) =>
+	`${remoteJid}:${id}`;
+
+const bucketStorageKey = (jid: string, bucket: number) => `${jid}:${bucket}`;
+
+/**
+ * Keeps the messages this client sends and receives in an
+ * `IStorageDatabase`, per chat, and follows their receipts.
+ *
+ * Messages live in the `messages` collection under `<chat>:<id>` and the
+ * `chats` collection holds a small summary per chat. The order of a chat's
+ * messages is kept in `message-index`, one bucket per chat and day, so a new
+ * message only rewrites its own day and paging does not depend on
+ * `ICollection.keys` ordering.
+ */
+export class MessageStore {
+	private messages: ICollection<string>;
+	private chats: ICollection<string>;
+	private index: ICollection<string>;
+	private mutex = new Mutex();
+
+	constructor(
+		db: IStorageDatabase,
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		connectionManager: Pick<ConnectionManager, "addEventListener">,
+		messageProcessor: Pick<MessageProcessor, "addEventListener">,
+	) {
+		this.messages = db.getCollection<string>("messages");
+		this.chats = db.getCollection<string>("chats");
+		this.index = db.getCollection<string>("message-index");
+
+		messageProcessor.addEventListener("message.decrypted", ((
+			event: TypedCustomEvent<{ message: WAMessage }>,
+		) => {
+			this.upsertMessage(event.detail.message, "delivered").catch((err) => {
+				this.logger.error(
+					{ err, key: event.detail.message.key },
+					"Failed to store received message",
+				);
+			});
+		}) as EventListener);
+
+		connectionManager.addEventListener("node.received", ((
+			event: TypedCustomEvent<{ node: BinaryNode }>,
+		) => {
+			const { node } = event.detail;
+			if (node.tag !== "receipt") {
+				return;
+			}
+			this.handleReceipt(node).catch((err) => {
+				this.logger.error(
+					{ err, id: node.attrs.id, from: node.attrs.from },
+					"Failed to apply receipt to stored messages",
+				);
+			});
+		}) as EventListener);
+	}
+
+	/**
+	 * Records a message we sent; `acked` says whether the server accepted it.
+	 * A device JID is stored under its user, as the message was sent to.
+	 */
+	public async recordOutgoing(
+		jid: string,
+		messageId: string,
+		message: Message,
+		acked: boolean,
+	): Promise<void> {
+		const content = normalizeMessageContent(message);
+		await this.upsertMessage(
+			{
+				key: { remoteJid: toUserJid(jid) ?? jid, id: messageId, fromMe: true },
+				timestamp: Math.floor(Date.now() / 1000),
+				content: getMessageContent(content),
+				message: content,
+			},
+			acked ? "server_ack" : "pending",
+		);
+	}
+
+	/**
+	 * Stores a message, keeping the more advanced status when it is already
+	 * known, e.g. when a receipt overtook our own ack.
+	 */
+	public async upsertMessage(
+		message: WAMessage,
+		status: MessageStatus,
+	): Promise<void> {
+		await this.upsertMessages([{ message, status }]);
+	}
+
+	/**
+	 * Stores messages like `upsertMessage`, reading and writing each chat
+	 * record and index bucket once per batch rather than once per message.
+	 * `chats` are summaries known from elsewhere, e.g. a history sync; their
+	 * unread count replaces the one the stored messages imply.
+	 */
+	public async upsertMessages(
+		entries: { message: WAMessage; status: MessageStatus }[],
+		chats: StoredChat[] = [],
+	): Promise<void> {
+		await this.mutex.runExclusive(async () => {
+			const batch = new ChatIndexBatch(this.chats, this.index);
+			for (const { message, status } of entries) {
+				const existing = await this.readMessage(message.key);
+				const stored: StoredMessage = {
+					...message,
+					status: existing ? maxStatus(existing.status, status) : status,
+				};
+				await this.messages.set(
+					messageStorageKey(message.key),
+					serializeMessage(stored),
+				);
+
+				const jid = message.key.remoteJid;
+				if (existing) {
+					if (existing.timestamp !== message.timestamp) {
+						await batch.move(
+							jid,
+							message.key.id,
+							existing.timestamp,
+							message.timestamp,
+						);
+					}
+					continue;
+				}
+
+				const chat = await batch.chat(jid);
+				await batch.add(jid, message.key.id, message.timestamp);
+				chat.lastMessageTimestamp = Math.max(
+					chat.lastMessageTimestamp,
+					message.timestamp,
+				);
+				if (!message.key.fromMe && !isRead(stored.status)) {
+					chat.unreadCount++;
+				}
+			}
+			for (const summary of chats) {
+				const chat = await batch.chat(summary.jid);
+				chat.unreadCount = summary.unreadCount;
+				chat.lastMessageTimestamp = Math.max(
+					chat.lastMessageTimestamp,
+					summary.lastMessageTimestamp,
+				);
+			}
+			await batch.flush();
+		});
+	}
+
+	/** Moves stored messages forward to `status`; unknown keys are skipped. */
+	public async updateStatus(
+		keys: WAMessageKey[],
+		status: MessageStatus,
+	): Promise<void> {
+		await this.mutex.runExclusive(async () => {
+			const readChats = new Map<string, number>();
+			for (const key of keys) {
+				const existing = await this.readMessage(key);
+				if (
+					!existing ||
+					maxStatus(existing.status, status) === existing.status
+				) {
+					continue;
+				}
+				await this.messages.set(
+					messageStorageKey(key),
+					serializeMessage({ ...existing, status }),
+				);
+				if (
+					!existing.key.fromMe &&
+					isRead(status) &&
+					!isRead(existing.status)
+				) {
+					readChats.set(key.remoteJid, (readChats.get(key.remoteJid) ?? 0) + 1);
+				}
+			}
+
+			for (const [jid, count] of readChats) {
+				const chat = await this.readChat(jid);
+				if (chat) {
+					chat.unreadCount = Math.max(0, chat.unreadCount - count);
+					await this.chats.set(jid, JSON.stringify(chat));
+				}
+			}
+		});
+	}
+
+	public async getMessage(
+		key: WAMessageKey,
+	): Promise<StoredMessage | undefined> {
+		return this.readMessage(key);
+	}
+
+	/**
+	 * Returns a page of a chat's messages, oldest first, ending just before
+	 * `before` or at the newest message.
+	 */
+	public async getMessages(
+		chatJid: string,
+		{ before, limit = DEFAULT_PAGE_SIZE }: GetMessagesOptions = {},
+	): Promise<StoredMessage[]> {
+		const chat = await this.readChat(chatJid);
+		if (!chat) {
+			return [];
+		}
+
+		let bucketIndex = chat.buckets.length - 1;
+		let anchorId: string | undefined;
+		if (before) {
+			const anchor = await this.readMessage({
+				remoteJid: chatJid,
+				id: before.id,
+			});
+			bucketIndex = anchor
+				? chat.buckets.indexOf(bucketOf(anchor.timestamp))
+				: -1;
+			if (bucketIndex < 0) {
+				return [];
+			}
+			anchorId = before.id;
+		}
+
+		// Walks the buckets backwards until the page is full.
+		let page: IndexBucket = [];
+		for (; bucketIndex >= 0 && page.length < limit; bucketIndex--) {
+			let entries = await this.readBucket(
+				chatJid,
+				chat.buckets[bucketIndex] as number,
+			);
+			if (anchorId !== undefined) {
+				const end = entries.findIndex((entry) => entry.id === anchorId);
+				if (end < 0) {
+					return [];
+				}
+				entries = entries.slice(0, end);
+				anchorId = undefined;
+			}
+			const needed = limit - page.length;
+			page = [...entries.slice(Math.max(0, entries.length - needed)), ...page];
+		}
+
+		const messages = await Promise.all(
+			page.map(({ id }) => this.readMessage({ remoteJid: chatJid, id })),
+		);
+		return messages.filter((message) => message !== undefined);
+	}
+
+	/** All chats with stored messages, most recently active first. */
+	public async getChats(): Promise<StoredChat[]> {
+		const chats: StoredChat[] = [];
+		for (const key of await this.chats.keys()) {
+			const chat = await this.readChat(key);
+			if (chat) {
+				const { buckets: _, ...summary } = chat;
+				chats.push(summary);
+			}
+		}
+		return chats.sort(
+			(a, b) => b.lastMessageTimestamp - a.lastMessageTimestamp,
+		);
+	}
+
+	private async handleReceipt(node: BinaryNode): Promise<void> {
+		const { type } = node.attrs;
+		const status = type === undefined ? "delivered" : RECEIPT_STATUS[type];
+		if (!status) {
+			return;
+		}
+		const { remoteJid } = buildMessageKey(node, this.auth.creds.me?.id);
+		const ids = [
+			node.attrs.id,
+			...getBinaryNodeChildren(getBinaryNodeChild(node, "list"), "item").map(
+				(item) => item.attrs.id,
+			),
+		].filter((id): id is string => !!id);
+		await this.updateStatus(
+			ids.map((id) => ({ remoteJid, id })),
+			status,
+		);
+	}
+
+	private async readMessage(
+		key: WAMessageKey,
+	): Promise<StoredMessage | undefined> {
+		const raw = await this.messages.get(messageStorageKey(key));
+		return raw ? deserializeMessage(raw) : undefined;
+	}
+
+	private async readChat(jid: string): Promise<SerializedChat | undefined> {
+		const raw = await this.chats.get(jid);
+		return raw ? (JSON.parse(raw) as SerializedChat) : undefined;
+	}
+
+	private async readBucket(jid: string, bucket: number): Promise<IndexBucket> {
+		const raw = await this.index.get(bucketStorageKey(jid, bucket));
+		return raw ? (JSON.parse(raw) as IndexBucket) : [];
+	}
+}
+
+/**
+ * Chat records and index buckets touched by one batch: each is read once
+ * and written back once by `flush`.
+ */
+class ChatIndexBatch {
+	private chats = new Map<string, SerializedChat>();
+	private buckets = new Map<
+		string,
+		{ jid: string; bucket: number; entries: IndexBucket }
+	>();
+
+	constructor(
+		private chatCollection: ICollection<string>,
+		private indexCollection: ICollection<string>,
+	) {}
+
+	async chat(jid: string): Promise<SerializedChat> {
+		let chat = this.chats.get(jid);
+		if (!chat) {
+			const raw = await this.chatCollection.get(jid);
+			chat = raw
+				? (JSON.parse(raw) as SerializedChat)
+				: { jid, lastMessageTimestamp: 0, unreadCount: 0, buckets: [] };
+			this.chats.set(jid, chat);
+		}
+		return chat;
+	}
+
+	async add(jid: string, id: string, timestamp: number): Promise<void> {
+		const bucket = await this.bucket(jid, bucketOf(timestamp));
+		// After any message sharing the timestamp, keeping arrival order.
+		let position = bucket.length;
+		while (position > 0 && (bucket[position - 1]?.timestamp ?? 0) > timestamp) {
+			position--;
+		}
+		bucket.splice(position, 0, { id, timestamp });
+	}
+
+	async move(jid: string, id: string, from: number, to: number): Promise<void> {
+		const bucket = await this.bucket(jid, bucketOf(from));
+		const position = bucket.findIndex((entry) => entry.id === id);
+		if (position >= 0) {
+			bucket.splice(position, 1);
+		}
+		await this.add(jid, id, to);
+	}
+
+	async flush(): Promise<void> {
+		for (const [key, { jid, bucket, entries }] of this.buckets) {
+			if (entries.length) {
+				await this.indexCollection.set(key, JSON.stringify(entries));
+				continue;
+			}
+			await this.indexCollection.remove(key);
+			const chat = await this.chat(jid);
+			chat.buckets = chat.buckets.filter((other) => other !== bucket);
+		}
+		for (const chat of this.chats.values()) {
+			await this.chatCollection.set(chat.jid, JSON.stringify(chat));
+		}
+	}
+
+	private async bucket(jid: string, bucket: number): Promise<IndexBucket> {
+		const key = bucketStorageKey(jid, bucket);
+		const cached = this.buckets.get(key);
+		if (cached) {
+			return cached.entries;
+		}
+		const raw = await this.indexCollection.get(key);
+		const entries: IndexBucket = raw ? JSON.parse(raw) : [];
+		this.buckets.set(key, { jid, bucket, entries });
+		const chat = await this.chat(jid);
+		if (!chat.buckets.includes(bucket)) {
+			chat.buckets.push(bucket);
+			chat.buckets.sort((a, b) => a - b);
+		}
+		return entries;
+	}
+}
+
+const isRead = (status: MessageStatus) =>
+	STATUS_ORDER.indexOf(status) >= STATUS_ORDER.indexOf("read");
+
+const maxStatus = (a: MessageStatus, b: MessageStatus): MessageStatus =>
+	STATUS_ORDER.indexOf(a) >= STATUS_ORDER.indexOf(b) ? a : b;
+
+const serializeMessage = ({
+	key,
+	timestamp,
+	pushName,
+	status,
+	message,
+}: StoredMessage): string =>
+	JSON.stringify({
+		key,
+		timestamp,
+		pushName,
+		status,
+		message: bytesToBase64(toBinary(MessageSchema, message)),
+	} satisfies SerializedMessage);
+
+const deserializeMessage = (raw: string): StoredMessage => {
+	const { message: encoded, ...rest } = JSON.parse(raw) as SerializedMessage;
+	const message = fromBinary(MessageSchema, base64ToBytes(encoded));
+	return { ...rest, content: getMessageContent(message), message };
+};
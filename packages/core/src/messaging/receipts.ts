@@ -0,0 +1,195 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import { isJidGroup, jidDecode } from "@wha.ts/binary";
+import type { IAuthStateProvider } from "@wha.ts/types";
+import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
+import type { ConnectionManager } from "../core/connection";
+import type { ILogger } from "../transport/types";
+import type {
+	MessageProcessingResult,
+	MessageProcessor,
+} from "./message-processor";
+import type { WAMessageKey } from "./types";
+
+/**
+ * The receipt kinds this client sends. A receipt without a type is a plain
+ * delivery receipt.
+ */
+export type ReceiptType =
+	| "read"
+	| "read-self"
+	| "sender"
+	| "peer_msg"
+	| "inactive"
+	| "retry";
+
+export interface ReceiptOptions {
+	/** Chat JID the receipt refers to. */
+	jid: string;
+	/** Message author in group chats, or our sending device for `sender`. */
+	participant?: string;
+	messageIds: string[];
+	type?: ReceiptType;
+}
+
+export interface ReceiptManagerOptions {
+	/**
+	 * When false, `readMessages` sends `read-self` receipts, which sync the
+	 * read state to our own devices without telling the sender.
+	 */
+	sendReadReceipts?: boolean;
+}
+
+/**
+ * Builds a `<receipt>` stanza. The first id goes in the `id` attribute and
+ * any further ids in a `<list>` of `<item>` children.
+ */
+export const buildReceiptNode = ({
+	jid,
+	participant,
+	messageIds,
+	type,
+}: ReceiptOptions): BinaryNode => {
+	const [firstId, ...remainingIds] = messageIds;
+	if (!firstId) {
+		throw new Error("A receipt needs at least one message id");
+	}
+
+	const attrs: Record<string, string> = { id: firstId };
+	if (type === "read" || type === "read-self") {
+		attrs.t = Math.floor(Date.now() / 1000).toString();
+	}
+
+	if (type === "sender" && participant && !isJidGroup(jid)) {
+		// Our other device sent this 1:1 message: address that device and name
+		// the chat as recipient.
+		attrs.recipient = jid;
+		attrs.to = participant;
+	} else {
+		attrs.to = jid;
+		if (participant) {
+			attrs.participant = participant;
+		}
+	}
+
+	if (type) {
+		attrs.type = type;
+	}
+
+	const node: BinaryNode = { tag: "receipt", attrs };
+	if (remainingIds.length) {
+		node.content = [
+			{
+				tag: "list",
+				attrs: {},
+				content: remainingIds.map((id) => ({ tag: "item", attrs: { id } })),
+			},
+		];
+	}
+	return node;
+};
+
+export class ReceiptManager {
+	private sendReadReceipts: boolean;
+
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<ConnectionManager, "sendNode">,
+		messageProcessor: Pick<MessageProcessor, "addEventListener">,
+		{ sendReadReceipts = true }: ReceiptManagerOptions = {},
+	) {
+		this.sendReadReceipts = sendReadReceipts;
+
+		messageProcessor.addEventListener("message.processed", ((
+			event: TypedCustomEvent<
+				MessageProcessingResult & { rawNode: BinaryNode }
+			>,
+		) => {
+			const { status, rawNode } = event.detail;
+			// Duplicates are acknowledged again: the server redelivers exactly
+			// because it never saw our first receipt.
+			if (status === "failed") {
+				return;
+			}
+			this.sendDeliveryReceipt(rawNode).catch((err) => {
+				this.logger.warn(
+					{ err, id: rawNode.attrs.id, from: rawNode.attrs.from },
+					"Failed to send delivery receipt",
+				);
+			});
+		}) as EventListener);
+	}
+
+	/**
+	 * Marks messages as read. Keys are grouped per chat (and group author) so
+	 * each group is sent as one receipt. Our own messages are skipped.
+	 */
+	public async readMessages(keys: WAMessageKey[]): Promise<void> {
+		const type: ReceiptType = this.sendReadReceipts ? "read" : "read-self";
+		const batches = new Map<string, ReceiptOptions>();
+
+		for (const key of keys) {
+			if (key.fromMe) {
+				continue;
+			}
+			const batchKey = `${key.remoteJid}|${key.participant ?? ""}`;
+			let batch = batches.get(batchKey);
+			if (!batch) {
+				batch = {
+					jid: key.remoteJid,
+					participant: key.participant,
+					messageIds: [],
+					type,
+				};
+				batches.set(batchKey, batch);
+			}
+			batch.messageIds.push(key.id);
+		}
+
+		for (const batch of batches.values()) {
+			await this.sendReceipt(batch);
+		}
+	}
+
+	public async sendReceipt(options: ReceiptOptions): Promise<void> {
+		const node = buildReceiptNode(options);
+		this.logger.debug(
+			{
+				to: node.attrs.to,
+				type: options.type,
+				count: options.messageIds.length,
+			},
+			"Sending receipt",
+		);
+		await this.connectionManager.sendNode(node);
+	}
+
+	private async sendDeliveryReceipt(node: BinaryNode): Promise<void> {
+		const { id, from, participant, category } = node.attrs;
+		if (!id || !from) {
+			return;
+		}
+
+		const meUser = jidDecode(this.auth.creds.me?.id)?.user;
+		const authorUser = jidDecode(participant ?? from)?.user;
+
+		let type: ReceiptType | undefined;
+		if (category === "peer") {
+			type = "peer_msg";
+		} else if (meUser && authorUser === meUser) {
+			type = "sender";
+		}
+
+		if (type === "sender" && !isJidGroup(from)) {
+			await this.sendReceipt({
+				jid: node.attrs.recipient ?? from,
+				participant: from,
+				messageIds: [id],
+				type,
+			});
+			return;
+		}
+
+		await this.sendReceipt({ jid: from, participant, messageIds: [id], type });
+	}
+}
@@ -0,0 +1,174 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild, getBinaryNodeChildren } from "@wha.ts/binary";
+import type { IAuthStateProvider } from "@wha.ts/types";
+import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
+import { encodeBigEndian } from "@wha.ts/utils";
+import type { ConnectionManager } from "../core/connection";
+import { MAX_MESSAGE_RETRY_COUNT } from "../defaults";
+import type { PreKeyManager } from "../prekeys";
+import type { ILogger } from "../transport/types";
+import type {
+	MessageProcessingResult,
+	MessageProcessor,
+} from "./message-processor";
+import { buildDeviceIdentityNode, type MessageSender } from "./message-sender";
+
+/**
+ * Asks senders to re-send messages we failed to decrypt, and answers the
+ * same request from our recipients by re-encrypting from the recent-sent
+ * cache of the `MessageSender`.
+ */
+export class RetryManager {
+	private retryCounts = new Map<string, number>();
+
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: Pick<
+			ConnectionManager,
+			"addEventListener" | "sendNode"
+		>,
+		messageProcessor: Pick<MessageProcessor, "addEventListener">,
+		private messageSender: Pick<MessageSender, "resendMessage">,
+		private preKeyManager: Pick<PreKeyManager, "createKeyBundle">,
+		private maxRetries = MAX_MESSAGE_RETRY_COUNT,
+	) {
+		messageProcessor.addEventListener("message.processed", ((
+			event: TypedCustomEvent<
+				MessageProcessingResult & { rawNode: BinaryNode }
+			>,
+		) => {
+			const { status, rawNode } = event.detail;
+			const messageId = rawNode.attrs.id;
+			if (status !== "failed") {
+				if (messageId) {
+					this.retryCounts.delete(messageId);
+				}
+				return;
+			}
+			this.sendRetryReceipt(rawNode).catch((err) => {
+				this.logger.error(
+					{ err, id: messageId, from: rawNode.attrs.from },
+					"Failed to send retry receipt",
+				);
+			});
+		}) as EventListener);
+
+		this.connectionManager.addEventListener("node.received", ((
+			event: TypedCustomEvent<{ node: BinaryNode }>,
+		) => {
+			const { node } = event.detail;
+			if (node.tag === "receipt" && node.attrs.type === "retry") {
+				this.handleRetryReceipt(node).catch((err) => {
+					this.logger.error(
+						{ err, id: node.attrs.id, from: node.attrs.from },
+						"Failed to handle retry receipt",
+					);
+				});
+			}
+		}) as EventListener);
+	}
+
+	/**
+	 * Sends a `type="retry"` receipt carrying our registration id and a fresh
+	 * pre-key bundle, so the sender can start a new session and re-send.
+	 * Gives up once a message has been retried `maxRetries` times.
+	 */
+	public async sendRetryReceipt(node: BinaryNode): Promise<void> {
+		const { id, from, participant, recipient, t } = node.attrs;
+		if (!id || !from) {
+			return;
+		}
+
+		const retryCount = (this.retryCounts.get(id) ?? 0) + 1;
+		if (retryCount > this.maxRetries) {
+			this.logger.warn(
+				{ id, from, retryCount },
+				"Retry limit reached, not requesting message again",
+			);
+			this.retryCounts.delete(id);
+			return;
+		}
+		this.retryCounts.set(id, retryCount);
+
+		const { creds } = this.auth;
+		const keys = await this.preKeyManager.createKeyBundle();
+		keys.push(buildDeviceIdentityNode(creds));
+
+		const retryAttrs: Record<string, string> = {
+			count: retryCount.toString(),
+			id,
+			v: "1",
+		};
+		if (t) {
+			retryAttrs.t = t;
+		}
+
+		const receipt: BinaryNode = {
+			tag: "receipt",
+			attrs: { id, type: "retry", to: from },
+			content: [
+				{ tag: "retry", attrs: retryAttrs },
+				{
+					tag: "registration",
+					attrs: {},
+					content: encodeBigEndian(creds.registrationId),
+				},
+				{ tag: "keys", attrs: {}, content: keys },
+			],
+		};
+		if (participant) {
+			receipt.attrs.participant = participant;
+		}
+		if (recipient) {
+			receipt.attrs.recipient = recipient;
+		}
+
+		this.logger.info({ id, from, retryCount }, "Sending retry receipt");
+		await this.connectionManager.sendNode(receipt);
+	}
+
+	private async handleRetryReceipt(node: BinaryNode): Promise<void> {
+		const { id, from, participant } = node.attrs;
+		const deviceJid = participant ?? from;
+		if (!id || !deviceJid) {
+			return;
+		}
+
+		const retryCount = Number(
+			getBinaryNodeChild(node, "retry")?.attrs.count ?? 1,
+		);
+		if (retryCount > this.maxRetries) {
+			this.logger.warn(
+				{ id, deviceJid, retryCount },
+				"Ignoring retry receipt past the retry limit",
+			);
+			return;
+		}
+
+		const messageIds = [
+			id,
+			...getBinaryNodeChildren(getBinaryNodeChild(node, "list"), "item")
+				.map((item) => item.attrs.id)
+				.filter((itemId): itemId is string => !!itemId),
+		];
+
+		for (const messageId of messageIds) {
+			const result = await this.messageSender.resendMessage(
+				messageId,
+				deviceJid,
+			);
+			if (!result) {
+				this.logger.warn(
+					{ id: messageId, deviceJid },
+					"Retry requested for a message that is no longer cached",
+				);
+				continue;
+			}
+			this.logger.info(
+				{ id: messageId, deviceJid, retryCount, error: result.error },
+				"Re-sent message after retry receipt",
+			);
+		}
+	}
+}
@@ -0,0 +1,10 @@
+/** Identifies a single message within a chat. */
+export interface WAMessageKey {
+	/** The chat the message belongs to: a user or group JID. */
+	remoteJid: string;
+	id: string;
+	/** True when the message was sent by this account. */
+	fromMe?: boolean;
+	/** The author of the message in a group chat. */
+	participant?: string;
+}
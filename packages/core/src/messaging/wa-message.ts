@@ -0,0 +1,304 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import { isJidGroup, jidDecode, jidEncode } from "@wha.ts/binary";
+import {
+	type Message,
+	Message_ProtocolMessage_Type,
+	type MessageKey,
+	type WebMessageInfo,
+} from "@wha.ts/proto";
+import type { VCardContact } from "./message-content";
+import type { WAMessageKey } from "./types";
+
+/** What a received message carries, with the protobuf wrappers removed. */
+export type WAMessageContent =
+	| { type: "text"; text: string }
+	| { type: "image"; mimetype?: string; caption?: string }
+	| {
+			type: "video";
+			mimetype?: string;
+			caption?: string;
+			gifPlayback: boolean;
+			seconds?: number;
+	  }
+	| { type: "audio"; mimetype?: string; ptt: boolean; seconds?: number }
+	| {
+			type: "document";
+			mimetype?: string;
+			fileName?: string;
+			caption?: string;
+	  }
+	| { type: "sticker"; mimetype?: string }
+	| {
+			type: "location";
+			latitude: number;
+			longitude: number;
+			name?: string;
+			address?: string;
+	  }
+	| { type: "contacts"; contacts: VCardContact[] }
+	| { type: "poll"; name: string; options: string[]; selectableCount: number }
+	| { type: "reaction"; key: WAMessageKey; emoji: string }
+	| { type: "edit"; key: WAMessageKey; text?: string }
+	| { type: "delete"; key: WAMessageKey }
+	/** Content this library does not model yet; see `message`. */
+	| { type: "unknown" };
+
+export interface WAMessage {
+	key: WAMessageKey;
+	/** Unix seconds the server stamped the message with. */
+	timestamp: number;
+	/** Display name the sender chose for themselves. */
+	pushName?: string;
+	content: WAMessageContent;
+	/** The unwrapped proto the content was derived from. */
+	message: Message;
+	/** Set when the message was queued on the server while we were offline. */
+	offline?: boolean;
+}
+
+/** Wrappers whose `message` field holds the actual content. */
+const FUTURE_PROOF_WRAPPERS = [
+	"ephemeralMessage",
+	"viewOnceMessage",
+	"viewOnceMessageV2",
+	"viewOnceMessageV2Extension",
+	"documentWithCaptionMessage",
+	"editedMessage",
+] as const;
+
+const MAX_WRAPPER_DEPTH = 5;
+
+/**
+ * Strips `deviceSentMessage` and the future proof wrappers (ephemeral, view
+ * once, captioned documents, edits) off a message.
+ */
+export const normalizeMessageContent = (message: Message): Message => {
+	let current = message;
+	for (let depth = 0; depth < MAX_WRAPPER_DEPTH; depth++) {
+		const inner =
+			current.deviceSentMessage?.message ??
+			FUTURE_PROOF_WRAPPERS.map((field) => current[field]?.message).find(
+				(wrapped) => !!wrapped,
+			);
+		if (!inner) {
+			break;
+		}
+		current = inner;
+	}
+	return current;
+};
+
+/** Drops the device from a JID; the form message keys and receipts use. */
+export const toUserJid = (jid: string | undefined): string | undefined => {
+	const decoded = jidDecode(jid);
+	return decoded?.user ? jidEncode(decoded.user, decoded.server) : jid;
+};
+
+const fromProtoKey = (key: MessageKey | undefined): WAMessageKey => ({
+	remoteJid: key?.remoteJid ?? "",
+	id: key?.id ?? "",
+	fromMe: !!key?.fromMe,
+	participant: key?.participant || undefined,
+});
+
+/**
+ * Derives the message key from stanza attributes. Messages from our own
+ * user, sent by another of our devices, are `fromMe` and keyed by the chat
+ * they went to.
+ */
+export const buildMessageKey = (
+	node: BinaryNode,
+	meId: string | undefined,
+	destinationJid?: string,
+): WAMessageKey => {
+	const { from, participant, recipient, id } = node.attrs;
+	const meUser = jidDecode(meId)?.user;
+
+	if (isJidGroup(from) || participant) {
+		return {
+			remoteJid: from ?? "",
+			id: id ?? "",
+			fromMe: !!meUser && jidDecode(participant)?.user === meUser,
+			participant: toUserJid(participant),
+		};
+	}
+
+	const fromMe = !!meUser && jidDecode(from)?.user === meUser;
+	return {
+		remoteJid:
+			toUserJid(fromMe ? (recipient ?? destinationJid ?? from) : from) ?? "",
+		id: id ?? "",
+		fromMe,
+	};
+};
+
+/** Maps an unwrapped proto onto the content union. */
+export const getMessageContent = (message: Message): WAMessageContent => {
+	if (message.conversation) {
+		return { type: "text", text: message.conversation };
+	}
+	if (message.extendedTextMessage) {
+		return { type: "text", text: message.extendedTextMessage.text };
+	}
+	if (message.imageMessage) {
+		const { mimetype, caption } = message.imageMessage;
+		return {
+			type: "image",
+			mimetype: mimetype || undefined,
+			caption: caption || undefined,
+		};
+	}
+	if (message.videoMessage) {
+		const { mimetype, caption, gifPlayback, seconds } = message.videoMessage;
+		return {
+			type: "video",
+			mimetype: mimetype || undefined,
+			caption: caption || undefined,
+			gifPlayback,
+			seconds: seconds || undefined,
+		};
+	}
+	if (message.audioMessage) {
+		const { mimetype, ptt, seconds } = message.audioMessage;
+		return {
+			type: "audio",
+			mimetype: mimetype || undefined,
+			ptt,
+			seconds: seconds || undefined,
+		};
+	}
+	if (message.documentMessage) {
+		const { mimetype, fileName, caption } = message.documentMessage;
+		return {
+			type: "document",
+			mimetype: mimetype || undefined,
+			fileName: fileName || undefined,
+			caption: caption || undefined,
+		};
+	}
+	if (message.stickerMessage) {
+		return {
+			type: "sticker",
+			mimetype: message.stickerMessage.mimetype || undefined,
+		};
+	}
+	if (message.locationMessage) {
+		const { degreesLatitude, degreesLongitude, name, address } =
+			message.locationMessage;
+		return {
+			type: "location",
+			latitude: degreesLatitude,
+			longitude: degreesLongitude,
+			name: name || undefined,
+			address: address || undefined,
+		};
+	}
+	if (message.contactMessage) {
+		const { displayName, vcard } = message.contactMessage;
+		return { type: "contacts", contacts: [{ displayName, vcard }] };
+	}
+	if (message.contactsArrayMessage) {
+		return {
+			type: "contacts",
+			contacts: message.contactsArrayMessage.contacts.map(
+				({ displayName, vcard }) => ({ displayName, vcard }),
+			),
+		};
+	}
+	const poll =
+		message.pollCreationMessage ??
+		message.pollCreationMessageV2 ??
+		message.pollCreationMessageV3;
+	if (poll) {
+		return {
+			type: "poll",
+			name: poll.name,
+			options: poll.options.map((option) => option.optionName),
+			selectableCount: poll.selectableOptionsCount,
+		};
+	}
+	if (message.reactionMessage) {
+		return {
+			type: "reaction",
+			key: fromProtoKey(message.reactionMessage.key),
+			emoji: message.reactionMessage.text,
+		};
+	}
+	const protocolMessage = message.protocolMessage;
+	if (protocolMessage?.type === Message_ProtocolMessage_Type.REVOKE) {
+		return { type: "delete", key: fromProtoKey(protocolMessage.key) };
+	}
+	if (protocolMessage?.type === Message_ProtocolMessage_Type.MESSAGE_EDIT) {
+		const edited = protocolMessage.editedMessage
+			? getMessageContent(
+					normalizeMessageContent(protocolMessage.editedMessage),
+				)
+			: undefined;
+		return {
+			type: "edit",
+			key: fromProtoKey(protocolMessage.key),
+			text: edited ? getContentText(edited) : undefined,
+		};
+	}
+	return { type: "unknown" };
+};
+
+const getContentText = (content: WAMessageContent): string | undefined => {
+	switch (content.type) {
+		case "text":
+			return content.text;
+		case "image":
+		case "video":
+		case "document":
+			return content.caption;
+		case "edit":
+			return content.text;
+		default:
+			return undefined;
+	}
+};
+
+/** The text a user would read: message text, media caption or edited text. */
+export const getText = (message: WAMessage): string | undefined =>
+	getContentText(message.content);
+
+/** Builds the high level model from a message stanza and its decrypted proto. */
+export const toWAMessage = (
+	node: BinaryNode,
+	decrypted: Message,
+	meId: string | undefined,
+): WAMessage => {
+	const message = normalizeMessageContent(decrypted);
+	return {
+		key: buildMessageKey(
+			node,
+			meId,
+			decrypted.deviceSentMessage?.destinationJid || undefined,
+		),
+		timestamp: Number(node.attrs.t ?? 0),
+		pushName: node.attrs.notify || undefined,
+		content: getMessageContent(message),
+		message,
+		...(node.attrs.offline !== undefined && { offline: true }),
+	};
+};
+
+/**
+ * Builds the model from a stored `WebMessageInfo`, as found in history sync
+ * blobs. Entries without content or key resolve to undefined.
+ */
+export const fromWebMessageInfo = (
+	info: WebMessageInfo,
+): WAMessage | undefined => {
+	if (!info.message || !info.key?.id) {
+		return undefined;
+	}
+	const message = normalizeMessageContent(info.message);
+	return {
+		key: fromProtoKey(info.key),
+		timestamp: Number(info.messageTimestamp ?? 0),
+		pushName: info.pushName || undefined,
+		content: getMessageContent(message),
+		message,
+	};
+};
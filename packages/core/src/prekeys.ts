@@ -1,7 +1,6 @@
 import type { BinaryNode } from "@wha.ts/binary";
 import { getBinaryNodeChild, S_WHATSAPP_NET } from "@wha.ts/binary";
 import type { IAuthStateProvider } from "@wha.ts/types";
-import type { TypedCustomEvent } from "@wha.ts/types/generics/typed-event-target";
 import {
 	encodeBigEndian,
 	generatePreKeys,
@@ -37,12 +36,10 @@ const formatSignedPreKeyForXMPP = (
 });
 
 export class PreKeyManager {
-	private epoch = 0;
-
 	constructor(
 		private auth: IAuthStateProvider,
 		private logger: ILogger,
-		private connectionManager: ConnectionManager,
+		private connectionManager: Pick<ConnectionManager, "query">,
 	) {}
 
 	public async checkAndUploadPreKeys(): Promise<void> {
@@ -61,12 +58,40 @@ export class PreKeyManager {
 		}
 	}
 
+	/**
+	 * Generates and stores a single pre-key and returns the `type`,
+	 * `identity`, `key` and `skey` nodes a peer needs to open a new session
+	 * with us, as sent inside a retry receipt.
+	 */
+	public async createKeyBundle(): Promise<BinaryNode[]> {
+		const { creds } = this.auth;
+		const keyId = creds.nextPreKeyId;
+		const preKeys = generatePreKeys(keyId, 1);
+		const keyPair = preKeys[keyId];
+		if (!keyPair) {
+			throw new Error(`Failed to generate pre-key ${keyId}`);
+		}
+
+		await this.auth.keys.set({ "pre-key": preKeys });
+		creds.nextPreKeyId += 1;
+		await this.auth.saveCreds();
+
+		return [
+			{ tag: "type", attrs: {}, content: KEY_BUNDLE_TYPE },
+			{
+				tag: "identity",
+				attrs: {},
+				content: creds.signedIdentityKey.publicKey,
+			},
+			formatPreKeyForXMPP(keyPair, keyId),
+			formatSignedPreKeyForXMPP(creds.signedPreKey),
+		];
+	}
+
 	private async getServerPreKeyCount(): Promise<number> {
-		const msgId = this.generateTag();
 		const iq: BinaryNode = {
 			tag: "iq",
 			attrs: {
-				id: msgId,
 				type: "get",
 				xmlns: "encrypt",
 				to: S_WHATSAPP_NET,
@@ -74,8 +99,7 @@ export class PreKeyManager {
 			content: [{ tag: "count", attrs: {} }],
 		};
 
-		await this.connectionManager.sendNode(iq);
-		const response = await this.waitForRequest(msgId);
+		const response = await this.connectionManager.query(iq);
 		const countNode = getBinaryNodeChild(response, "count");
 		const count = parseInt(countNode?.attrs.value || "0", 10);
 		return count;
@@ -96,11 +120,9 @@ export class PreKeyManager {
 		);
 		const signedPreKeyNode = formatSignedPreKeyForXMPP(creds.signedPreKey);
 
-		const msgId = this.generateTag();
 		const iq: BinaryNode = {
 			tag: "iq",
 			attrs: {
-				id: msgId,
 				type: "set",
 				xmlns: "encrypt",
 				to: S_WHATSAPP_NET,
@@ -122,8 +144,7 @@ export class PreKeyManager {
 			],
 		};
 
-		await this.connectionManager.sendNode(iq);
-		await this.waitForRequest(msgId);
+		await this.connectionManager.query(iq);
 
 		await this.auth.keys.set({ "pre-key": newPreKeys });
 		creds.nextPreKeyId += newPreKeysArray.length;
@@ -133,51 +154,4 @@ export class PreKeyManager {
 			`Successfully uploaded ${newPreKeysArray.length} pre-keys. Next pre-key ID is ${creds.nextPreKeyId}.`,
 		);
 	}
-
-	private waitForRequest(
-		reqId: string,
-		timeoutMs = 15000,
-	): Promise<BinaryNode> {
-		return new Promise<BinaryNode>((resolve, reject) => {
-			const timeoutId = setTimeout(() => {
-				cleanup();
-				reject(
-					new Error(
-						`Timeout waiting for response to request ${reqId} after ${timeoutMs}ms`,
-					),
-				);
-			}, timeoutMs);
-
-			const listener = (event: TypedCustomEvent<{ node: BinaryNode }>) => {
-				const responseNode = event.detail.node;
-				if (responseNode.tag === "iq" && responseNode.attrs.id === reqId) {
-					cleanup();
-					if (responseNode.attrs.type === "error") {
-						reject(
-							new Error(`Request ${reqId} failed with an error response.`),
-						);
-					} else {
-						resolve(responseNode);
-					}
-				}
-			};
-
-			const cleanup = () => {
-				clearTimeout(timeoutId);
-				this.connectionManager.removeEventListener(
-					"node.received",
-					listener as EventListener,
-				);
-			};
-
-			this.connectionManager.addEventListener(
-				"node.received",
-				listener as EventListener,
-			);
-		});
-	}
-
-	private generateTag(): string {
-		return `${Date.now()}.${this.epoch++}`;
-	}
 }
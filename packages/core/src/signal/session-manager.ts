@@ -0,0 +1,192 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	getBinaryNodeChild,
+	getBinaryNodeChildBuffer,
+	getBinaryNodeChildren,
+	getBinaryNodeChildUInt,
+	jidDecode,
+	S_WHATSAPP_NET,
+} from "@wha.ts/binary";
+import { ProtocolAddress, SessionBuilder } from "@wha.ts/signal";
+import type { IAuthStateProvider } from "@wha.ts/types";
+import { concatBytes, KEY_BUNDLE_TYPE } from "@wha.ts/utils";
+import type { ConnectionManager } from "../core/connection";
+import type { ILogger } from "../transport/types";
+import type { SignalProtocolStoreAdapter } from "./signal-store";
+
+/** The device shape accepted by `SessionBuilder.initOutgoing`. */
+export interface PreKeyBundle {
+	registrationId: number;
+	identityKey: Uint8Array;
+	signedPreKey: {
+		keyId: number;
+		publicKey: Uint8Array;
+		signature: Uint8Array;
+	};
+	preKey?: { keyId: number; publicKey: Uint8Array };
+}
+
+const toSignalPubKey = (key: Uint8Array): Uint8Array =>
+	key.length === 33 ? key : concatBytes(KEY_BUNDLE_TYPE, key);
+
+export const jidToSignalAddress = (jid: string): ProtocolAddress => {
+	const decoded = jidDecode(jid);
+	if (!decoded?.user) {
+		throw new Error(`Invalid JID for signal address: ${jid}`);
+	}
+	return new ProtocolAddress(decoded.user, decoded.device ?? 0);
+};
+
+/** Storage key of the sender key `senderJid` uses in `groupJid`. */
+export const toSenderKeyName = (groupJid: string, senderJid: string): string =>
+	`${groupJid}::${senderJid}`;
+
+/**
+ * Reads the key bundle of one `<user>`. Returns undefined when a required
+ * field is missing and throws when one is malformed, e.g. a short id.
+ */
+const parseUserKeyBundle = (user: BinaryNode): PreKeyBundle | undefined => {
+	const registrationId = getBinaryNodeChildUInt(user, "registration", 4);
+	const identity = getBinaryNodeChildBuffer(user, "identity");
+	const skey = getBinaryNodeChild(user, "skey");
+	const skeyId = getBinaryNodeChildUInt(skey, "id", 3);
+	const skeyValue = getBinaryNodeChildBuffer(skey, "value");
+	const skeySignature = getBinaryNodeChildBuffer(skey, "signature");
+
+	if (
+		registrationId === undefined ||
+		!identity ||
+		skeyId === undefined ||
+		!skeyValue ||
+		!skeySignature
+	) {
+		return undefined;
+	}
+
+	const key = getBinaryNodeChild(user, "key");
+	const keyId = getBinaryNodeChildUInt(key, "id", 3);
+	const keyValue = getBinaryNodeChildBuffer(key, "value");
+
+	return {
+		registrationId,
+		identityKey: toSignalPubKey(identity),
+		signedPreKey: {
+			keyId: skeyId,
+			publicKey: toSignalPubKey(skeyValue),
+			signature: skeySignature,
+		},
+		preKey:
+			keyId !== undefined && keyValue
+				? { keyId, publicKey: toSignalPubKey(keyValue) }
+				: undefined,
+	};
+};
+
+/**
+ * Parses the `<list><user jid>` children of an `xmlns="encrypt"` key fetch
+ * response. Users answered with an `<error>` or with a missing or malformed
+ * bundle are skipped.
+ */
+export const parsePreKeyBundles = (
+	node: BinaryNode,
+	logger?: ILogger,
+): { jid: string; bundle: PreKeyBundle }[] => {
+	const users = getBinaryNodeChildren(getBinaryNodeChild(node, "list"), "user");
+	const bundles: { jid: string; bundle: PreKeyBundle }[] = [];
+
+	for (const user of users) {
+		const jid = user.attrs.jid;
+		const errorNode = getBinaryNodeChild(user, "error");
+		if (!jid || errorNode) {
+			logger?.warn(
+				{ jid, error: errorNode?.attrs },
+				"Key bundle unavailable for user",
+			);
+			continue;
+		}
+
+		let bundle: PreKeyBundle | undefined;
+		try {
+			bundle = parseUserKeyBundle(user);
+		} catch (err) {
+			logger?.warn({ err, jid }, "Malformed key bundle received, skipping");
+			continue;
+		}
+		if (!bundle) {
+			logger?.warn({ jid }, "Incomplete key bundle received, skipping");
+			continue;
+		}
+		bundles.push({ jid, bundle });
+	}
+
+	return bundles;
+};
+
+export class SessionManager {
+	constructor(
+		private auth: IAuthStateProvider,
+		private logger: ILogger,
+		private connectionManager: ConnectionManager,
+		private signalStore: SignalProtocolStoreAdapter,
+	) {}
+
+	/**
+	 * Makes sure an open Signal session exists for each device JID, fetching
+	 * pre-key bundles for the ones that lack one (or for all when `force`).
+	 * Returns true when any bundle was fetched.
+	 */
+	public async assertSessions(jids: string[], force = false): Promise<boolean> {
+		let jidsRequiringFetch = jids;
+
+		if (!force) {
+			const addresses = jids.map((jid) => jidToSignalAddress(jid).toString());
+			const sessions = await this.auth.keys.get("session", addresses);
+			jidsRequiringFetch = jids.filter((_, i) => {
+				const record = sessions[addresses[i] as string];
+				return !record?.haveOpenSession();
+			});
+		}
+
+		if (!jidsRequiringFetch.length) {
+			return false;
+		}
+
+		this.logger.debug(
+			{ jids: jidsRequiringFetch },
+			"Fetching pre-key bundles for sessions",
+		);
+
+		const response = await this.connectionManager.query({
+			tag: "iq",
+			attrs: {
+				xmlns: "encrypt",
+				type: "get",
+				to: S_WHATSAPP_NET,
+			},
+			content: [
+				{
+					tag: "key",
+					attrs: {},
+					content: jidsRequiringFetch.map((jid) => ({
+						tag: "user",
+						attrs: { jid },
+					})),
+				},
+			],
+		});
+
+		for (const { jid, bundle } of parsePreKeyBundles(response, this.logger)) {
+			const builder = new SessionBuilder(
+				this.signalStore,
+				jidToSignalAddress(jid),
+			);
+			try {
+				await builder.initOutgoing(bundle);
+			} catch (err) {
+				this.logger.error({ err, jid }, "Failed to create outgoing session");
+			}
+		}
+
+		return true;
+	}
+}
@@ -20,6 +20,14 @@ import {
 import { NOISE_MODE, WHATSAPP_ROOT_CA_PUBLIC_KEY } from "../defaults";
 import type { ILogger } from "./types";
 
+/**
+ * A transport carrying this key has its server's certificates checked
+ * against it instead of WhatsApp's root. Only tests running a fake server set
+ * it; it is not exported from the package, so the pinned root stays fixed for
+ * everyone else.
+ */
+export const TEST_ROOT_CA_PUBLIC_KEY = Symbol("testRootCaPublicKey");
+
 export interface NoiseState {
 	handshakeHash: Uint8Array;
 	salt: Uint8Array;
@@ -37,19 +45,24 @@ export class NoiseProcessor extends EventTarget {
 	private state: NoiseState;
 	private logger: ILogger;
 
+	private rootCaPublicKey: Uint8Array;
+
 	constructor({
 		localStaticKeyPair,
 		noisePrologue,
 		logger,
 		routingInfo,
+		rootCaPublicKey = WHATSAPP_ROOT_CA_PUBLIC_KEY,
 	}: {
 		localStaticKeyPair: KeyPair;
 		noisePrologue: Uint8Array;
 		logger: ILogger;
 		routingInfo?: Uint8Array;
+		rootCaPublicKey?: Uint8Array;
 	}) {
 		super();
 		this.logger = logger;
+		this.rootCaPublicKey = rootCaPublicKey;
 		const initialHashData = utf8ToBytes(NOISE_MODE);
 		let handshakeHash =
 			initialHashData.byteLength === 32
@@ -317,7 +330,7 @@ export class NoiseProcessor extends EventTarget {
 		// 1. Verify intermediate certificate signature with Root CA key
 		this.logger.debug("Verifying intermediate certificate against root CA...");
 		const isIntermediateCertValid = Curve.verify(
-			WHATSAPP_ROOT_CA_PUBLIC_KEY,
+			this.rootCaPublicKey,
 			intermediateCertDetailsBytes,
 			intermediateCert.signature,
 		);
@@ -22,8 +22,18 @@ export interface WebSocketConfig {
 	logger: ILogger;
 	origin?: string;
 	headers?: { [key: string]: string };
+	defaultQueryTimeoutMs?: number;
+	/** Interval between `w:p` keep-alive pings; 0 disables them. */
+	keepAliveIntervalMs?: number;
+	/** Opens the socket to the server. Defaults to the native WebSocket. */
+	transportFactory?: TransportFactory;
 }
 
+export type TransportFactory = (
+	url: URL,
+	config: WebSocketConfig,
+) => IWebSocketClient;
+
 export abstract class IWebSocketClient extends TypedEventTarget<WebSocketClientEventMap> {
 	abstract get isOpen(): boolean;
 	abstract get isClosed(): boolean;
@@ -1,4 +1,4 @@
-import { createWAClient } from "@wha.ts/core";
+import { createWAClient, getText } from "@wha.ts/core";
 import {
 	FileSystemStorageDatabase,
 	GenericAuthState,
@@ -136,23 +136,18 @@ async function runExample() {
 	});
 
 	client.addListener("message.received", async (messageData) => {
-		const messageContent = messageData.message;
+		const message = messageData.message;
 		const senderAddress = messageData.sender;
 
-		const actualMessage =
-			messageContent.deviceSentMessage?.message || messageContent;
-		const conversationText =
-			actualMessage.conversation || actualMessage.extendedTextMessage?.text;
+		if (getText(message) === "test") {
+			const chatJid = message.key.remoteJid;
 
-		if (conversationText === "test") {
-			const userJid = `${senderAddress.id}@s.whatsapp.net`;
-
-			logger.info(`Replying to ${userJid} (device ${senderAddress.deviceId})`);
+			logger.info(`Replying to ${chatJid} (device ${senderAddress.deviceId})`);
 
 			await new Promise((resolve) => setTimeout(resolve, 500));
 
 			try {
-				await client.sendTextMessage(userJid, "test-reply");
+				await client.sendTextMessage(chatJid, "test-reply");
 				logger.info("[Example] Sent reply successfully.");
 			} catch (error) {
 				logger.error("[Example] Failed to send reply:", error);
@@ -161,12 +156,11 @@ async function runExample() {
 	});
 
 	try {
+		// Resolves once logged in; QR codes arrive through connection.update.
 		await client.connect();
-		logger.info(
-			"Connection process initiated. Waiting for events (QR code or login success)...",
-		);
+		logger.info("Logged in. Waiting for messages...");
 	} catch (error) {
-		logger.error("💥 Failed to initiate connection:", error);
+		logger.error("💥 Failed to connect:", error);
 	}
 }
 
@@ -1,9 +1,44 @@
-import type { SenderKeyDistributionMessage } from "@wha.ts/proto";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import {
+	type SenderKeyDistributionMessage,
+	SenderKeyDistributionMessageSchema,
+} from "@wha.ts/proto";
 import type { ISignalProtocolStore } from "@wha.ts/types";
+import {
+	Curve,
+	concatBytes,
+	decodeBigEndian,
+	KEY_BUNDLE_TYPE,
+	randomBytes,
+} from "@wha.ts/utils";
+import { SENDER_KEY_VERSION_BYTE } from "./constants";
 import type { SenderKeyState } from "./schemas";
 
 const MAX_SENDER_KEY_STATES = 5;
 
+const generateSenderKeyId = (): number =>
+	decodeBigEndian(randomBytes(4)) & 0x7fffffff;
+
+export const serializeSenderKeyDistributionMessage = (
+	message: SenderKeyDistributionMessage,
+): Uint8Array =>
+	concatBytes(
+		new Uint8Array([SENDER_KEY_VERSION_BYTE]),
+		toBinary(SenderKeyDistributionMessageSchema, message),
+	);
+
+export const deserializeSenderKeyDistributionMessage = (
+	serialized: Uint8Array,
+): SenderKeyDistributionMessage => {
+	const version = serialized[0];
+	if (version === undefined || version >> 4 !== SENDER_KEY_VERSION_BYTE >> 4) {
+		throw new Error(
+			`Unsupported SenderKeyDistributionMessage version: ${version}`,
+		);
+	}
+	return fromBinary(SenderKeyDistributionMessageSchema, serialized.slice(1));
+};
+
 export class GroupSessionBuilder {
 	constructor(private store: ISignalProtocolStore) {}
 
@@ -33,8 +68,37 @@ export class GroupSessionBuilder {
 		}
 
 		await this.store.set({ "sender-key": { [senderKeyName]: record } });
-		console.log(
-			`[GroupBuilder] Processed and stored sender key for ${senderKeyName}`,
-		);
+	}
+
+	/**
+	 * Returns the distribution message for our own sender key under
+	 * `senderKeyName`, generating the key on first use.
+	 */
+	async create(senderKeyName: string): Promise<SenderKeyDistributionMessage> {
+		const result = await this.store.get("sender-key", [senderKeyName]);
+		const record = result[senderKeyName] ?? { senderKeyStates: [] };
+
+		let state = record.senderKeyStates[0];
+		if (!state?.senderSigningKey.private) {
+			const signingKey = Curve.generateKeyPair();
+			state = {
+				senderKeyId: generateSenderKeyId(),
+				senderChainKey: { iteration: 0, seed: randomBytes(32) },
+				senderSigningKey: {
+					public: concatBytes(KEY_BUNDLE_TYPE, signingKey.publicKey),
+					private: signingKey.privateKey,
+				},
+				senderMessageKeys: [],
+			};
+			record.senderKeyStates = [state];
+			await this.store.set({ "sender-key": { [senderKeyName]: record } });
+		}
+
+		return create(SenderKeyDistributionMessageSchema, {
+			id: state.senderKeyId,
+			iteration: state.senderChainKey.iteration,
+			chainKey: state.senderChainKey.seed,
+			signingKey: state.senderSigningKey.public,
+		});
 	}
 }
@@ -1,7 +1,18 @@
-import { fromBinary } from "@bufbuild/protobuf";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
 import { SenderKeyMessageSchema } from "@wha.ts/proto";
 import type { ISignalProtocolStore } from "@wha.ts/types";
-import { aesDecrypt, hkdf, hmacSign } from "@wha.ts/utils";
+import {
+	aesDecrypt,
+	aesEncryptWithIV,
+	Curve,
+	concatBytes,
+	hkdf,
+	hmacSign,
+} from "@wha.ts/utils";
+import {
+	SENDER_KEY_SIGNATURE_LENGTH,
+	SENDER_KEY_VERSION_BYTE,
+} from "./constants";
 import type { SenderKeyRecord, SenderKeyState } from "./schemas";
 
 const KDF_INFO = "WhisperGroup";
@@ -9,12 +20,69 @@ const MESSAGE_KEY_SEED = new Uint8Array([0x01]);
 const CHAIN_KEY_SEED = new Uint8Array([0x02]);
 const MAX_MESSAGE_KEYS = 2000;
 
+export class InvalidSenderKeySignatureError extends Error {
+	constructor(public readonly senderKeyName: string) {
+		super(`[GroupCipher] Invalid signature on message from ${senderKeyName}`);
+		this.name = "InvalidSenderKeySignatureError";
+	}
+}
+
 export class GroupCipher {
 	constructor(
 		private store: ISignalProtocolStore,
 		private senderKeyName: string,
 	) {}
 
+	/**
+	 * Encrypts with our own (newest) sender key state and returns the
+	 * serialized message: version byte, SenderKeyMessage and its signature.
+	 */
+	async encrypt(paddedPlaintext: Uint8Array): Promise<Uint8Array> {
+		const result = await this.store.get("sender-key", [this.senderKeyName]);
+		const state = result[this.senderKeyName]?.senderKeyStates[0];
+		if (!state) {
+			throw new Error(
+				`[GroupCipher] No sender key record for ${this.senderKeyName}`,
+			);
+		}
+		const signingKey = state.senderSigningKey.private;
+		if (!signingKey) {
+			throw new Error(
+				`[GroupCipher] Sender key for ${this.senderKeyName} has no private signing key`,
+			);
+		}
+
+		const senderKey = this.getSenderMessageKey(state.senderChainKey);
+		const { iv, cipherKey } = this.deriveMessageKeys(senderKey.seed);
+
+		const messageBytes = concatBytes(
+			new Uint8Array([SENDER_KEY_VERSION_BYTE]),
+			toBinary(
+				SenderKeyMessageSchema,
+				create(SenderKeyMessageSchema, {
+					id: state.senderKeyId,
+					iteration: senderKey.iteration,
+					ciphertext: aesEncryptWithIV(paddedPlaintext, cipherKey, iv),
+				}),
+			),
+		);
+		const signature = Curve.sign(signingKey, messageBytes);
+
+		this.advanceChainKey(state.senderChainKey);
+		await this.store.set({
+			"sender-key": {
+				[this.senderKeyName]: result[this.senderKeyName],
+			},
+		});
+
+		return concatBytes(messageBytes, signature);
+	}
+
+	/**
+	 * Decrypts a serialized sender key message (version byte, SenderKeyMessage
+	 * and a trailing signature). The signature is checked against the
+	 * sender's signing key before any ratchet state is touched.
+	 */
 	async decrypt(senderKeyMessageBytes: Uint8Array): Promise<Uint8Array> {
 		const result = await this.store.get("sender-key", [this.senderKeyName]);
 		const record = result[this.senderKeyName];
@@ -24,14 +92,17 @@ export class GroupCipher {
 			);
 		}
 
-		const message = fromBinary(SenderKeyMessageSchema, senderKeyMessageBytes);
+		const { message, signedBytes, signature } = this.parseMessage(
+			senderKeyMessageBytes,
+		);
 		const state = this.getSenderKeyState(record, message.id);
 		if (!state) {
 			throw new Error(`[GroupCipher] No state for key ID ${message.id}`);
 		}
 
-		// The signature is not part of the SenderKeyMessage proto.
-		// The calling context needs to handle signature verification.
+		if (!Curve.verify(state.senderSigningKey.public, signedBytes, signature)) {
+			throw new InvalidSenderKeySignatureError(this.senderKeyName);
+		}
 
 		const senderKey = this.getSenderKey(state, message.iteration);
 
@@ -51,6 +122,28 @@ export class GroupCipher {
 		return plaintext;
 	}
 
+	private parseMessage(serialized: Uint8Array) {
+		const version = serialized[0];
+		if (
+			version === undefined ||
+			version >> 4 !== SENDER_KEY_VERSION_BYTE >> 4
+		) {
+			throw new Error(
+				`[GroupCipher] Unsupported SenderKeyMessage version: ${version}`,
+			);
+		}
+		if (serialized.length <= SENDER_KEY_SIGNATURE_LENGTH + 1) {
+			throw new Error("[GroupCipher] SenderKeyMessage is too short");
+		}
+
+		const signedBytes = serialized.slice(0, -SENDER_KEY_SIGNATURE_LENGTH);
+		return {
+			message: fromBinary(SenderKeyMessageSchema, signedBytes.slice(1)),
+			signedBytes,
+			signature: serialized.slice(-SENDER_KEY_SIGNATURE_LENGTH),
+		};
+	}
+
 	private getSenderKeyState(
 		record: SenderKeyRecord,
 		keyId: number,
@@ -83,20 +176,20 @@ export class GroupCipher {
 		while (chainKey.iteration < iteration) {
 			const messageKey = this.getSenderMessageKey(chainKey);
 			state.senderMessageKeys.push(messageKey);
-
-			const nextSeed = hmacSign(chainKey.seed, CHAIN_KEY_SEED);
-			chainKey.iteration += 1;
-			chainKey.seed = nextSeed;
+			this.advanceChainKey(chainKey);
 		}
 
 		const resultKey = this.getSenderMessageKey(chainKey);
-		const nextSeed = hmacSign(chainKey.seed, CHAIN_KEY_SEED);
-		chainKey.iteration += 1;
-		chainKey.seed = nextSeed;
+		this.advanceChainKey(chainKey);
 
 		return resultKey;
 	}
 
+	private advanceChainKey(chainKey: SenderKeyState["senderChainKey"]): void {
+		chainKey.seed = hmacSign(chainKey.seed, CHAIN_KEY_SEED);
+		chainKey.iteration += 1;
+	}
+
 	private getSenderMessageKey(chainKey: SenderKeyState["senderChainKey"]) {
 		const seed = hmacSign(chainKey.seed, MESSAGE_KEY_SEED);
 		return { iteration: chainKey.iteration, seed };
@@ -0,0 +1,6 @@
+const CURRENT_VERSION = 3;
+
+/** Prefix byte of serialized sender key messages: (version << 4) | version. */
+export const SENDER_KEY_VERSION_BYTE = (CURRENT_VERSION << 4) | CURRENT_VERSION;
+
+export const SENDER_KEY_SIGNATURE_LENGTH = 64;
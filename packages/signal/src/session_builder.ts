@@ -79,11 +79,15 @@ export class SessionBuilder {
 			) {
 				throw new Error("Untrusted identity");
 			}
-			Curve.verify(
-				device.identityKey,
-				device.signedPreKey.publicKey,
-				device.signedPreKey.signature,
-			);
+			if (
+				!Curve.verify(
+					device.identityKey,
+					device.signedPreKey.publicKey,
+					device.signedPreKey.signature,
+				)
+			) {
+				throw new Error("Invalid signed pre-key signature");
+			}
 			const baseKey = Curve.generateKeyPair();
 			const devicePreKey = device.preKey?.publicKey;
 			const session = await this.initSession(
@@ -2,7 +2,7 @@ import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
 import { PreKeySignalMessageSchema, SignalMessageSchema } from "@wha.ts/proto";
 import {
 	aesDecrypt,
-	aesEncrypt,
+	aesEncryptWithIV,
 	bytesToBase64,
 	Curve,
 	concatBytes,
@@ -166,7 +166,7 @@ export class SessionCipher {
 				ratchetKey: publicKey,
 				counter: chain.chainKey.counter,
 				previousCounter: session.currentRatchet.previousCounter,
-				ciphertext: aesEncrypt(data, cipherKey, ivPrefix.slice(0, 16)),
+				ciphertext: aesEncryptWithIV(data, cipherKey, ivPrefix.slice(0, 16)),
 			});
 
 			const msgBuf = toBinary(SignalMessageSchema, msg);
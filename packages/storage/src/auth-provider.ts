@@ -6,6 +6,7 @@ import {
 	type ISignalProtocolStore,
 	type IStorageDatabase,
 } from "@wha.ts/types";
+import { base64ToBytes } from "@wha.ts/utils";
 import { initAuthCreds } from "@wha.ts/utils/generic";
 import { Mutex } from "@wha.ts/utils/mutex-utils";
 import { CREDS_KEY } from "./constants";
@@ -13,6 +14,37 @@ import { InMemoryStorageDatabase } from "./in-memory";
 import { deserialize, serialize } from "./serialization";
 import { GenericSignalKeyStore } from "./signal-store";
 
+const ACCOUNT_FIELDS = [
+	"details",
+	"accountSignatureKey",
+	"accountSignature",
+	"deviceSignature",
+] as const;
+
+/**
+ * Creds paired by older versions stored `account` in its proto JSON form:
+ * base64 strings, with empty fields left out. Decodes it back into bytes.
+ */
+function migrateLegacyCreds(data: unknown): unknown {
+	if (!data || typeof data !== "object" || !("account" in data)) {
+		return data;
+	}
+	const account = data.account;
+	if (!account || typeof account !== "object") {
+		return data;
+	}
+
+	const migrated: Record<string, unknown> = {};
+	for (const field of ACCOUNT_FIELDS) {
+		const value = (account as Record<string, unknown>)[field];
+		migrated[field] =
+			typeof value === "string"
+				? base64ToBytes(value)
+				: (value ?? new Uint8Array(0));
+	}
+	return { ...data, account: migrated };
+}
+
 export class GenericAuthState implements IAuthStateProvider {
 	public creds: AuthenticationCreds;
 	public keys: ISignalProtocolStore;
@@ -45,6 +77,7 @@ export class GenericAuthState implements IAuthStateProvider {
 			const parsedCreds = deserialize(
 				await credsCollection.get(CREDS_KEY),
 				AuthenticationCredsSchema,
+				migrateLegacyCreds,
 			);
 
 			if (parsedCreds) {
@@ -87,6 +120,11 @@ export class GenericAuthState implements IAuthStateProvider {
 				await this.db.getCollection("identity-store").clear();
 				await this.db.getCollection("signed-prekey-store").clear();
 				await this.db.getCollection("senderkey-store").clear();
+				await this.db.getCollection("device-list-store").clear();
+				await this.db.getCollection("group-participants-store").clear();
+				await this.db.getCollection("sender-key-memory-store").clear();
+				await this.db.getCollection("app-state-sync-key-store").clear();
+				await this.db.getCollection("app-state-sync-version-store").clear();
 				await this.db.getCollection("auth-creds").clear();
 
 				// Re-initialize creds and SignalKeyStore
@@ -19,6 +19,7 @@ export function serialize(data: unknown): string {
 export function deserialize<T extends ZodType>(
 	jsonString: string | null | undefined,
 	schema: T,
+	migrate?: (data: unknown) => unknown,
 ): z.infer<T> | undefined {
 	if (jsonString === null || jsonString === undefined) {
 		return undefined;
@@ -26,7 +27,7 @@ export function deserialize<T extends ZodType>(
 
 	try {
 		const data = JSON.parse(jsonString);
-		return schema.parse(data);
+		return schema.parse(migrate ? migrate(data) : data);
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
 		console.error(
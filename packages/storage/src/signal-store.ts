@@ -15,6 +15,11 @@ export class GenericSignalKeyStore implements ISignalProtocolStore {
 	private identityStore: ICollection<string>;
 	private signedPreKeyStore: ICollection<string>;
 	private senderKeyStore: ICollection<string>;
+	private deviceListStore: ICollection<string>;
+	private groupParticipantsStore: ICollection<string>;
+	private senderKeyMemoryStore: ICollection<string>;
+	private appStateSyncKeyStore: ICollection<string>;
+	private appStateSyncVersionStore: ICollection<string>;
 
 	constructor(
 		db: IStorageDatabase,
@@ -25,6 +30,19 @@ export class GenericSignalKeyStore implements ISignalProtocolStore {
 		this.identityStore = db.getCollection<string>("identity-store");
 		this.signedPreKeyStore = db.getCollection<string>("signed-prekey-store");
 		this.senderKeyStore = db.getCollection<string>("senderkey-store");
+		this.deviceListStore = db.getCollection<string>("device-list-store");
+		this.groupParticipantsStore = db.getCollection<string>(
+			"group-participants-store",
+		);
+		this.senderKeyMemoryStore = db.getCollection<string>(
+			"sender-key-memory-store",
+		);
+		this.appStateSyncKeyStore = db.getCollection<string>(
+			"app-state-sync-key-store",
+		);
+		this.appStateSyncVersionStore = db.getCollection<string>(
+			"app-state-sync-version-store",
+		);
 	}
 
 	private getCollectionForType<T extends keyof SignalDataTypeMap>(
@@ -42,6 +60,16 @@ export class GenericSignalKeyStore implements ISignalProtocolStore {
 				return this.signedPreKeyStore;
 			case "sender-key":
 				return this.senderKeyStore;
+			case "device-list":
+				return this.deviceListStore;
+			case "group-participants":
+				return this.groupParticipantsStore;
+			case "sender-key-memory":
+				return this.senderKeyMemoryStore;
+			case "app-state-sync-key":
+				return this.appStateSyncKeyStore;
+			case "app-state-sync-version":
+				return this.appStateSyncVersionStore;
 			default:
 				throw new Error(`Unknown SignalDataTypeMap type: ${String(type)}`);
 		}
@@ -66,7 +66,8 @@ test(
 		let qrCode: string | null = null;
 		try {
 			console.log("[E2E Test] Initiating connection...");
-			await client.connect();
+			// Resolves only once logged in; failures reject qrCodePromise too.
+			client.connect().catch(() => {});
 			console.log(
 				"[E2E Test] Connection initiated. Waiting for QR code or login...",
 			);
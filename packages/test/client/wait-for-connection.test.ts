@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import {
+	AuthState,
+	ConnectionError,
+	type ConnectionState,
+	createWAClient,
+	DisconnectReason,
+	ErrorWithStatusCode,
+} from "@wha.ts/core";
+import type { ConnectionUpdatePayload } from "@wha.ts/core/core/authenticator-events";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { silentLogger } from "../fakes";
+
+type ClientInternals = {
+	connectionManager: {
+		setState(state: ConnectionState, error?: Error): void;
+		reconnect(): Promise<void>;
+	};
+	authenticator: {
+		dispatchTypedEvent(
+			type: "connection.update",
+			detail: ConnectionUpdatePayload,
+		): void;
+	};
+};
+
+const closeError = (statusCode: DisconnectReason) => {
+	const error = new ErrorWithStatusCode(`closed with ${statusCode}`);
+	error.statusCode = statusCode;
+	return error;
+};
+
+async function createClient() {
+	const client = createWAClient({
+		auth: await GenericAuthState.init(new InMemoryStorageDatabase()),
+		logger: silentLogger,
+		wsOptions: { url: new URL("ws://localhost"), keepAliveIntervalMs: 0 },
+	});
+	return { client, internals: client as unknown as ClientInternals };
+}
+
+describe("waitForConnection", () => {
+	test("resolves once the connection opens", async () => {
+		const { client, internals } = await createClient();
+		expect(client.state).toEqual({
+			connection: "closed",
+			auth: AuthState.IDLE,
+		});
+
+		const ready = client.waitForConnection();
+		internals.connectionManager.setState("authenticating");
+		internals.connectionManager.setState("open");
+
+		await ready;
+		expect(client.state.connection).toBe("open");
+		await client.waitForConnection();
+	});
+
+	test("keeps waiting through the restart after pairing", async () => {
+		const { client, internals } = await createClient();
+		internals.connectionManager.reconnect = async () => {
+			internals.authenticator.dispatchTypedEvent("connection.update", {
+				connection: "close",
+				error: closeError(DisconnectReason.restartRequired),
+				statusCode: DisconnectReason.restartRequired,
+			});
+			internals.connectionManager.setState("open");
+		};
+
+		const ready = client.waitForConnection({ timeoutMs: 1_000 });
+		internals.authenticator.dispatchTypedEvent("connection.update", {
+			isNewLogin: true,
+		});
+
+		await ready;
+	});
+
+	test("rejects a restart the server asks for outside of pairing", async () => {
+		const { client, internals } = await createClient();
+
+		const ready = client.waitForConnection();
+		internals.authenticator.dispatchTypedEvent("connection.update", {
+			connection: "close",
+			error: closeError(DisconnectReason.restartRequired),
+			statusCode: DisconnectReason.restartRequired,
+		});
+
+		await expect(ready).rejects.toMatchObject({
+			reason: "closed",
+			statusCode: DisconnectReason.restartRequired,
+		});
+	});
+
+	test("rejects with the status code when the login fails", async () => {
+		const { client, internals } = await createClient();
+
+		const ready = client.waitForConnection();
+		internals.authenticator.dispatchTypedEvent("connection.update", {
+			connection: "close",
+			error: closeError(DisconnectReason.loggedOut),
+			statusCode: DisconnectReason.loggedOut,
+		});
+
+		const error = await ready.catch((err) => err);
+		expect(error).toBeInstanceOf(ConnectionError);
+		expect(error).toMatchObject({
+			reason: "closed",
+			statusCode: DisconnectReason.loggedOut,
+		});
+	});
+
+	test("rejects on timeout and abort", async () => {
+		const { client } = await createClient();
+
+		await expect(client.waitForConnection({ timeoutMs: 10 })).rejects.toThrow(
+			ConnectionError,
+		);
+
+		const controller = new AbortController();
+		const ready = client.waitForConnection({ signal: controller.signal });
+		controller.abort();
+		await expect(ready).rejects.toMatchObject({ reason: "aborted" });
+	});
+});
@@ -0,0 +1,304 @@
+import { describe, expect, test } from "bun:test";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { AppStateManager } from "@wha.ts/core/app-state/app-state-manager";
+import { chatModificationToPatch } from "@wha.ts/core/app-state/chat-modification";
+import { ltHashSubtractThenAdd } from "@wha.ts/core/app-state/lt-hash";
+import type { AppStateMutation } from "@wha.ts/core/app-state/mutations";
+import {
+	decodeSyncdPatch,
+	encodeSyncdPatch,
+	expandAppStateSyncKey,
+	newAppStateVersion,
+} from "@wha.ts/core/app-state/syncd";
+import { MediaManager } from "@wha.ts/core/media/media-manager";
+import {
+	Message_AppStateSyncKeyDataSchema,
+	Message_AppStateSyncKeyIdSchema,
+	Message_AppStateSyncKeySchema,
+	SyncActionValue_ArchiveChatActionSchema,
+	SyncActionValue_MuteActionSchema,
+	SyncActionValueSchema,
+	SyncdMutation_SyncdOperation,
+	type SyncdPatch,
+	SyncdPatchSchema,
+} from "@wha.ts/proto";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { bytesToBase64, randomBytes } from "@wha.ts/utils";
+import { FakeConnection, FakeProcessor, silentLogger } from "../fakes";
+
+const CHAT = "222@s.whatsapp.net";
+const KEY_ID = new Uint8Array([0, 0, 0, 1]);
+
+const syncResponse = (patches: SyncdPatch[]): BinaryNode[] => [
+	{
+		tag: "sync",
+		attrs: {},
+		content: [
+			{
+				tag: "collection",
+				attrs: { name: "regular_high", version: String(patches.length) },
+				content: [
+					{
+						tag: "patches",
+						attrs: {},
+						content: patches.map((patch) => ({
+							tag: "patch",
+							attrs: {},
+							content: toBinary(SyncdPatchSchema, patch),
+						})),
+					},
+				],
+			},
+		],
+	},
+];
+
+const keyShare = (keyData: Uint8Array) => [
+	create(Message_AppStateSyncKeySchema, {
+		keyId: create(Message_AppStateSyncKeyIdSchema, { keyId: KEY_ID }),
+		keyData: create(Message_AppStateSyncKeyDataSchema, {
+			keyData,
+			timestamp: 1n,
+		}),
+	}),
+];
+
+/** A mute followed by an archive of CHAT, as our primary device would send. */
+const buildPatches = (keyData: Uint8Array) => {
+	const keys = expandAppStateSyncKey(keyData);
+	const mute = encodeSyncdPatch(
+		"regular_high",
+		{
+			operation: SyncdMutation_SyncdOperation.SET,
+			index: ["mute", CHAT],
+			value: create(SyncActionValueSchema, {
+				timestamp: 1000n,
+				muteAction: create(SyncActionValue_MuteActionSchema, {
+					muted: true,
+					muteEndTimestamp: 5000n,
+				}),
+			}),
+			version: 2,
+		},
+		newAppStateVersion(),
+		KEY_ID,
+		keys,
+	);
+	const archive = encodeSyncdPatch(
+		"regular_high",
+		{
+			operation: SyncdMutation_SyncdOperation.SET,
+			index: ["archive", CHAT],
+			value: create(SyncActionValueSchema, {
+				timestamp: 2000n,
+				archiveChatAction: create(SyncActionValue_ArchiveChatActionSchema, {
+					archived: true,
+				}),
+			}),
+			version: 3,
+		},
+		mute.state,
+		KEY_ID,
+		keys,
+	);
+	return { patches: [mute.patch, archive.patch], state: archive.state };
+};
+
+async function createManager(respond: () => BinaryNode[]) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const connection = new FakeConnection(() => ({
+		tag: "iq",
+		attrs: { type: "result" },
+		content: respond(),
+	}));
+	const manager = new AppStateManager(
+		auth,
+		silentLogger,
+		connection,
+		new FakeProcessor(),
+		new MediaManager(auth, silentLogger, connection),
+	);
+	const mutations: AppStateMutation[] = [];
+	manager.addEventListener("app-state.mutation", (event) => {
+		mutations.push(event.detail);
+	});
+	return { auth, connection, manager, mutations };
+}
+
+describe("ltHashSubtractThenAdd", () => {
+	test("only depends on the final set of values", () => {
+		const [a, b] = [randomBytes(32), randomBytes(32)];
+		const empty = newAppStateVersion().hash;
+
+		const ab = ltHashSubtractThenAdd(empty, [a, b], []);
+		expect(ltHashSubtractThenAdd(empty, [b, a], [])).toEqual(ab);
+		expect(ltHashSubtractThenAdd(ab, [], [b])).toEqual(
+			ltHashSubtractThenAdd(empty, [a], []),
+		);
+		expect(ltHashSubtractThenAdd(ab, [], [a, b])).toEqual(empty);
+	});
+});
+
+describe("AppStateManager", () => {
+	test("syncs all collections after the first key share", async () => {
+		const keyData = randomBytes(32);
+		const { patches, state } = buildPatches(keyData);
+		const { auth, connection, manager, mutations } = await createManager(() =>
+			syncResponse(patches),
+		);
+
+		await manager.storeKeyShare(keyShare(keyData));
+
+		expect(auth.creds.myAppStateKeyId).toBe(bytesToBase64(KEY_ID));
+		const [query] = connection.queries;
+		const sync = (query?.content as BinaryNode[])[0];
+		expect((sync?.content as BinaryNode[]).map((c) => c.attrs)).toContainEqual({
+			name: "regular_high",
+			version: "0",
+			return_snapshot: "true",
+		});
+
+		expect(
+			mutations.map(({ type, operation, collection, timestamp }) => ({
+				type,
+				operation,
+				collection,
+				timestamp,
+			})),
+		).toEqual([
+			{
+				type: "mute",
+				operation: "set",
+				collection: "regular_high",
+				timestamp: 1000,
+			},
+			{
+				type: "archive",
+				operation: "set",
+				collection: "regular_high",
+				timestamp: 2000,
+			},
+		]);
+		expect(mutations[0]).toMatchObject({ jid: CHAT, muteEndTime: 5000 });
+		expect(mutations[1]).toMatchObject({ jid: CHAT, archived: true });
+
+		const { regular_high: stored } = await auth.keys.get(
+			"app-state-sync-version",
+			["regular_high"],
+		);
+		expect(stored?.version).toBe(2);
+		expect(stored?.hash).toEqual(state.hash);
+	});
+
+	test("rejects patches with an invalid MAC and gives up after retrying", async () => {
+		const keyData = randomBytes(32);
+		const { patches } = buildPatches(keyData);
+		const [first] = patches;
+		if (!first) throw new Error("expected a patch");
+		first.patchMac = randomBytes(32);
+		const { auth, connection, manager, mutations } = await createManager(() =>
+			syncResponse([first]),
+		);
+		await auth.keys.set({
+			"app-state-sync-key": {
+				[bytesToBase64(KEY_ID)]: { keyData, timestamp: 1 },
+			},
+		});
+
+		await manager.resync(["regular_high"]);
+
+		expect(mutations).toEqual([]);
+		expect(connection.queries).toHaveLength(2);
+		const { regular_high: stored } = await auth.keys.get(
+			"app-state-sync-version",
+			["regular_high"],
+		);
+		expect(stored).toBeUndefined();
+	});
+
+	test("pushes chat modifications as patches and applies them locally", async () => {
+		const keyData = randomBytes(32);
+		const { auth, connection, manager, mutations } = await createManager(
+			() => [],
+		);
+		auth.creds.myAppStateKeyId = bytesToBase64(KEY_ID);
+		await auth.keys.set({
+			"app-state-sync-key": {
+				[bytesToBase64(KEY_ID)]: { keyData, timestamp: 1 },
+			},
+		});
+
+		await manager.push(chatModificationToPatch(CHAT, { archive: true }));
+
+		// The collection is brought up to date before the patch is sent.
+		expect(connection.queries).toHaveLength(2);
+		const sync = (connection.queries[1]?.content as BinaryNode[])[0];
+		const collection = (sync?.content as BinaryNode[])[0];
+		expect(collection?.attrs).toEqual({
+			name: "regular_low",
+			version: "0",
+			return_snapshot: "false",
+		});
+		const patchNode = (collection?.content as BinaryNode[])[0];
+		const patch = fromBinary(
+			SyncdPatchSchema,
+			patchNode?.content as Uint8Array,
+		);
+
+		const decoded = await decodeSyncdPatch(
+			"regular_low",
+			patch,
+			newAppStateVersion(),
+			async () => expandAppStateSyncKey(keyData),
+			async () => new Uint8Array(),
+		);
+		expect(decoded.mutations[0]?.index).toEqual(["archive", CHAT]);
+		expect(decoded.mutations[0]?.value?.archiveChatAction?.archived).toBe(true);
+
+		const { regular_low: stored } = await auth.keys.get(
+			"app-state-sync-version",
+			["regular_low"],
+		);
+		expect(stored?.version).toBe(1);
+		expect(stored?.hash).toEqual(decoded.state.hash);
+		expect(mutations).toHaveLength(1);
+		expect(mutations[0]).toMatchObject({
+			type: "archive",
+			jid: CHAT,
+			archived: true,
+		});
+	});
+
+	test("refuses to push before a key has been shared", async () => {
+		const { connection, manager } = await createManager(() => []);
+
+		await expect(
+			manager.push(chatModificationToPatch(CHAT, { pin: true })),
+		).rejects.toThrow("No app state sync key");
+		expect(connection.queries).toHaveLength(0);
+	});
+});
+
+describe("chatModificationToPatch", () => {
+	test("indexes stars by message key", () => {
+		const patch = chatModificationToPatch(CHAT, {
+			star: {
+				key: { remoteJid: CHAT, id: "MSG1", fromMe: true },
+				starred: true,
+			},
+		});
+
+		expect(patch.collection).toBe("regular_low");
+		expect(patch.index).toEqual(["star", CHAT, "MSG1", "1", "0"]);
+		expect(patch.value.starAction?.starred).toBe(true);
+	});
+
+	test("mutes until the given time and unmutes with null", () => {
+		const mute = chatModificationToPatch(CHAT, { mute: 5000 });
+		const unmute = chatModificationToPatch(CHAT, { mute: null });
+
+		expect(mute.value.muteAction?.muteEndTimestamp).toBe(5000n);
+		expect(unmute.value.muteAction?.muted).toBe(false);
+	});
+});
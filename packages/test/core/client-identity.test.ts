@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { fromBinary } from "@bufbuild/protobuf";
+import {
+	generateLoginPayload,
+	generateRegisterPayload,
+} from "@wha.ts/core/core/auth-payload-generators";
+import { fetchLatestWaWebVersion } from "@wha.ts/core/core/version";
+import { WA_VERSION } from "@wha.ts/core/defaults";
+import {
+	ClientPayload_ConnectReason,
+	ClientPayload_ConnectType,
+	DeviceProps_PlatformType,
+	DevicePropsSchema,
+} from "@wha.ts/proto";
+import { initAuthCreds } from "@wha.ts/utils";
+
+describe("client payload", () => {
+	test("logs in with the configured identity", () => {
+		const payload = generateLoginPayload("123:4@s.whatsapp.net", {
+			version: [2, 3000, 42],
+			browser: ["Mac OS", "Chrome", "14.4.1"],
+			connectType: ClientPayload_ConnectType.CELLULAR_LTE,
+			connectReason: ClientPayload_ConnectReason.SCHEDULED,
+			passive: true,
+			pull: false,
+		});
+
+		expect(payload.username).toBe(123n);
+		expect(payload.device).toBe(4);
+		expect(payload.userAgent?.appVersion?.tertiary).toBe(42);
+		expect(payload.userAgent?.device).toBe("Chrome");
+		expect(payload.userAgent?.osVersion).toBe("14.4.1");
+		expect(payload.connectType).toBe(ClientPayload_ConnectType.CELLULAR_LTE);
+		expect(payload.connectReason).toBe(ClientPayload_ConnectReason.SCHEDULED);
+		expect(payload.passive).toBe(true);
+		expect(payload.pull).toBe(false);
+	});
+
+	test("falls back to the defaults", () => {
+		const payload = generateLoginPayload("123@s.whatsapp.net");
+
+		expect(payload.userAgent?.appVersion?.tertiary).toBe(
+			WA_VERSION[2] as number,
+		);
+		expect(payload.connectReason).toBe(
+			ClientPayload_ConnectReason.USER_ACTIVATED,
+		);
+		expect(payload.passive).toBe(false);
+		expect(payload.pull).toBe(true);
+	});
+
+	test("registers with the configured platform type", () => {
+		const payload = generateRegisterPayload(initAuthCreds(), {
+			browser: ["Windows", "Edge", "10"],
+			platformType: DeviceProps_PlatformType.DESKTOP,
+		});
+
+		const deviceProps = fromBinary(
+			DevicePropsSchema,
+			payload.devicePairingData?.deviceProps ?? new Uint8Array(),
+		);
+		expect(deviceProps.os).toBe("Windows");
+		expect(deviceProps.platformType).toBe(DeviceProps_PlatformType.DESKTOP);
+	});
+});
+
+describe("fetchLatestWaWebVersion", () => {
+	test("reads the client revision from the service worker", async () => {
+		const requested: string[] = [];
+		const latest = await fetchLatestWaWebVersion({
+			url: "https://example.test/sw.js",
+			fetcher: async (input) => {
+				requested.push(input);
+				return new Response('self.__swData={\\"client_revision\\":1027000000}');
+			},
+		});
+
+		expect(requested).toEqual(["https://example.test/sw.js"]);
+		expect(latest).toEqual({ version: [2, 3000, 1027000000], isLatest: true });
+	});
+
+	test("falls back to the bundled version when the lookup fails", async () => {
+		const latest = await fetchLatestWaWebVersion({
+			fetcher: async () => new Response("", { status: 503 }),
+		});
+
+		expect(latest.version).toEqual(WA_VERSION);
+		expect(latest.isLatest).toBe(false);
+		expect(latest.error?.message).toContain("503");
+	});
+});
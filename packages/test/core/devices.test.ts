@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import type { BinaryNode } from "@wha.ts/binary";
+import { DeviceListManager, parseUSyncDevices } from "@wha.ts/core/devices";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { FakeConnection, silentLogger } from "../fakes";
+
+const usyncResponse = (devices: Record<string, number[]>): BinaryNode => ({
+	tag: "iq",
+	attrs: { type: "result" },
+	content: [
+		{
+			tag: "usync",
+			attrs: {},
+			content: [
+				{
+					tag: "list",
+					attrs: {},
+					content: Object.entries(devices).map(([jid, ids]) => ({
+						tag: "user",
+						attrs: { jid },
+						content: [
+							{
+								tag: "devices",
+								attrs: {},
+								content: [
+									{
+										tag: "device-list",
+										attrs: {},
+										content: ids.map((id) => ({
+											tag: "device",
+											attrs: { id: String(id) },
+										})),
+									},
+								],
+							},
+						],
+					})),
+				},
+			],
+		},
+	],
+});
+
+async function createManager(devices: Record<string, number[]>) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	auth.creds.me = { id: "111:3@s.whatsapp.net" };
+	const connection = new FakeConnection(() => usyncResponse(devices));
+	const manager = new DeviceListManager(auth, silentLogger, connection);
+	return { manager, connection };
+}
+
+describe("DeviceListManager", () => {
+	test("parses device ids per user from a usync response", () => {
+		expect(
+			parseUSyncDevices(usyncResponse({ "222@s.whatsapp.net": [0, 5] })),
+		).toEqual({ "222@s.whatsapp.net": [0, 5] });
+	});
+
+	test("resolves device JIDs and skips the current device", async () => {
+		const { manager } = await createManager({
+			"222@s.whatsapp.net": [0, 5],
+			"111@s.whatsapp.net": [0, 3],
+		});
+
+		const devices = await manager.getDevices([
+			"222@s.whatsapp.net",
+			"111:3@s.whatsapp.net",
+		]);
+
+		expect(devices.sort()).toEqual([
+			"111@s.whatsapp.net",
+			"222:5@s.whatsapp.net",
+			"222@s.whatsapp.net",
+		]);
+	});
+
+	test("serves cached lists until a devices notification invalidates them", async () => {
+		const { manager, connection } = await createManager({
+			"222@s.whatsapp.net": [0],
+		});
+
+		await manager.getDevices(["222@s.whatsapp.net"]);
+		await manager.getDevices(["222@s.whatsapp.net"]);
+		expect(connection.queries).toHaveLength(1);
+
+		connection.receive({
+			tag: "notification",
+			attrs: { type: "devices", from: "222@s.whatsapp.net" },
+		});
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		await manager.getDevices(["222@s.whatsapp.net"]);
+		expect(connection.queries).toHaveLength(2);
+	});
+});
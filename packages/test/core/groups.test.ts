@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	GroupParticipantsManager,
+	parseGroupParticipants,
+} from "@wha.ts/core/groups";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { FakeConnection, silentLogger } from "../fakes";
+
+const GROUP = "123-456@g.us";
+
+const groupResponse = (participants: string[]): BinaryNode => ({
+	tag: "iq",
+	attrs: { type: "result" },
+	content: [
+		{
+			tag: "group" as BinaryNode["tag"],
+			attrs: { id: "123-456" },
+			content: participants.map((jid) => ({
+				tag: "participant",
+				attrs: { jid },
+			})),
+		},
+	],
+});
+
+async function createManager(participants: string[], ttlMs?: number) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const connection = new FakeConnection(() => groupResponse(participants));
+	const manager = new GroupParticipantsManager(
+		auth,
+		silentLogger,
+		connection,
+		ttlMs,
+	);
+	return { manager, connection };
+}
+
+describe("GroupParticipantsManager", () => {
+	test("parses participant JIDs from a w:g2 response", () => {
+		expect(
+			parseGroupParticipants(
+				groupResponse(["111@s.whatsapp.net", "222@s.whatsapp.net"]),
+			),
+		).toEqual(["111@s.whatsapp.net", "222@s.whatsapp.net"]);
+	});
+
+	test("serves cached participants until a group notification invalidates them", async () => {
+		const { manager, connection } = await createManager(["111@s.whatsapp.net"]);
+
+		await manager.getParticipants(GROUP);
+		await manager.getParticipants(GROUP);
+		expect(connection.queries).toHaveLength(1);
+		expect(connection.queries[0]?.attrs).toMatchObject({
+			xmlns: "w:g2",
+			to: GROUP,
+		});
+
+		connection.respond = () =>
+			groupResponse(["111@s.whatsapp.net", "333@s.whatsapp.net"]);
+		connection.receive({
+			tag: "notification",
+			attrs: { type: "w:gp2", from: GROUP },
+			content: [{ tag: "add", attrs: {} }],
+		});
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(await manager.getParticipants(GROUP)).toEqual([
+			"111@s.whatsapp.net",
+			"333@s.whatsapp.net",
+		]);
+		expect(connection.queries).toHaveLength(2);
+	});
+
+	test("fetches again once the cached list is older than the TTL", async () => {
+		const { manager, connection } = await createManager(
+			["111@s.whatsapp.net"],
+			0,
+		);
+
+		await manager.getParticipants(GROUP);
+		await manager.getParticipants(GROUP);
+
+		expect(connection.queries).toHaveLength(2);
+	});
+});
@@ -0,0 +1,179 @@
+import { describe, expect, test } from "bun:test";
+import { create, toBinary } from "@bufbuild/protobuf";
+import { encryptMedia } from "@wha.ts/core/media/crypto";
+import {
+	type MediaFetcher,
+	MediaManager,
+} from "@wha.ts/core/media/media-manager";
+import {
+	HistorySyncManager,
+	type HistorySyncPayload,
+} from "@wha.ts/core/messaging/history-sync";
+import { MessageStore } from "@wha.ts/core/messaging/message-store";
+import {
+	ConversationSchema,
+	HistorySync_HistorySyncType,
+	HistorySyncMsgSchema,
+	HistorySyncSchema,
+	Message_HistorySyncNotificationSchema,
+	MessageKeySchema,
+	MessageSchema,
+	PushnameSchema,
+	WebMessageInfo_Status,
+	WebMessageInfoSchema,
+} from "@wha.ts/proto";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { zlibSync } from "fflate";
+import { FakeConnection, FakeProcessor, silentLogger } from "../fakes";
+
+const CHAT = "222@s.whatsapp.net";
+
+const historyBlob = (unreadCount = 1) =>
+	zlibSync(
+		toBinary(
+			HistorySyncSchema,
+			create(HistorySyncSchema, {
+				syncType: HistorySync_HistorySyncType.RECENT,
+				chunkOrder: 1,
+				progress: 40,
+				conversations: [
+					create(ConversationSchema, {
+						id: CHAT,
+						name: "Bob",
+						unreadCount,
+						conversationTimestamp: 200n,
+						messages: [
+							create(HistorySyncMsgSchema, {
+								message: create(WebMessageInfoSchema, {
+									key: create(MessageKeySchema, {
+										remoteJid: CHAT,
+										fromMe: true,
+										id: "OLD1",
+									}),
+									message: create(MessageSchema, { conversation: "hey" }),
+									messageTimestamp: 100n,
+									status: WebMessageInfo_Status.READ,
+								}),
+							}),
+							create(HistorySyncMsgSchema, {
+								message: create(WebMessageInfoSchema, {
+									key: create(MessageKeySchema, {
+										remoteJid: CHAT,
+										fromMe: false,
+										id: "OLD2",
+									}),
+									message: create(MessageSchema, { conversation: "hi" }),
+									messageTimestamp: 200n,
+									pushName: "Bob",
+								}),
+							}),
+						],
+					}),
+				],
+				pushnames: [create(PushnameSchema, { id: CHAT, pushname: "Bobby" })],
+			}),
+		),
+	);
+
+async function createManager(fetcher?: MediaFetcher) {
+	const db = new InMemoryStorageDatabase();
+	const auth = await GenericAuthState.init(db);
+	const connection = new FakeConnection();
+	const processor = new FakeProcessor();
+	const mediaManager = new MediaManager(
+		auth,
+		silentLogger,
+		connection,
+		fetcher,
+	);
+	const store = new MessageStore(db, auth, silentLogger, connection, processor);
+	const manager = new HistorySyncManager(
+		silentLogger,
+		processor,
+		mediaManager,
+		store,
+	);
+	return { manager, processor, store };
+}
+
+describe("HistorySyncManager", () => {
+	test("inflates inline bootstrap payloads into a history.sync event", async () => {
+		const { manager, processor } = await createManager();
+		const payload = new Promise<HistorySyncPayload>((resolve) => {
+			manager.addEventListener("history.sync", (event) =>
+				resolve(event.detail),
+			);
+		});
+
+		processor.emit("history.notification", {
+			notification: create(Message_HistorySyncNotificationSchema, {
+				initialHistBootstrapInlinePayload: historyBlob(),
+			}),
+			rawNode: { tag: "message", attrs: { id: "HIST1" } },
+		});
+
+		const { syncType, chats, contacts, messages, pushNames, progress } =
+			await payload;
+		expect(syncType).toBe(HistorySync_HistorySyncType.RECENT);
+		expect(progress).toBe(40);
+		expect(chats).toEqual([
+			{
+				jid: CHAT,
+				name: "Bob",
+				unreadCount: 1,
+				conversationTimestamp: 200,
+				archived: false,
+				pinned: 0,
+				muteEndTime: 0,
+			},
+		]);
+		expect(contacts).toEqual([{ jid: CHAT, name: "Bob" }]);
+		expect(messages.map((m) => [m.key.id, m.key.fromMe, m.timestamp])).toEqual([
+			["OLD1", true, 100],
+			["OLD2", false, 200],
+		]);
+		expect(messages[1]?.pushName).toBe("Bob");
+		expect(pushNames).toEqual({ [CHAT]: "Bobby" });
+	});
+
+	test("downloads and decrypts blobs and persists their messages", async () => {
+		const encrypted = await encryptMedia(historyBlob(), "md-msg-hist");
+		const requested: string[] = [];
+		const { manager, store } = await createManager(async (url) => {
+			requested.push(url);
+			return new Response(encrypted.encrypted as BodyInit);
+		});
+
+		const payload = await manager.processNotification(
+			create(Message_HistorySyncNotificationSchema, {
+				directPath: "/v/t62.history",
+				mediaKey: encrypted.mediaKey,
+				fileEncSha256: encrypted.fileEncSha256,
+				fileSha256: encrypted.fileSha256,
+			}),
+		);
+
+		expect(requested).toEqual(["https://mmg.whatsapp.net/v/t62.history"]);
+		expect(payload.messages).toHaveLength(2);
+		const stored = await store.getMessages(CHAT);
+		expect(stored.map((m) => [m.key.id, m.status])).toEqual([
+			["OLD1", "read"],
+			["OLD2", "delivered"],
+		]);
+	});
+
+	test("takes the unread count of stored chats from the conversation", async () => {
+		const { manager, store } = await createManager();
+
+		const payload = await manager.processNotification(
+			create(Message_HistorySyncNotificationSchema, {
+				initialHistBootstrapInlinePayload: historyBlob(3),
+			}),
+		);
+
+		expect(payload.chats[0]?.unreadCount).toBe(3);
+		expect(await store.getChats()).toEqual([
+			{ jid: CHAT, lastMessageTimestamp: 200, unreadCount: 3 },
+		]);
+	});
+});
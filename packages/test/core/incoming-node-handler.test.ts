@@ -0,0 +1,295 @@
+import { describe, expect, test } from "bun:test";
+import type { BinaryNode } from "@wha.ts/binary";
+import { IncomingNodeHandler } from "@wha.ts/core/core/incoming-node-handler";
+import type { ErrorWithStatusCode } from "@wha.ts/core/core/types";
+import {
+	DisconnectReason,
+	NackReason,
+	OFFLINE_BATCH_SIZE,
+} from "@wha.ts/core/defaults";
+import type { MessageProcessingResult } from "@wha.ts/core/messaging/message-processor";
+import { initAuthCreds } from "@wha.ts/utils/generic";
+import { silentLogger } from "../fakes";
+
+function createHandler(
+	result?: MessageProcessingResult,
+	processIncomingNode: (
+		node: BinaryNode,
+	) => Promise<MessageProcessingResult | undefined> = async () => result,
+) {
+	const sent: BinaryNode[] = [];
+	const received: BinaryNode[] = [];
+	const events: string[] = [];
+	const closed: ErrorWithStatusCode[] = [];
+	const creds = initAuthCreds();
+	creds.me = { id: "111:3@s.whatsapp.net" };
+	const handler = new IncomingNodeHandler(
+		{
+			setState: () => {},
+			sendNode: async (node) => {
+				sent.push(node);
+			},
+			close: async (error) => {
+				closed.push(error as ErrorWithStatusCode);
+			},
+			dispatchTypedEvent: (type, payload) => {
+				events.push(type);
+				if ("node" in payload) {
+					received.push(payload.node);
+				}
+			},
+		},
+		{ processIncomingNode },
+		silentLogger,
+		creds,
+	);
+	const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+	return { handler, sent, received, events, closed, flush };
+}
+
+const encryptedMessage: BinaryNode = {
+	tag: "message",
+	attrs: {
+		id: "MSG1",
+		from: "123-456@g.us",
+		participant: "222@s.whatsapp.net",
+		type: "text",
+	},
+	content: [{ tag: "enc", attrs: { v: "2", type: "skmsg" } }],
+};
+
+describe("IncomingNodeHandler acks", () => {
+	test("acks a decrypted message without echoing its type", async () => {
+		const { handler, sent, flush } = createHandler({ status: "decrypted" });
+
+		handler.processNode(encryptedMessage, "open");
+		await flush();
+
+		expect(sent).toEqual([
+			{
+				tag: "ack",
+				attrs: {
+					id: "MSG1",
+					to: "123-456@g.us",
+					class: "message",
+					participant: "222@s.whatsapp.net",
+				},
+			},
+		]);
+	});
+
+	test("nacks a message that failed to decrypt", async () => {
+		const { handler, sent, flush } = createHandler({
+			status: "failed",
+			error: new Error("No session"),
+		});
+
+		handler.processNode(encryptedMessage, "open");
+		await flush();
+
+		expect(sent[0]?.attrs).toMatchObject({
+			class: "message",
+			type: "text",
+			error: NackReason.unhandledError.toString(),
+		});
+	});
+
+	test("acks receipts and notifications with their type", async () => {
+		const { handler, sent, received } = createHandler();
+
+		handler.processNode(
+			{
+				tag: "receipt",
+				attrs: { id: "R1", from: "222@s.whatsapp.net", type: "read" },
+			},
+			"open",
+		);
+		handler.processNode(
+			{
+				tag: "notification",
+				attrs: { id: "N1", from: "s.whatsapp.net", type: "devices" },
+			},
+			"open",
+		);
+
+		expect(received).toHaveLength(2);
+		expect(sent.map((node) => node.attrs)).toEqual([
+			{ id: "R1", to: "222@s.whatsapp.net", class: "receipt", type: "read" },
+			{
+				id: "N1",
+				to: "s.whatsapp.net",
+				class: "notification",
+				type: "devices",
+			},
+		]);
+	});
+
+	test("acks unavailable messages from our own jid", () => {
+		const { handler, sent } = createHandler();
+
+		handler.processNode(
+			{
+				tag: "message",
+				attrs: { id: "M2", from: "222@s.whatsapp.net", type: "text" },
+				content: [{ tag: "unavailable", attrs: {} }],
+			},
+			"open",
+		);
+
+		expect(sent[0]?.attrs).toEqual({
+			id: "M2",
+			to: "222@s.whatsapp.net",
+			class: "message",
+			type: "text",
+			from: "111:3@s.whatsapp.net",
+		});
+	});
+
+	test("does not ack other stanzas", () => {
+		const { handler, sent } = createHandler();
+
+		handler.processNode(
+			{ tag: "ib", attrs: { from: "s.whatsapp.net", id: "X" } },
+			"open",
+		);
+
+		expect(sent).toHaveLength(0);
+	});
+});
+
+describe("IncomingNodeHandler stream errors", () => {
+	test("closes with the status code of the stream error", () => {
+		const { handler, closed } = createHandler();
+
+		handler.processNode(
+			{ tag: "stream:error", attrs: { code: "515" } },
+			"open",
+		);
+		handler.processNode(
+			{
+				tag: "stream:error",
+				attrs: {},
+				content: [{ tag: "conflict", attrs: { type: "replaced" } }],
+			},
+			"open",
+		);
+		handler.processNode(
+			{
+				tag: "stream:error",
+				attrs: { code: "401" },
+				content: [{ tag: "conflict", attrs: { type: "device_removed" } }],
+			},
+			"open",
+		);
+		handler.processNode({ tag: "stream:error", attrs: {} }, "open");
+
+		expect(closed.map((error) => error.statusCode)).toEqual([
+			DisconnectReason.restartRequired,
+			DisconnectReason.connectionReplaced,
+			DisconnectReason.loggedOut,
+			DisconnectReason.badSession,
+		]);
+	});
+});
+
+describe("IncomingNodeHandler offline queue", () => {
+	const offlineBatch: BinaryNode = {
+		tag: "ib",
+		attrs: {},
+		content: [
+			{
+				tag: "offline_batch",
+				attrs: { count: OFFLINE_BATCH_SIZE.toString() },
+			},
+		],
+	};
+	const offlineNotification = (id: number): BinaryNode => ({
+		tag: "notification",
+		attrs: {
+			id: `N${id}`,
+			from: "s.whatsapp.net",
+			type: "devices",
+			offline: "0",
+		},
+	});
+
+	test("pulls batches until the server reports the queue is empty", () => {
+		const { handler, sent, received } = createHandler();
+		const batches = () =>
+			sent.filter((node) => node.tag === "ib").map((node) => node.content);
+
+		handler.processNode(
+			{
+				tag: "ib",
+				attrs: { from: "s.whatsapp.net" },
+				content: [{ tag: "offline_preview", attrs: { count: "40" } }],
+			},
+			"open",
+		);
+		expect(batches()).toEqual([offlineBatch.content]);
+
+		for (let i = 0; i < OFFLINE_BATCH_SIZE; i++) {
+			handler.processNode(offlineNotification(i), "open");
+		}
+		expect(batches()).toHaveLength(2);
+
+		handler.processNode(
+			{
+				tag: "ib",
+				attrs: { from: "s.whatsapp.net" },
+				content: [{ tag: "offline", attrs: { count: "40" } }],
+			},
+			"open",
+		);
+		for (let i = 0; i < OFFLINE_BATCH_SIZE; i++) {
+			handler.processNode(offlineNotification(100 + i), "open");
+		}
+
+		expect(batches()).toHaveLength(2);
+		// The markers still reach the authenticator.
+		expect(received.filter((node) => node.tag === "ib")).toHaveLength(2);
+	});
+
+	test("completes only after offline messages still decrypting are done", async () => {
+		const pending: (() => void)[] = [];
+		const { handler, events } = createHandler(
+			undefined,
+			(node) =>
+				new Promise((resolve) =>
+					pending.push(() => {
+						events.push(`decrypted ${node.attrs.id}`);
+						resolve({ status: "decrypted" });
+					}),
+				),
+		);
+		const offlineMessage = (id: string): BinaryNode => ({
+			...encryptedMessage,
+			attrs: { ...encryptedMessage.attrs, id, offline: "1" },
+		});
+
+		handler.processNode(offlineMessage("OFF1"), "open");
+		handler.processNode(offlineMessage("OFF2"), "open");
+		handler.processNode(
+			{
+				tag: "ib",
+				attrs: { from: "s.whatsapp.net" },
+				content: [{ tag: "offline", attrs: { count: "2" } }],
+			},
+			"open",
+		);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(events).not.toContain("offline.complete");
+
+		pending.shift()?.();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(events).not.toContain("offline.complete");
+
+		pending.shift()?.();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(events.filter((event) => event !== "node.received")).toEqual([
+			"decrypted OFF1",
+			"decrypted OFF2",
+			"offline.complete",
+		]);
+	});
+});
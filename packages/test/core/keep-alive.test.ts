@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { type BinaryNode, S_WHATSAPP_NET } from "@wha.ts/binary";
+import { ConnectionManager } from "@wha.ts/core/core/connection";
+import type { StateChangePayload } from "@wha.ts/core/core/connection-events";
+import type { ErrorWithStatusCode } from "@wha.ts/core/core/types";
+import { DisconnectReason } from "@wha.ts/core/defaults";
+import { MessageProcessor } from "@wha.ts/core/messaging/message-processor";
+import { SignalProtocolStoreAdapter } from "@wha.ts/core/signal/signal-store";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { silentLogger } from "../fakes";
+
+/** Private members driven directly so no socket is needed. */
+type ConnectionInternals = {
+	lastReceivedAt: number;
+	setState(state: string): void;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function createConnection(keepAliveIntervalMs: number) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const signalStore = new SignalProtocolStoreAdapter(auth, silentLogger);
+	const processor = new MessageProcessor(
+		silentLogger,
+		signalStore,
+		auth.keys,
+		auth,
+	);
+	const connection = new ConnectionManager(
+		{ url: new URL("ws://localhost"), keepAliveIntervalMs },
+		silentLogger,
+		auth.creds,
+		processor,
+	);
+	const internals = connection as unknown as ConnectionInternals;
+
+	const sent: BinaryNode[] = [];
+	connection.sendNode = async (node) => {
+		sent.push(node);
+	};
+	const states: StateChangePayload[] = [];
+	connection.addEventListener("state.change", (event) => {
+		states.push(event.detail);
+	});
+
+	return { connection, internals, sent, states };
+}
+
+describe("ConnectionManager keep-alive", () => {
+	test("pings the server while the connection is open", async () => {
+		const { connection, internals, sent } = await createConnection(10);
+
+		internals.setState("open");
+		await sleep(35);
+		internals.setState("closed");
+		const pings = sent.length;
+		await sleep(25);
+
+		expect(pings).toBeGreaterThanOrEqual(2);
+		expect(sent.length).toBe(pings);
+		expect(sent[0]).toMatchObject({
+			tag: "iq",
+			attrs: { to: S_WHATSAPP_NET, type: "get", xmlns: "w:p" },
+			content: [{ tag: "ping", attrs: {} }],
+		});
+		expect(connection.getState()).toBe("closed");
+	});
+
+	test("closes as connectionLost when nothing arrives anymore", async () => {
+		const { connection, internals, sent, states } = await createConnection(10);
+
+		internals.setState("open");
+		internals.lastReceivedAt = 0;
+		await sleep(25);
+
+		expect(sent).toHaveLength(0);
+		expect(connection.getState()).toBe("closed");
+		const closed = states.find((change) => change.state === "closed");
+		expect((closed?.error as ErrorWithStatusCode).statusCode).toBe(
+			DisconnectReason.connectionLost,
+		);
+	});
+
+	test("can be disabled", async () => {
+		const { internals, sent } = await createConnection(0);
+
+		internals.setState("open");
+		await sleep(20);
+		internals.setState("closed");
+
+		expect(sent).toHaveLength(0);
+	});
+});
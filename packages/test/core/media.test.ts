@@ -0,0 +1,307 @@
+import { describe, expect, test } from "bun:test";
+import { create, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild } from "@wha.ts/binary";
+import {
+	encryptMedia,
+	getMediaKeys,
+	getMediaRetryKey,
+	MEDIA_MAC_LENGTH,
+} from "@wha.ts/core/media/crypto";
+import {
+	type MediaFetcher,
+	MediaManager,
+} from "@wha.ts/core/media/media-manager";
+import {
+	MediaRetryNotification_ResultType,
+	MediaRetryNotificationSchema,
+	Message_ImageMessageSchema,
+	MessageSchema,
+} from "@wha.ts/proto";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import {
+	aesDecrypt,
+	aesEncryptGCM,
+	concatBytes,
+	hmacSign,
+	randomBytes,
+	sha256,
+	utf8ToBytes,
+} from "@wha.ts/utils";
+import { FakeConnection, silentLogger } from "../fakes";
+
+const mediaConnResponse: BinaryNode = {
+	tag: "iq",
+	attrs: { type: "result" },
+	content: [
+		{
+			tag: "media_conn",
+			attrs: { auth: "token+/=", ttl: "300" },
+			content: [
+				{ tag: "host", attrs: { hostname: "broken.whatsapp.net" } },
+				{ tag: "host", attrs: { hostname: "mmg.whatsapp.net" } },
+			],
+		},
+	],
+};
+
+const uploadFetcher: MediaFetcher = async (url) => {
+	if (url.includes("broken")) {
+		return new Response("unavailable", { status: 503 });
+	}
+	return Response.json({
+		url: "https://mmg.whatsapp.net/v/t62/file.enc",
+		direct_path: "/v/t62/file.enc",
+	});
+};
+
+async function createManager(fetcher: MediaFetcher = uploadFetcher) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	auth.creds.me = { id: "111:3@s.whatsapp.net" };
+	const connection = new FakeConnection(() => mediaConnResponse);
+	const requests: { url: string; init?: RequestInit }[] = [];
+	const manager = new MediaManager(
+		auth,
+		silentLogger,
+		connection,
+		(url, init) => {
+			requests.push({ url, init });
+			return fetcher(url, init);
+		},
+		1000,
+	);
+	return { manager, connection, queries: connection.queries, requests };
+}
+
+/** An image message whose encrypted bytes are served at `directPath`. */
+function createImageMessage(plaintext: Uint8Array, directPath: string) {
+	const media = encryptMedia(plaintext, "image");
+	const message = create(MessageSchema, {
+		imageMessage: create(Message_ImageMessageSchema, {
+			directPath,
+			mediaKey: media.mediaKey,
+			fileSha256: media.fileSha256,
+			fileEncSha256: media.fileEncSha256,
+		}),
+	});
+	return {
+		message,
+		encrypted: new Uint8Array(media.encrypted),
+		mediaKey: media.mediaKey,
+	};
+}
+
+const readAll = async (stream: ReadableStream<Uint8Array>) =>
+	new Uint8Array(await new Response(stream as ReadableStream).arrayBuffer());
+
+/** Serves `bytes` as a body split into uneven chunks. */
+const chunkedBody = (bytes: Uint8Array, chunkSize: number) =>
+	new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < bytes.length; i += chunkSize) {
+				controller.enqueue(bytes.slice(i, i + chunkSize));
+			}
+			controller.close();
+		},
+	});
+
+describe("media encryption", () => {
+	test("encrypts with derived keys and appends a truncated HMAC", () => {
+		const plaintext = utf8ToBytes("some image bytes");
+		const media = encryptMedia(plaintext, "image");
+		const { iv, cipherKey, macKey } = getMediaKeys(media.mediaKey, "image");
+
+		const ciphertext = media.encrypted.slice(0, -MEDIA_MAC_LENGTH);
+		const mac = media.encrypted.slice(-MEDIA_MAC_LENGTH);
+		expect(mac).toEqual(
+			hmacSign(macKey, concatBytes(iv, ciphertext)).slice(0, MEDIA_MAC_LENGTH),
+		);
+		expect(aesDecrypt(cipherKey, ciphertext, iv)).toEqual(plaintext);
+		expect(media.fileSha256).toEqual(sha256(plaintext));
+		expect(media.fileEncSha256).toEqual(sha256(media.encrypted));
+		expect(media.fileLength).toBe(plaintext.length);
+	});
+
+	test("derives different keys per media type", () => {
+		const mediaKey = new Uint8Array(32).fill(7);
+
+		expect(getMediaKeys(mediaKey, "image").cipherKey).not.toEqual(
+			getMediaKeys(mediaKey, "document").cipherKey,
+		);
+		expect(getMediaKeys(mediaKey, "video")).toEqual(
+			getMediaKeys(mediaKey, "gif"),
+		);
+	});
+});
+
+describe("MediaManager", () => {
+	test("uploads to the next host when one fails and builds the proto", async () => {
+		const { manager, queries, requests } = await createManager();
+
+		const { message, relayOptions } = await manager.prepareMediaMessage({
+			type: "image",
+			data: utf8ToBytes("jpeg"),
+			caption: "look",
+		});
+
+		expect(queries).toHaveLength(1);
+		expect(queries[0]?.attrs.xmlns).toBe("w:m");
+		expect(requests.map(({ url }) => new URL(url).hostname)).toEqual([
+			"broken.whatsapp.net",
+			"mmg.whatsapp.net",
+		]);
+		const uploadUrl = new URL(requests[1]?.url as string);
+		expect(uploadUrl.pathname.startsWith("/mms/image/")).toBe(true);
+		expect(uploadUrl.searchParams.get("auth")).toBe("token+/=");
+		expect(uploadUrl.searchParams.get("token")).not.toMatch(/[+/=]/);
+
+		const image = message.imageMessage;
+		expect(image?.directPath).toBe("/v/t62/file.enc");
+		expect(image?.caption).toBe("look");
+		expect(image?.mimetype).toBe("image/jpeg");
+		expect(image?.mediaKey).toHaveLength(32);
+		expect(image?.fileLength).toBe(4n);
+		expect(relayOptions.type).toBe("media");
+	});
+
+	test("reuses the media connection within its TTL", async () => {
+		const { manager, queries } = await createManager();
+
+		await manager.prepareMediaMessage({
+			type: "document",
+			data: utf8ToBytes("pdf"),
+			mimetype: "application/pdf",
+			fileName: "a.pdf",
+		});
+		await manager.prepareMediaMessage({
+			type: "audio",
+			data: utf8ToBytes("ogg"),
+			ptt: true,
+		});
+
+		expect(queries).toHaveLength(1);
+	});
+});
+
+describe("MediaManager downloads", () => {
+	test("downloads, verifies and decrypts media", async () => {
+		const plaintext = utf8ToBytes("a small picture");
+		const { message, encrypted } = createImageMessage(plaintext, "/v/a.enc");
+		const { manager, requests } = await createManager(
+			async () => new Response(encrypted),
+		);
+
+		expect(await manager.downloadMedia(message)).toEqual(plaintext);
+		expect(requests[0]?.url).toBe("https://mmg.whatsapp.net/v/a.enc");
+	});
+
+	test("decrypts a chunked download as a stream", async () => {
+		const plaintext = new Uint8Array(randomBytes(70_001));
+		const { message, encrypted } = createImageMessage(plaintext, "/v/a.enc");
+		const { manager } = await createManager(
+			async () => new Response(chunkedBody(encrypted, 1_003)),
+		);
+
+		const stream = await manager.downloadMedia(message, { stream: true });
+		expect(await readAll(stream)).toEqual(plaintext);
+	});
+
+	test("rejects tampered media", async () => {
+		const { message, encrypted } = createImageMessage(
+			randomBytes(100),
+			"/v/a.enc",
+		);
+		const tampered = encrypted.slice();
+		tampered.set([(tampered[0] ?? 0) ^ 0xff], 0);
+		const { manager } = await createManager(
+			async () => new Response(chunkedBody(tampered, 7)),
+		);
+
+		await expect(manager.downloadMedia(message)).rejects.toThrow("mismatch");
+		const stream = await manager.downloadMedia(message, { stream: true });
+		await expect(readAll(stream)).rejects.toThrow();
+	});
+
+	test("requests a re-upload when the media expired", async () => {
+		const plaintext = utf8ToBytes("old holiday photo");
+		const { message, encrypted, mediaKey } = createImageMessage(
+			plaintext,
+			"/v/expired.enc",
+		);
+		const { manager, connection } = await createManager(async (url) =>
+			url.endsWith("/v/fresh.enc")
+				? new Response(encrypted)
+				: new Response("gone", { status: 410 }),
+		);
+		const key = {
+			remoteJid: "222@s.whatsapp.net",
+			id: "MEDIA1",
+			fromMe: false,
+		};
+
+		connection.onSend = (node) => {
+			const iv = randomBytes(12);
+			const payload = toBinary(
+				MediaRetryNotificationSchema,
+				create(MediaRetryNotificationSchema, {
+					stanzaId: node.attrs.id,
+					directPath: "/v/fresh.enc",
+					result: MediaRetryNotification_ResultType.SUCCESS,
+				}),
+			);
+			queueMicrotask(() =>
+				connection.receive({
+					tag: "notification",
+					attrs: {
+						id: "MEDIA1",
+						type: "mediaretry",
+						from: "111@s.whatsapp.net",
+					},
+					content: [
+						{
+							tag: "encrypt",
+							attrs: {},
+							content: [
+								{
+									tag: "enc_p",
+									attrs: {},
+									content: aesEncryptGCM(
+										payload,
+										getMediaRetryKey(mediaKey),
+										iv,
+										utf8ToBytes("MEDIA1"),
+									),
+								},
+								{ tag: "enc_iv", attrs: {}, content: iv },
+							],
+						},
+						{ tag: "rmr", attrs: { jid: key.remoteJid, from_me: "false" } },
+					],
+				}),
+			);
+		};
+
+		expect(await manager.downloadMedia({ message, key })).toEqual(plaintext);
+		expect(message.imageMessage?.directPath).toBe("/v/fresh.enc");
+
+		const [request] = connection.sent as [BinaryNode];
+		expect(request.attrs).toEqual({
+			id: "MEDIA1",
+			to: "111@s.whatsapp.net",
+			type: "server-error",
+		});
+		expect(getBinaryNodeChild(request, "rmr")?.attrs).toEqual({
+			jid: "222@s.whatsapp.net",
+			from_me: "false",
+		});
+	});
+
+	test("fails on expired media without a message key", async () => {
+		const { message } = createImageMessage(randomBytes(10), "/v/a.enc");
+		const { manager } = await createManager(
+			async () => new Response("gone", { status: 410 }),
+		);
+
+		await expect(manager.downloadMedia(message)).rejects.toThrow("HTTP 410");
+	});
+});
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { create } from "@bufbuild/protobuf";
+import { buildMessageContent } from "@wha.ts/core/messaging/message-content";
+import { Message_ProtocolMessage_Type, MessageSchema } from "@wha.ts/proto";
+
+const ME = "111:1@s.whatsapp.net";
+const CHAT = "222@s.whatsapp.net";
+
+describe("buildMessageContent", () => {
+	test("builds a reply with mentions", () => {
+		const quotedMessage = create(MessageSchema, { conversation: "hi" });
+		const { message, relayOptions } = buildMessageContent(
+			{
+				type: "text",
+				text: "hello @333",
+				mentions: ["333@s.whatsapp.net"],
+				quoted: { key: { remoteJid: CHAT, id: "Q1" }, message: quotedMessage },
+			},
+			ME,
+		);
+
+		const contextInfo = message.extendedTextMessage?.contextInfo;
+		expect(message.extendedTextMessage?.text).toBe("hello @333");
+		expect(contextInfo?.stanzaId).toBe("Q1");
+		expect(contextInfo?.participant).toBe(CHAT);
+		expect(contextInfo?.quotedMessage?.conversation).toBe("hi");
+		expect(contextInfo?.mentionedJid).toEqual(["333@s.whatsapp.net"]);
+		expect(relayOptions.type).toBe("text");
+	});
+
+	test("names us as the author when quoting our own message", () => {
+		const { message } = buildMessageContent(
+			{
+				type: "text",
+				text: "again",
+				quoted: {
+					key: { remoteJid: CHAT, id: "Q2", fromMe: true },
+					message: create(MessageSchema, { conversation: "first" }),
+				},
+			},
+			ME,
+		);
+
+		expect(message.extendedTextMessage?.contextInfo?.participant).toBe(ME);
+	});
+
+	test("leaves plain text without context info", () => {
+		const { message } = buildMessageContent({ type: "text", text: "plain" });
+
+		expect(message.extendedTextMessage?.contextInfo).toBeUndefined();
+	});
+
+	test("builds reactions against the target key", () => {
+		const { message, relayOptions } = buildMessageContent({
+			type: "reaction",
+			key: { remoteJid: CHAT, id: "M1" },
+			emoji: "👍",
+		});
+
+		expect(message.reactionMessage?.text).toBe("👍");
+		expect(message.reactionMessage?.key?.id).toBe("M1");
+		expect(message.reactionMessage?.key?.fromMe).toBe(false);
+		expect(relayOptions.type).toBe("reaction");
+	});
+
+	test("uses a contacts array for more than one contact", () => {
+		const single = buildMessageContent({
+			type: "contacts",
+			contacts: [{ displayName: "A", vcard: "BEGIN:VCARD\nEND:VCARD" }],
+		});
+		const multiple = buildMessageContent({
+			type: "contacts",
+			contacts: [
+				{ displayName: "A", vcard: "BEGIN:VCARD\nEND:VCARD" },
+				{ displayName: "B", vcard: "BEGIN:VCARD\nEND:VCARD" },
+			],
+		});
+
+		expect(single.message.contactMessage?.displayName).toBe("A");
+		expect(multiple.message.contactsArrayMessage?.contacts).toHaveLength(2);
+		expect(multiple.message.contactsArrayMessage?.displayName).toBe(
+			"2 contacts",
+		);
+	});
+
+	test("builds locations and polls", () => {
+		const location = buildMessageContent({
+			type: "location",
+			latitude: 52.37,
+			longitude: 4.89,
+			name: "Amsterdam",
+		});
+		const poll = buildMessageContent({
+			type: "poll",
+			name: "Lunch?",
+			options: ["Pizza", "Sushi"],
+			selectableCount: 1,
+		});
+
+		expect(location.message.locationMessage?.degreesLatitude).toBe(52.37);
+		expect(location.message.locationMessage?.name).toBe("Amsterdam");
+		expect(
+			poll.message.pollCreationMessage?.options.map((o) => o.optionName),
+		).toEqual(["Pizza", "Sushi"]);
+		expect(poll.message.messageContextInfo?.messageSecret).toHaveLength(32);
+		expect(poll.relayOptions.type).toBe("poll");
+		expect(() =>
+			buildMessageContent({ type: "poll", name: "?", options: ["only"] }),
+		).toThrow();
+	});
+
+	test("marks edits and deletes with the edit attribute", () => {
+		const key = { remoteJid: CHAT, id: "M1", fromMe: true };
+		const edit = buildMessageContent({ type: "edit", key, text: "fixed" });
+		const revoke = buildMessageContent({ type: "delete", key });
+
+		expect(edit.message.protocolMessage?.type).toBe(
+			Message_ProtocolMessage_Type.MESSAGE_EDIT,
+		);
+		expect(edit.message.protocolMessage?.editedMessage?.conversation).toBe(
+			"fixed",
+		);
+		expect(edit.relayOptions.additionalAttributes).toEqual({ edit: "1" });
+		expect(revoke.message.protocolMessage?.type).toBe(
+			Message_ProtocolMessage_Type.REVOKE,
+		);
+		expect(revoke.relayOptions.additionalAttributes).toEqual({ edit: "7" });
+	});
+
+	test("revokes someone else's message as admin only in groups", () => {
+		const fromOther = { id: "M1", fromMe: false };
+		const inGroup = buildMessageContent({
+			type: "delete",
+			key: { ...fromOther, remoteJid: "123-456@g.us" },
+		});
+		const inChat = buildMessageContent({
+			type: "delete",
+			key: { ...fromOther, remoteJid: CHAT },
+		});
+
+		expect(inGroup.relayOptions.additionalAttributes).toEqual({ edit: "8" });
+		expect(inChat.relayOptions.additionalAttributes).toEqual({ edit: "7" });
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { create, toBinary } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import { SignalProtocolStoreAdapter } from "@wha.ts/core";
+import { MessageProcessor } from "@wha.ts/core/messaging/message-processor";
+import {
+	jidToSignalAddress,
+	toSenderKeyName,
+} from "@wha.ts/core/signal/session-manager";
+import { type Message, MessageSchema } from "@wha.ts/proto";
+import { SessionBuilder, SessionCipher } from "@wha.ts/signal";
+import {
+	GroupSessionBuilder,
+	serializeSenderKeyDistributionMessage,
+} from "@wha.ts/signal/groups/builder";
+import { GroupCipher } from "@wha.ts/signal/groups/cipher";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { concatBytes, KEY_BUNDLE_TYPE, padRandomMax16 } from "@wha.ts/utils";
+import { silentLogger } from "../fakes";
+
+const GROUP = "123-456@g.us";
+const ALICE = "111:2@s.whatsapp.net";
+const BOB = "222@s.whatsapp.net";
+
+const prefixed = (key: Uint8Array) => concatBytes(KEY_BUNDLE_TYPE, key);
+const encode = (message: Message) =>
+	padRandomMax16(toBinary(MessageSchema, message));
+
+async function createGroupStanza() {
+	const alice = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const bob = await GenericAuthState.init(new InMemoryStorageDatabase());
+
+	const aliceStore = new SignalProtocolStoreAdapter(alice, silentLogger);
+	await new SessionBuilder(aliceStore, jidToSignalAddress(BOB)).initOutgoing({
+		registrationId: bob.creds.registrationId,
+		identityKey: prefixed(bob.creds.signedIdentityKey.publicKey),
+		signedPreKey: {
+			keyId: bob.creds.signedPreKey.keyId,
+			publicKey: prefixed(bob.creds.signedPreKey.keyPair.publicKey),
+			signature: bob.creds.signedPreKey.signature,
+		},
+	});
+
+	const senderKeyName = toSenderKeyName(GROUP, ALICE);
+	const distribution = await new GroupSessionBuilder(alice.keys).create(
+		senderKeyName,
+	);
+	const pairwise = await new SessionCipher(
+		aliceStore,
+		jidToSignalAddress(BOB),
+	).encrypt(
+		encode(
+			create(MessageSchema, {
+				senderKeyDistributionMessage: {
+					groupId: GROUP,
+					axolotlSenderKeyDistributionMessage:
+						serializeSenderKeyDistributionMessage(distribution),
+				},
+			}),
+		),
+	);
+	const skmsg = await new GroupCipher(alice.keys, senderKeyName).encrypt(
+		encode(create(MessageSchema, { conversation: "hello group" })),
+	);
+
+	// skmsg deliberately comes first: it depends on the pairwise payload.
+	const stanza: BinaryNode = {
+		tag: "message",
+		attrs: { from: GROUP, participant: ALICE, id: "MSG1", type: "text" },
+		content: [
+			{ tag: "enc", attrs: { v: "2", type: "skmsg" }, content: skmsg },
+			{ tag: "enc", attrs: { v: "2", type: "pkmsg" }, content: pairwise.body },
+		],
+	};
+
+	return { bob, stanza, senderKeyName };
+}
+
+describe("MessageProcessor", () => {
+	test("decrypts skmsg with the sender key carried in the same stanza", async () => {
+		const { bob, stanza, senderKeyName } = await createGroupStanza();
+		const processor = new MessageProcessor(
+			silentLogger,
+			new SignalProtocolStoreAdapter(bob, silentLogger),
+			bob.keys,
+			bob,
+		);
+
+		const decrypted: Message[] = [];
+		const errors: Error[] = [];
+		processor.addEventListener("message.decrypted", (event) => {
+			decrypted.push(event.detail.message.message);
+		});
+		processor.addEventListener("message.decryption_error", (event) => {
+			errors.push(event.detail.error);
+		});
+
+		await processor.processIncomingNode(stanza);
+
+		const stored = await bob.keys.get("sender-key", [senderKeyName]);
+		expect(stored[senderKeyName]?.senderKeyStates).toHaveLength(1);
+		expect(errors).toEqual([]);
+		expect(decrypted.map((m) => m.conversation)).toEqual(["hello group"]);
+	});
+});
@@ -0,0 +1,218 @@
+import { describe, expect, test } from "bun:test";
+import { create, fromBinary } from "@bufbuild/protobuf";
+import {
+	type BinaryNode,
+	getBinaryNodeChild,
+	getBinaryNodeChildren,
+} from "@wha.ts/binary";
+import { SignalProtocolStoreAdapter } from "@wha.ts/core";
+import { MessageSender } from "@wha.ts/core/messaging/message-sender";
+import { jidToSignalAddress } from "@wha.ts/core/signal/session-manager";
+import { MessageSchema, SenderKeyMessageSchema } from "@wha.ts/proto";
+import { SessionBuilder, SessionCipher } from "@wha.ts/signal";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import type { IAuthStateProvider } from "@wha.ts/types";
+import { concatBytes, KEY_BUNDLE_TYPE, unpadRandomMax16 } from "@wha.ts/utils";
+import { FakeConnection, silentLogger } from "../fakes";
+
+const ME = "111:1@s.whatsapp.net";
+const MY_PHONE = "111@s.whatsapp.net";
+const RECIPIENT = "222@s.whatsapp.net";
+const GROUP = "123-456@g.us";
+
+const prefixed = (key: Uint8Array) => concatBytes(KEY_BUNDLE_TYPE, key);
+
+async function connectSession(
+	store: SignalProtocolStoreAdapter,
+	jid: string,
+	peer: IAuthStateProvider,
+) {
+	const { creds } = peer;
+	await new SessionBuilder(store, jidToSignalAddress(jid)).initOutgoing({
+		registrationId: creds.registrationId,
+		identityKey: prefixed(creds.signedIdentityKey.publicKey),
+		signedPreKey: {
+			keyId: creds.signedPreKey.keyId,
+			publicKey: prefixed(creds.signedPreKey.keyPair.publicKey),
+			signature: creds.signedPreKey.signature,
+		},
+	});
+}
+
+async function decryptFor(peer: IAuthStateProvider, participant: BinaryNode) {
+	const enc = getBinaryNodeChild(participant, "enc");
+	const plaintext = await new SessionCipher(
+		new SignalProtocolStoreAdapter(peer, silentLogger),
+		jidToSignalAddress(ME),
+	).decryptPreKeyWhisperMessage(enc?.content as Uint8Array);
+	return fromBinary(MessageSchema, unpadRandomMax16(plaintext));
+}
+
+async function createSender(devices: string[]) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	auth.creds.me = { id: ME };
+	auth.creds.account = {
+		details: new Uint8Array([1]),
+		accountSignatureKey: new Uint8Array(32),
+		accountSignature: new Uint8Array(64),
+		deviceSignature: new Uint8Array(64),
+	};
+	const store = new SignalProtocolStoreAdapter(auth, silentLogger);
+
+	const peers: Record<string, IAuthStateProvider> = {};
+	for (const jid of devices) {
+		peers[jid] = await GenericAuthState.init(new InMemoryStorageDatabase());
+		await connectSession(store, jid, peers[jid]);
+	}
+
+	const connection = new FakeConnection((node) => ({
+		tag: "ack",
+		attrs: { id: node.attrs.id as string },
+	}));
+	const deviceLists = {
+		getDevices: async () => devices,
+	};
+	const groups = {
+		getParticipants: async () => [RECIPIENT, MY_PHONE],
+	};
+	const assertCalls: [string[], boolean | undefined][] = [];
+	const sessions = {
+		assertSessions: async (jids: string[], force?: boolean) => {
+			assertCalls.push([jids, force]);
+			return false;
+		},
+	};
+
+	const sender = new MessageSender(
+		auth,
+		silentLogger,
+		connection,
+		store,
+		sessions,
+		deviceLists,
+		groups,
+	);
+	return { sender, sent: connection.queries, peers, auth, assertCalls };
+}
+
+describe("MessageSender", () => {
+	test("fans out to all devices in a single stanza", async () => {
+		const { sender, sent, peers } = await createSender([RECIPIENT, MY_PHONE]);
+
+		const message = create(MessageSchema, { conversation: "hi" });
+		const result = await sender.relayMessage(RECIPIENT, message);
+
+		expect(result.messageId).toBe("tag-1");
+		expect(result.ack?.tag).toBe("ack");
+		expect(sent).toHaveLength(1);
+
+		const [stanza] = sent as [BinaryNode];
+		expect(stanza.attrs.to).toBe(RECIPIENT);
+		expect(getBinaryNodeChild(stanza, "device-identity")).toBeDefined();
+
+		const participants = getBinaryNodeChildren(
+			getBinaryNodeChild(stanza, "participants"),
+			"to",
+		);
+		expect(participants.map((p) => p.attrs.jid)).toEqual([RECIPIENT, MY_PHONE]);
+
+		const toRecipient = await decryptFor(
+			peers[RECIPIENT] as IAuthStateProvider,
+			participants[0] as BinaryNode,
+		);
+		expect(toRecipient.conversation).toBe("hi");
+
+		const toMyPhone = await decryptFor(
+			peers[MY_PHONE] as IAuthStateProvider,
+			participants[1] as BinaryNode,
+		);
+		expect(toMyPhone.deviceSentMessage?.destinationJid).toBe(RECIPIENT);
+		expect(toMyPhone.deviceSentMessage?.message?.conversation).toBe("hi");
+	});
+
+	test("distributes the sender key once per group device", async () => {
+		const { sender, sent, peers, auth } = await createSender([
+			RECIPIENT,
+			MY_PHONE,
+		]);
+
+		const message = create(MessageSchema, { conversation: "hello group" });
+		await sender.relayMessage(GROUP, message);
+		await sender.relayMessage(GROUP, message);
+
+		const [first, second] = sent as [BinaryNode, BinaryNode];
+		expect(first.attrs.to).toBe(GROUP);
+		expect(getBinaryNodeChild(first, "enc")?.attrs.type).toBe("skmsg");
+
+		const participants = getBinaryNodeChildren(
+			getBinaryNodeChild(first, "participants"),
+			"to",
+		);
+		expect(participants).toHaveLength(2);
+		const distribution = await decryptFor(
+			peers[RECIPIENT] as IAuthStateProvider,
+			participants[0] as BinaryNode,
+		);
+		expect(distribution.senderKeyDistributionMessage?.groupId).toBe(GROUP);
+
+		expect(getBinaryNodeChild(second, "participants")).toBeUndefined();
+		expect(getBinaryNodeChild(second, "enc")?.attrs.type).toBe("skmsg");
+
+		const memory = await auth.keys.get("sender-key-memory", [GROUP]);
+		expect(memory[GROUP]).toEqual({ [RECIPIENT]: true, [MY_PHONE]: true });
+	});
+
+	test("gives concurrent group sends their own chain iteration", async () => {
+		const { sender, sent } = await createSender([RECIPIENT, MY_PHONE]);
+
+		const message = create(MessageSchema, { conversation: "hello group" });
+		await Promise.all([
+			sender.relayMessage(GROUP, message),
+			sender.relayMessage(GROUP, message),
+		]);
+
+		const iterations = sent.map((stanza) => {
+			const skmsg = getBinaryNodeChild(stanza, "enc")?.content as Uint8Array;
+			return fromBinary(SenderKeyMessageSchema, skmsg.slice(1, -64)).iteration;
+		});
+		expect(iterations).toEqual([0, 1]);
+		expect(getBinaryNodeChild(sent[0], "participants")).toBeDefined();
+		expect(getBinaryNodeChild(sent[1], "participants")).toBeUndefined();
+	});
+
+	test("re-sends a cached message to the retrying device only", async () => {
+		const { sender, sent, peers, assertCalls } = await createSender([
+			RECIPIENT,
+			MY_PHONE,
+		]);
+
+		const message = create(MessageSchema, { conversation: "again" });
+		const { messageId } = await sender.relayMessage(RECIPIENT, message);
+		const result = await sender.resendMessage(messageId, RECIPIENT);
+
+		expect(result?.messageId).toBe(messageId);
+		expect(assertCalls.at(-1)).toEqual([[RECIPIENT], true]);
+
+		const retried = sent[1] as BinaryNode;
+		expect(retried.attrs).toMatchObject({
+			id: messageId,
+			to: RECIPIENT,
+			device_fanout: "false",
+		});
+		const participants = getBinaryNodeChildren(
+			getBinaryNodeChild(retried, "participants"),
+			"to",
+		);
+		expect(participants.map((p) => p.attrs.jid)).toEqual([RECIPIENT]);
+		expect(
+			(
+				await decryptFor(
+					peers[RECIPIENT] as IAuthStateProvider,
+					participants[0] as BinaryNode,
+				)
+			).conversation,
+		).toBe("again");
+
+		expect(await sender.resendMessage("unknown", RECIPIENT)).toBeUndefined();
+	});
+});
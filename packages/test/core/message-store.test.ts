@@ -0,0 +1,213 @@
+import { describe, expect, test } from "bun:test";
+import { create } from "@bufbuild/protobuf";
+import { MessageStore } from "@wha.ts/core/messaging/message-store";
+import { toWAMessage, type WAMessage } from "@wha.ts/core/messaging/wa-message";
+import { jidToSignalAddress } from "@wha.ts/core/signal/session-manager";
+import { MessageSchema } from "@wha.ts/proto";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { FakeConnection, FakeProcessor, silentLogger } from "../fakes";
+
+const CHAT = "222@s.whatsapp.net";
+
+async function createStore() {
+	const db = new InMemoryStorageDatabase();
+	const auth = await GenericAuthState.init(db);
+	auth.creds.me = { id: "111:3@s.whatsapp.net" };
+	const connection = new FakeConnection();
+	const processor = new FakeProcessor();
+	const store = new MessageStore(db, auth, silentLogger, connection, processor);
+	const decrypted = (message: WAMessage) =>
+		processor.emit("message.decrypted", {
+			message,
+			sender: jidToSignalAddress(message.key.remoteJid),
+			rawNode: { tag: "message", attrs: { id: message.key.id } },
+		});
+	const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+	return { store, db, auth, connection, decrypted, flush };
+}
+
+const incoming = (id: string, t: number, from = CHAT) =>
+	toWAMessage(
+		{ tag: "message", attrs: { id, from, t: t.toString() } },
+		create(MessageSchema, { conversation: `message ${id}` }),
+		"111:3@s.whatsapp.net",
+	);
+
+describe("MessageStore", () => {
+	test("stores received messages per chat and pages backwards", async () => {
+		const { store, decrypted, flush } = await createStore();
+
+		decrypted(incoming("M1", 100));
+		decrypted(incoming("M3", 300));
+		decrypted(incoming("M2", 200));
+		decrypted(incoming("G1", 150, "123-456@g.us"));
+		await flush();
+
+		const latest = await store.getMessages(CHAT, { limit: 2 });
+		expect(latest.map((m) => m.key.id)).toEqual(["M2", "M3"]);
+		const older = await store.getMessages(CHAT, {
+			before: { remoteJid: CHAT, id: "M2" },
+		});
+		expect(older.map((m) => m.key.id)).toEqual(["M1"]);
+		expect(older[0]?.content).toEqual({ type: "text", text: "message M1" });
+
+		const chats = await store.getChats();
+		expect(chats).toEqual([
+			{ jid: CHAT, lastMessageTimestamp: 300, unreadCount: 3 },
+			{ jid: "123-456@g.us", lastMessageTimestamp: 150, unreadCount: 1 },
+		]);
+	});
+
+	test("follows receipts for sent messages without moving backwards", async () => {
+		const { store, connection, flush } = await createStore();
+		await store.recordOutgoing(
+			CHAT,
+			"OUT1",
+			create(MessageSchema, { conversation: "hello" }),
+			true,
+		);
+		expect(
+			(await store.getMessage({ remoteJid: CHAT, id: "OUT1" }))?.status,
+		).toBe("server_ack");
+
+		connection.receive({
+			tag: "receipt",
+			attrs: { id: "OUT1", from: "222:1@s.whatsapp.net", type: "read" },
+		});
+		await flush();
+		connection.receive({
+			tag: "receipt",
+			attrs: { id: "OUT1", from: "222:1@s.whatsapp.net" },
+		});
+		await flush();
+
+		const stored = await store.getMessage({ remoteJid: CHAT, id: "OUT1" });
+		expect(stored?.status).toBe("read");
+		expect(stored?.key.fromMe).toBe(true);
+		expect(stored?.message.conversation).toBe("hello");
+		expect((await store.getChats())[0]?.unreadCount).toBe(0);
+	});
+
+	test("records messages sent to a device JID under the user", async () => {
+		const { store, connection, flush } = await createStore();
+		await store.recordOutgoing(
+			"222:5@s.whatsapp.net",
+			"OUT1",
+			create(MessageSchema, { conversation: "hello" }),
+			true,
+		);
+
+		connection.receive({
+			tag: "receipt",
+			attrs: { id: "OUT1", from: "222:5@s.whatsapp.net", type: "read" },
+		});
+		await flush();
+
+		const stored = await store.getMessage({ remoteJid: CHAT, id: "OUT1" });
+		expect(stored?.status).toBe("read");
+		expect((await store.getChats()).map((chat) => chat.jid)).toEqual([CHAT]);
+	});
+
+	test("clears unread counts when messages are read", async () => {
+		const { store, decrypted, flush } = await createStore();
+		decrypted(incoming("M1", 100));
+		decrypted(incoming("M2", 200));
+		await flush();
+
+		await store.updateStatus(
+			[
+				{ remoteJid: CHAT, id: "M1" },
+				{ remoteJid: CHAT, id: "M2" },
+			],
+			"read",
+		);
+		await store.updateStatus([{ remoteJid: CHAT, id: "M2" }], "played");
+
+		expect((await store.getChats())[0]?.unreadCount).toBe(0);
+		expect(
+			(await store.getMessage({ remoteJid: CHAT, id: "M2" }))?.status,
+		).toBe("played");
+	});
+
+	test("writes each chat once per batch upsert", async () => {
+		const { store, db } = await createStore();
+		const chats = db.getCollection<string>("chats");
+		const writes: string[] = [];
+		const set = chats.set.bind(chats);
+		chats.set = (key, value) => {
+			writes.push(key);
+			return set(key, value);
+		};
+
+		await store.upsertMessages([
+			{ message: incoming("M2", 200), status: "delivered" },
+			{ message: incoming("M1", 100), status: "read" },
+			{ message: incoming("M2", 200), status: "read" },
+			{ message: incoming("G1", 150, "123-456@g.us"), status: "delivered" },
+		]);
+
+		expect(writes.sort()).toEqual(["123-456@g.us", CHAT]);
+		const messages = await store.getMessages(CHAT);
+		expect(messages.map((m) => [m.key.id, m.status])).toEqual([
+			["M1", "read"],
+			["M2", "read"],
+		]);
+		expect((await store.getChats())[0]).toEqual({
+			jid: CHAT,
+			lastMessageTimestamp: 200,
+			unreadCount: 1,
+		});
+	});
+
+	test("pages across days without rewriting older ones", async () => {
+		const { store, db } = await createStore();
+		const DAY = 24 * 60 * 60;
+		await store.upsertMessages([
+			{ message: incoming("D1", DAY + 10), status: "delivered" },
+			{ message: incoming("D2", 2 * DAY + 10), status: "delivered" },
+			{ message: incoming("D3", 2 * DAY + 20), status: "delivered" },
+		]);
+
+		const index = db.getCollection<string>("message-index");
+		const writes: string[] = [];
+		const set = index.set.bind(index);
+		index.set = (key, value) => {
+			writes.push(key);
+			return set(key, value);
+		};
+		await store.upsertMessage(incoming("D4", 3 * DAY), "delivered");
+		expect(writes).toEqual([`${CHAT}:3`]);
+
+		const latest = await store.getMessages(CHAT, { limit: 3 });
+		expect(latest.map((m) => m.key.id)).toEqual(["D2", "D3", "D4"]);
+		const older = await store.getMessages(CHAT, {
+			before: { remoteJid: CHAT, id: "D3" },
+			limit: 2,
+		});
+		expect(older.map((m) => m.key.id)).toEqual(["D1", "D2"]);
+
+		const record = await db.getCollection<string>("chats").get(CHAT);
+		expect(record).not.toContain("D1");
+	});
+
+	test("persists through the storage database", async () => {
+		const { db, auth, decrypted, flush } = await createStore();
+		decrypted(incoming("M1", 100));
+		await flush();
+
+		const reopened = new MessageStore(
+			db,
+			auth,
+			silentLogger,
+			new FakeConnection(),
+			new FakeProcessor(),
+		);
+		const [message] = await reopened.getMessages(CHAT);
+		expect(message?.key).toEqual({
+			remoteJid: CHAT,
+			id: "M1",
+			fromMe: false,
+		});
+		expect(message?.status).toBe("delivered");
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import type { BinaryNode, SINGLE_BYTE_TOKENS_TYPE } from "@wha.ts/binary";
+import { Authenticator } from "@wha.ts/core/core/authenticator";
+import {
+	buildCompanionFinish,
+	generatePairingCode,
+	isValidPairingCode,
+	unwrapEphemeralKey,
+	wrapEphemeralKey,
+} from "@wha.ts/core/core/pairing-code";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { aesDecryptGCM, Curve, concatBytes, hkdf } from "@wha.ts/utils";
+import { FakeConnection, silentLogger } from "../fakes";
+
+const pairDevice = (id: string): BinaryNode => ({
+	tag: "iq",
+	attrs: { id, from: "s.whatsapp.net", type: "set" },
+	content: [
+		{
+			tag: "pair-device" as SINGLE_BYTE_TOKENS_TYPE,
+			attrs: {},
+			content: [
+				{
+					tag: "ref" as SINGLE_BYTE_TOKENS_TYPE,
+					attrs: {},
+					content: new Uint8Array([1, 2]),
+				},
+			],
+		},
+	],
+});
+
+describe("pairing code", () => {
+	test("generates eight unambiguous characters", () => {
+		for (let i = 0; i < 20; i++) {
+			const code = generatePairingCode();
+			expect(code).toMatch(/^[1-9A-HJ-NP-TV-Z]{8}$/);
+			expect(isValidPairingCode(code)).toBe(true);
+		}
+		expect(isValidPairingCode("ABCD0FGH")).toBe(false);
+		expect(isValidPairingCode("ABCDEFG")).toBe(false);
+	});
+
+	test("completes the exchange with a simulated primary device", async () => {
+		const code = generatePairingCode();
+		const companionEphemeral = Curve.generateKeyPair();
+		const identity = Curve.generateKeyPair();
+		const primaryEphemeral = Curve.generateKeyPair();
+		const primaryIdentity = Curve.generateKeyPair();
+
+		// The phone unwraps our ephemeral key with the code the user typed.
+		const wrappedCompanion = await wrapEphemeralKey(
+			code,
+			companionEphemeral.publicKey,
+		);
+		expect(await unwrapEphemeralKey(code, wrappedCompanion)).toEqual(
+			companionEphemeral.publicKey,
+		);
+
+		const { wrappedKeyBundle, advSecretKey } = await buildCompanionFinish({
+			code,
+			companionEphemeral,
+			identity,
+			primaryIdentityPublicKey: primaryIdentity.publicKey,
+			wrappedPrimaryEphemeral: await wrapEphemeralKey(
+				code,
+				primaryEphemeral.publicKey,
+			),
+		});
+
+		const companionSharedKey = Curve.sharedKey(
+			primaryEphemeral.privateKey,
+			companionEphemeral.publicKey,
+		);
+		const bundleKey = hkdf(companionSharedKey, 32, {
+			salt: wrappedKeyBundle.slice(0, 32),
+			info: "link_code_pairing_key_bundle_encryption_key",
+		});
+		const bundle = aesDecryptGCM(
+			wrappedKeyBundle.slice(44),
+			bundleKey,
+			wrappedKeyBundle.slice(32, 44),
+			new Uint8Array(),
+		);
+		expect(identity.publicKey).toEqual(bundle.slice(0, 32));
+		expect(primaryIdentity.publicKey).toEqual(bundle.slice(32, 64));
+
+		const identitySharedKey = Curve.sharedKey(
+			primaryIdentity.privateKey,
+			identity.publicKey,
+		);
+		expect(
+			hkdf(
+				concatBytes(companionSharedKey, identitySharedKey, bundle.slice(64)),
+				32,
+				{ info: "adv_secret" },
+			),
+		).toEqual(advSecretKey);
+	});
+
+	test("shows QR codes again once a pairing code login failed", async () => {
+		const connection = new FakeConnection();
+		const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+		const authenticator = new Authenticator(connection, auth, silentLogger, {
+			sendNode: async () => {},
+			closeConnection: async () => {},
+		});
+		const qrs: string[] = [];
+		authenticator.addEventListener("connection.update", (event) => {
+			if (event.detail.qr) qrs.push(event.detail.qr);
+		});
+
+		await authenticator.requestPairingCode("+1 555 0100");
+		connection.receive(pairDevice("1"));
+		expect(qrs).toHaveLength(0);
+
+		// The phone's answer lacks its keys, which ends the pairing code login.
+		connection.receive({
+			tag: "notification",
+			attrs: { type: "link_code_companion_reg" },
+			content: [{ tag: "link_code_companion_reg", attrs: {}, content: [] }],
+		});
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(auth.creds.pairingCode).toBeUndefined();
+
+		connection.receive(pairDevice("2"));
+		expect(qrs).toHaveLength(1);
+		connection.emit("ws.close", { code: 1000, reason: "" });
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { type BinaryNode, encodeBinaryNode } from "@wha.ts/binary";
+import { ErrorWithStatusCode, QueryError } from "@wha.ts/core";
+import { ConnectionManager } from "@wha.ts/core/core/connection";
+import { DisconnectReason } from "@wha.ts/core/defaults";
+import { MessageProcessor } from "@wha.ts/core/messaging/message-processor";
+import { SignalProtocolStoreAdapter } from "@wha.ts/core/signal/signal-store";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { utf8ToBytes } from "@wha.ts/utils";
+import { silentLogger } from "../fakes";
+
+/** Private members driven directly so no socket is needed. */
+type ConnectionInternals = {
+	state: string;
+	handleDecryptedFrame(payload: Uint8Array): Promise<void>;
+	handleWsClose(code: number, reason: Uint8Array): void;
+};
+
+async function createOpenConnection() {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const signalStore = new SignalProtocolStoreAdapter(auth, silentLogger);
+	const processor = new MessageProcessor(
+		silentLogger,
+		signalStore,
+		auth.keys,
+		auth,
+	);
+	const connection = new ConnectionManager(
+		{ url: new URL("ws://localhost"), defaultQueryTimeoutMs: 50 },
+		silentLogger,
+		auth.creds,
+		processor,
+	);
+	const internals = connection as unknown as ConnectionInternals;
+	internals.state = "open";
+
+	const sent: BinaryNode[] = [];
+	connection.sendNode = async (node) => {
+		sent.push(node);
+	};
+	const receive = (node: BinaryNode) =>
+		internals.handleDecryptedFrame(encodeBinaryNode(node));
+
+	return { connection, internals, sent, receive };
+}
+
+describe("ConnectionManager.query", () => {
+	test("resolves with the iq result matching the generated id", async () => {
+		const { connection, sent, receive } = await createOpenConnection();
+
+		const pending = connection.query({
+			tag: "iq",
+			attrs: { type: "get", xmlns: "encrypt", to: "s.whatsapp.net" },
+		});
+		await Promise.resolve();
+
+		const id = sent[0]?.attrs.id;
+		expect(id).toBeDefined();
+
+		await receive({ tag: "iq", attrs: { id: "unrelated", type: "result" } });
+		await receive({ tag: "iq", attrs: { id: id as string, type: "result" } });
+
+		const response = await pending;
+		expect(response.attrs.id).toBe(id as string);
+	});
+
+	test("rejects with QueryError on an error response", async () => {
+		const { connection, receive } = await createOpenConnection();
+
+		const pending = connection.query({
+			tag: "iq",
+			attrs: { id: "q-1", type: "set", xmlns: "encrypt" },
+		});
+		await Promise.resolve();
+		await receive({
+			tag: "iq",
+			attrs: { id: "q-1", type: "error" },
+			content: [
+				{ tag: "error", attrs: { code: "406", text: "not-acceptable" } },
+			],
+		});
+
+		const error = await pending.catch((err) => err);
+		expect(error).toBeInstanceOf(QueryError);
+		expect(error.code).toBe(406);
+		expect(error.text).toBe("not-acceptable");
+	});
+
+	test("rejects with QueryError on an ack carrying an error", async () => {
+		const { connection, receive } = await createOpenConnection();
+
+		const pending = connection.query({
+			tag: "message",
+			attrs: { id: "m-1", to: "123@s.whatsapp.net" },
+		});
+		await Promise.resolve();
+		await receive({
+			tag: "ack",
+			attrs: { id: "m-1", class: "message", error: "479" },
+		});
+
+		const error = await pending.catch((err) => err);
+		expect(error).toBeInstanceOf(QueryError);
+		expect(error.code).toBe(479);
+	});
+
+	test("times out using the configured default", async () => {
+		const { connection } = await createOpenConnection();
+
+		const error = await connection
+			.query({ tag: "iq", attrs: { type: "get" } })
+			.catch((err) => err);
+		expect(error).toBeInstanceOf(ErrorWithStatusCode);
+		expect(error.statusCode).toBe(DisconnectReason.timedOut);
+	});
+
+	test("fails in-flight queries when the socket closes", async () => {
+		const { connection, internals } = await createOpenConnection();
+
+		const pending = connection.query(
+			{ tag: "iq", attrs: { type: "get" } },
+			{ timeoutMs: 5_000 },
+		);
+		await Promise.resolve();
+		internals.handleWsClose(1006, utf8ToBytes("gone"));
+
+		const error = await pending.catch((err) => err);
+		expect(error).toBeInstanceOf(ErrorWithStatusCode);
+		expect(error.statusCode).toBe(DisconnectReason.connectionClosed);
+	});
+
+	test("rethrows the send error when the socket closes mid-send", async () => {
+		const { connection, internals } = await createOpenConnection();
+		const unhandled: unknown[] = [];
+		const onUnhandled = (reason: unknown) => unhandled.push(reason);
+		process.on("unhandledRejection", onUnhandled);
+
+		connection.sendNode = async () => {
+			internals.handleWsClose(1006, utf8ToBytes("gone"));
+			throw new Error("socket closed");
+		};
+		const error = await connection
+			.query({ tag: "iq", attrs: { type: "get" } }, { timeoutMs: 5_000 })
+			.catch((err) => err);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		process.off("unhandledRejection", onUnhandled);
+
+		expect(error.message).toBe("socket closed");
+		expect(unhandled).toEqual([]);
+	});
+});
@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild, getBinaryNodeChildren } from "@wha.ts/binary";
+import type { MessageProcessingResult } from "@wha.ts/core/messaging/message-processor";
+import {
+	buildReceiptNode,
+	ReceiptManager,
+} from "@wha.ts/core/messaging/receipts";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { FakeConnection, FakeProcessor, silentLogger } from "../fakes";
+
+async function createManager(sendReadReceipts?: boolean) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	auth.creds.me = { id: "111:3@s.whatsapp.net" };
+	const connection = new FakeConnection();
+	const processor = new FakeProcessor();
+	const manager = new ReceiptManager(
+		auth,
+		silentLogger,
+		connection,
+		processor,
+		{ sendReadReceipts },
+	);
+	const processed = (rawNode: BinaryNode, result: MessageProcessingResult) =>
+		processor.emit("message.processed", { ...result, rawNode });
+	const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+	return { manager, processed, sent: connection.sent, flush };
+}
+
+describe("buildReceiptNode", () => {
+	test("puts additional ids in a list", () => {
+		const node = buildReceiptNode({
+			jid: "222@s.whatsapp.net",
+			messageIds: ["A", "B", "C"],
+			type: "read",
+		});
+
+		expect(node.attrs).toMatchObject({
+			id: "A",
+			to: "222@s.whatsapp.net",
+			type: "read",
+		});
+		expect(node.attrs.t).toBeDefined();
+		const items = getBinaryNodeChildren(
+			getBinaryNodeChild(node, "list"),
+			"item",
+		);
+		expect(items.map((item) => item.attrs.id)).toEqual(["B", "C"]);
+	});
+
+	test("omits the list and type for a single delivery receipt", () => {
+		const node = buildReceiptNode({
+			jid: "222@s.whatsapp.net",
+			messageIds: ["A"],
+		});
+
+		expect(node.attrs).toEqual({ id: "A", to: "222@s.whatsapp.net" });
+		expect(node.content).toBeUndefined();
+	});
+});
+
+describe("ReceiptManager", () => {
+	test("sends a delivery receipt with the participant for group messages", async () => {
+		const { processed, sent, flush } = await createManager();
+
+		processed(
+			{
+				tag: "message",
+				attrs: {
+					id: "MSG1",
+					from: "123-456@g.us",
+					participant: "222:1@s.whatsapp.net",
+				},
+			},
+			{ status: "decrypted" },
+		);
+		await flush();
+
+		expect(sent).toHaveLength(1);
+		expect(sent[0]?.attrs).toEqual({
+			id: "MSG1",
+			to: "123-456@g.us",
+			participant: "222:1@s.whatsapp.net",
+		});
+	});
+
+	test("sends no delivery receipt when decryption failed", async () => {
+		const { processed, sent, flush } = await createManager();
+
+		processed(
+			{ tag: "message", attrs: { id: "MSG1", from: "222@s.whatsapp.net" } },
+			{ status: "failed", error: new Error("boom") },
+		);
+		await flush();
+
+		expect(sent).toHaveLength(0);
+	});
+
+	test("addresses messages from our other devices with a sender receipt", async () => {
+		const { processed, sent, flush } = await createManager();
+
+		processed(
+			{
+				tag: "message",
+				attrs: {
+					id: "MSG1",
+					from: "111:5@s.whatsapp.net",
+					recipient: "222@s.whatsapp.net",
+				},
+			},
+			{ status: "decrypted" },
+		);
+		await flush();
+
+		expect(sent[0]?.attrs).toEqual({
+			id: "MSG1",
+			to: "111:5@s.whatsapp.net",
+			recipient: "222@s.whatsapp.net",
+			type: "sender",
+		});
+	});
+
+	test("batches read receipts per chat and skips our own messages", async () => {
+		const { manager, sent } = await createManager();
+
+		await manager.readMessages([
+			{ remoteJid: "222@s.whatsapp.net", id: "A" },
+			{ remoteJid: "222@s.whatsapp.net", id: "B" },
+			{ remoteJid: "222@s.whatsapp.net", id: "C", fromMe: true },
+			{
+				remoteJid: "123-456@g.us",
+				id: "D",
+				participant: "333@s.whatsapp.net",
+			},
+		]);
+
+		expect(sent).toHaveLength(2);
+		expect(sent[0]?.attrs).toMatchObject({
+			id: "A",
+			to: "222@s.whatsapp.net",
+			type: "read",
+		});
+		expect(
+			getBinaryNodeChildren(getBinaryNodeChild(sent[0], "list"), "item").map(
+				(item) => item.attrs.id,
+			),
+		).toEqual(["B"]);
+		expect(sent[1]?.attrs).toMatchObject({
+			id: "D",
+			to: "123-456@g.us",
+			participant: "333@s.whatsapp.net",
+		});
+	});
+
+	test("sends read-self receipts when read receipts are disabled", async () => {
+		const { manager, sent } = await createManager(false);
+
+		await manager.readMessages([{ remoteJid: "222@s.whatsapp.net", id: "A" }]);
+
+		expect(sent[0]?.attrs.type).toBe("read-self");
+	});
+});
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import { createWAClient } from "@wha.ts/core";
+import type { ConnectionUpdatePayload } from "@wha.ts/core/core/authenticator-events";
+import type { ConnectionState } from "@wha.ts/core/core/connection-events";
+import {
+	classifyDisconnect,
+	ReconnectController,
+	type ReconnectPolicy,
+} from "@wha.ts/core/core/reconnect";
+import { ErrorWithStatusCode } from "@wha.ts/core/core/types";
+import { DisconnectReason } from "@wha.ts/core/defaults";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { FakeConnection, silentLogger } from "../fakes";
+
+const withStatus = (statusCode: DisconnectReason) => {
+	const error = new ErrorWithStatusCode("closed");
+	error.statusCode = statusCode;
+	return error;
+};
+
+/** Closes the fake connection the way a dropped socket would. */
+const drop = (connection: FakeConnection, statusCode?: DisconnectReason) => {
+	const error = new ErrorWithStatusCode("Connection closed");
+	error.statusCode = statusCode;
+	connection.setState("closed", error);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createController(policy: ReconnectPolicy = {}) {
+	const connection = new FakeConnection();
+	const controller = new ReconnectController(connection, silentLogger, {
+		initialDelayMs: 5,
+		jitter: 0,
+		...policy,
+	});
+	const updates: ConnectionUpdatePayload[] = [];
+	controller.addEventListener("connection.update", (event) => {
+		updates.push(event.detail);
+	});
+	return { connection, controller, updates };
+}
+
+describe("classifyDisconnect", () => {
+	test("groups status codes by how to react to them", () => {
+		expect(
+			classifyDisconnect(withStatus(DisconnectReason.restartRequired)),
+		).toBe("restartRequired");
+		expect(classifyDisconnect(withStatus(DisconnectReason.loggedOut))).toBe(
+			"loggedOut",
+		);
+		expect(
+			classifyDisconnect(withStatus(DisconnectReason.connectionReplaced)),
+		).toBe("connectionReplaced");
+		expect(classifyDisconnect(withStatus(DisconnectReason.badSession))).toBe(
+			"badSession",
+		);
+		expect(
+			classifyDisconnect(withStatus(DisconnectReason.connectionClosed)),
+		).toBe("connectionLost");
+		expect(classifyDisconnect(new Error("socket hang up"))).toBe(
+			"connectionLost",
+		);
+	});
+});
+
+describe("ReconnectController", () => {
+	test("backs off exponentially and gives up after maxAttempts", async () => {
+		const { connection, updates } = createController({ maxAttempts: 2 });
+
+		drop(connection, DisconnectReason.connectionLost);
+		await sleep(10);
+		expect(connection.reconnects).toBe(1);
+		drop(connection, DisconnectReason.connectionLost);
+		await sleep(20);
+		expect(connection.reconnects).toBe(2);
+		drop(connection, DisconnectReason.connectionLost);
+		await sleep(30);
+		expect(connection.reconnects).toBe(2);
+
+		const closes = updates.filter((update) => update.connection === "close");
+		expect(
+			closes.map(({ lastDisconnect }) => [
+				lastDisconnect?.reason,
+				lastDisconnect?.willReconnect,
+				lastDisconnect?.attempt,
+				lastDisconnect?.delayMs,
+			]),
+		).toEqual([
+			["connectionLost", true, 1, 5],
+			["connectionLost", true, 2, 10],
+			["connectionLost", false, 2, undefined],
+		]);
+		expect(closes[0]?.statusCode).toBe(DisconnectReason.connectionLost);
+	});
+
+	test("never reconnects after being logged out", async () => {
+		const { connection, updates } = createController();
+
+		drop(connection, DisconnectReason.loggedOut);
+		await sleep(10);
+
+		expect(connection.reconnects).toBe(0);
+		expect(updates[0]?.lastDisconnect).toMatchObject({
+			reason: "loggedOut",
+			willReconnect: false,
+		});
+	});
+
+	test("restarts immediately and resets attempts once open", async () => {
+		const { connection, updates } = createController({ initialDelayMs: 1000 });
+
+		drop(connection, DisconnectReason.restartRequired);
+		await sleep(0);
+		expect(connection.reconnects).toBe(1);
+
+		connection.setState("open");
+		drop(connection, DisconnectReason.restartRequired);
+		await sleep(0);
+		expect(connection.reconnects).toBe(2);
+		expect(
+			updates
+				.filter((update) => update.connection === "close")
+				.map((update) => update.lastDisconnect?.attempt),
+		).toEqual([1, 1]);
+	});
+
+	test("stops a pending attempt when the signal aborts", async () => {
+		const abort = new AbortController();
+		const { connection } = createController({ signal: abort.signal });
+
+		drop(connection);
+		abort.abort();
+		await sleep(10);
+		drop(connection);
+		await sleep(10);
+
+		expect(connection.reconnects).toBe(0);
+	});
+});
+
+describe("WAClient with a reconnect policy", () => {
+	test("reports a single close per dropped connection", async () => {
+		const abort = new AbortController();
+		const client = createWAClient({
+			auth: await GenericAuthState.init(new InMemoryStorageDatabase()),
+			logger: silentLogger,
+			wsOptions: { url: new URL("ws://localhost"), keepAliveIntervalMs: 0 },
+			reconnect: { initialDelayMs: 60_000, signal: abort.signal },
+		});
+		const internals = client as unknown as {
+			connectionManager: {
+				setState(state: ConnectionState): void;
+				handleWsClose(code: number, reason: Uint8Array): void;
+			};
+		};
+		const closes: ConnectionUpdatePayload[] = [];
+		client.addEventListener("connection.update", (event) => {
+			if (event.detail.connection === "close") {
+				closes.push(event.detail);
+			}
+		});
+
+		internals.connectionManager.setState("open");
+		internals.connectionManager.handleWsClose(1006, new Uint8Array(0));
+		abort.abort();
+
+		expect(closes).toHaveLength(1);
+		expect(closes[0]?.lastDisconnect).toMatchObject({
+			reason: "connectionLost",
+			willReconnect: true,
+		});
+	});
+});
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import type { BinaryNode } from "@wha.ts/binary";
+import { getBinaryNodeChild, getBinaryNodeChildBuffer } from "@wha.ts/binary";
+import type { MessageProcessingResult } from "@wha.ts/core/messaging/message-processor";
+import { RetryManager } from "@wha.ts/core/messaging/retry-manager";
+import { PreKeyManager } from "@wha.ts/core/prekeys";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { decodeBigEndian } from "@wha.ts/utils";
+import { FakeConnection, FakeProcessor, silentLogger } from "../fakes";
+
+async function createManager(maxRetries = 2) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	auth.creds.me = { id: "111:3@s.whatsapp.net" };
+	auth.creds.account = {
+		details: new Uint8Array([1]),
+		accountSignatureKey: new Uint8Array(32),
+		accountSignature: new Uint8Array(64),
+		deviceSignature: new Uint8Array(64),
+	};
+	const connection = new FakeConnection();
+	const processor = new FakeProcessor();
+	const resent: [string, string][] = [];
+	const sender = {
+		resendMessage: async (messageId: string, deviceJid: string) => {
+			resent.push([messageId, deviceJid]);
+			return { messageId };
+		},
+	};
+	const manager = new RetryManager(
+		auth,
+		silentLogger,
+		connection,
+		processor,
+		sender,
+		new PreKeyManager(auth, silentLogger, connection),
+		maxRetries,
+	);
+	const processed = (rawNode: BinaryNode, result: MessageProcessingResult) =>
+		processor.emit("message.processed", { ...result, rawNode });
+	const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+	return { manager, auth, connection, processed, resent, flush };
+}
+
+const failedMessage: BinaryNode = {
+	tag: "message",
+	attrs: {
+		id: "MSG1",
+		from: "123-456@g.us",
+		participant: "222:1@s.whatsapp.net",
+		t: "1700000000",
+	},
+};
+
+describe("RetryManager", () => {
+	test("requests a failed message again with a fresh key bundle", async () => {
+		const { auth, connection, processed, flush } = await createManager();
+		const nextPreKeyId = auth.creds.nextPreKeyId;
+
+		processed(failedMessage, {
+			status: "failed",
+			error: new Error("No session"),
+		});
+		await flush();
+
+		const [receipt] = connection.sent as [BinaryNode];
+		expect(receipt.attrs).toEqual({
+			id: "MSG1",
+			type: "retry",
+			to: "123-456@g.us",
+			participant: "222:1@s.whatsapp.net",
+		});
+		expect(getBinaryNodeChild(receipt, "retry")?.attrs).toEqual({
+			count: "1",
+			id: "MSG1",
+			v: "1",
+			t: "1700000000",
+		});
+		const registration = getBinaryNodeChildBuffer(receipt, "registration");
+		expect(decodeBigEndian(registration as Uint8Array, 4)).toBe(
+			auth.creds.registrationId,
+		);
+
+		const keys = getBinaryNodeChild(receipt, "keys")?.content as BinaryNode[];
+		expect(keys.map((node) => node.tag)).toEqual([
+			"type",
+			"identity",
+			"key",
+			"skey",
+			"device-identity",
+		]);
+		expect(auth.creds.nextPreKeyId).toBe(nextPreKeyId + 1);
+		const stored = await auth.keys.get("pre-key", [nextPreKeyId.toString()]);
+		expect(stored[nextPreKeyId.toString()]).toBeDefined();
+	});
+
+	test("stops requesting after the retry limit", async () => {
+		const { connection, processed, flush } = await createManager(2);
+
+		for (let i = 0; i < 3; i++) {
+			processed(failedMessage, {
+				status: "failed",
+				error: new Error("No session"),
+			});
+			await flush();
+		}
+
+		expect(
+			connection.sent.map(
+				(node) => getBinaryNodeChild(node, "retry")?.attrs.count,
+			),
+		).toEqual(["1", "2"]);
+	});
+
+	test("re-sends every message named in an incoming retry receipt", async () => {
+		const { connection, resent, flush } = await createManager();
+
+		connection.receive({
+			tag: "receipt",
+			attrs: {
+				id: "OUT1",
+				from: "123-456@g.us",
+				participant: "222:1@s.whatsapp.net",
+				type: "retry",
+			},
+			content: [
+				{ tag: "retry", attrs: { count: "1", id: "OUT1", v: "1" } },
+				{
+					tag: "list",
+					attrs: {},
+					content: [{ tag: "item", attrs: { id: "OUT2" } }],
+				},
+			],
+		});
+		await flush();
+
+		expect(resent).toEqual([
+			["OUT1", "222:1@s.whatsapp.net"],
+			["OUT2", "222:1@s.whatsapp.net"],
+		]);
+		expect(connection.sent).toHaveLength(0);
+	});
+
+	test("ignores retry receipts past the retry limit", async () => {
+		const { connection, resent, flush } = await createManager(2);
+
+		connection.receive({
+			tag: "receipt",
+			attrs: { id: "OUT1", from: "222@s.whatsapp.net", type: "retry" },
+			content: [{ tag: "retry", attrs: { count: "3", id: "OUT1", v: "1" } }],
+		});
+		await flush();
+
+		expect(resent).toHaveLength(0);
+	});
+});
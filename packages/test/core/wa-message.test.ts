@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { create } from "@bufbuild/protobuf";
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	getText,
+	normalizeMessageContent,
+	toWAMessage,
+} from "@wha.ts/core/messaging/wa-message";
+import {
+	Message_DeviceSentMessageSchema,
+	Message_FutureProofMessageSchema,
+	Message_ImageMessageSchema,
+	Message_ProtocolMessage_Type,
+	Message_ProtocolMessageSchema,
+	MessageKeySchema,
+	MessageSchema,
+} from "@wha.ts/proto";
+
+const ME = "111:3@s.whatsapp.net";
+
+const messageNode = (attrs: Record<string, string>): BinaryNode => ({
+	tag: "message",
+	attrs: { id: "MSG1", t: "1700000000", ...attrs },
+});
+
+describe("toWAMessage", () => {
+	test("keys direct messages by the sender's user jid", () => {
+		const message = toWAMessage(
+			messageNode({ from: "222:1@s.whatsapp.net", notify: "Bob" }),
+			create(MessageSchema, { conversation: "hi" }),
+			ME,
+		);
+
+		expect(message.key).toEqual({
+			remoteJid: "222@s.whatsapp.net",
+			id: "MSG1",
+			fromMe: false,
+		});
+		expect(message.timestamp).toBe(1700000000);
+		expect(message.pushName).toBe("Bob");
+		expect(message.content).toEqual({ type: "text", text: "hi" });
+		expect(getText(message)).toBe("hi");
+	});
+
+	test("flags messages delivered from the offline queue", () => {
+		const live = toWAMessage(
+			messageNode({ from: "222@s.whatsapp.net" }),
+			create(MessageSchema, { conversation: "now" }),
+			ME,
+		);
+		const queued = toWAMessage(
+			messageNode({ from: "222@s.whatsapp.net", offline: "1" }),
+			create(MessageSchema, { conversation: "earlier" }),
+			ME,
+		);
+
+		expect(live.offline).toBeUndefined();
+		expect(queued.offline).toBe(true);
+	});
+
+	test("keys group messages by group and participant", () => {
+		const message = toWAMessage(
+			messageNode({
+				from: "123-456@g.us",
+				participant: "111:5@s.whatsapp.net",
+			}),
+			create(MessageSchema, { conversation: "from my phone" }),
+			ME,
+		);
+
+		expect(message.key).toEqual({
+			remoteJid: "123-456@g.us",
+			id: "MSG1",
+			fromMe: true,
+			participant: "111@s.whatsapp.net",
+		});
+	});
+
+	test("unwraps messages our other devices sent", () => {
+		const message = toWAMessage(
+			messageNode({ from: "111:0@s.whatsapp.net" }),
+			create(MessageSchema, {
+				deviceSentMessage: create(Message_DeviceSentMessageSchema, {
+					destinationJid: "222@s.whatsapp.net",
+					message: create(MessageSchema, { conversation: "synced" }),
+				}),
+			}),
+			ME,
+		);
+
+		expect(message.key.fromMe).toBe(true);
+		expect(message.key.remoteJid).toBe("222@s.whatsapp.net");
+		expect(getText(message)).toBe("synced");
+	});
+
+	test("reads captions through view once and ephemeral wrappers", () => {
+		const image = create(MessageSchema, {
+			imageMessage: create(Message_ImageMessageSchema, {
+				caption: "look",
+				mimetype: "image/jpeg",
+			}),
+		});
+		const wrapped = create(MessageSchema, {
+			ephemeralMessage: create(Message_FutureProofMessageSchema, {
+				message: create(MessageSchema, {
+					viewOnceMessageV2: create(Message_FutureProofMessageSchema, {
+						message: image,
+					}),
+				}),
+			}),
+		});
+
+		const message = toWAMessage(
+			messageNode({ from: "222@s.whatsapp.net" }),
+			wrapped,
+			ME,
+		);
+
+		expect(normalizeMessageContent(wrapped)).toBe(image);
+		expect(message.content).toEqual({
+			type: "image",
+			mimetype: "image/jpeg",
+			caption: "look",
+		});
+		expect(getText(message)).toBe("look");
+	});
+
+	test("maps edits and revokes to the targeted key", () => {
+		const key = create(MessageKeySchema, {
+			remoteJid: "222@s.whatsapp.net",
+			fromMe: false,
+			id: "OLD",
+		});
+		const edit = toWAMessage(
+			messageNode({ from: "222@s.whatsapp.net" }),
+			create(MessageSchema, {
+				protocolMessage: create(Message_ProtocolMessageSchema, {
+					key,
+					type: Message_ProtocolMessage_Type.MESSAGE_EDIT,
+					editedMessage: create(MessageSchema, { conversation: "fixed" }),
+				}),
+			}),
+			ME,
+		);
+		const revoke = toWAMessage(
+			messageNode({ from: "222@s.whatsapp.net" }),
+			create(MessageSchema, {
+				protocolMessage: create(Message_ProtocolMessageSchema, {
+					key,
+					type: Message_ProtocolMessage_Type.REVOKE,
+				}),
+			}),
+			ME,
+		);
+
+		expect(edit.content).toEqual({
+			type: "edit",
+			key: { remoteJid: "222@s.whatsapp.net", id: "OLD", fromMe: false },
+			text: "fixed",
+		});
+		expect(getText(edit)).toBe("fixed");
+		expect(revoke.content.type).toBe("delete");
+		expect(getText(revoke)).toBeUndefined();
+	});
+});
@@ -0,0 +1,697 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import {
+	type BinaryNode,
+	decodeBinaryNode,
+	encodeBinaryNode,
+	getBinaryNodeChild,
+	getBinaryNodeChildBuffer,
+	getBinaryNodeChildren,
+	jidDecode,
+	jidEncode,
+	S_WHATSAPP_NET,
+} from "@wha.ts/binary";
+import type { TransportFactory, WebSocketConfig } from "@wha.ts/core";
+import { NOISE_MODE, NOISE_WA_HEADER } from "@wha.ts/core/defaults";
+import {
+	ADVDeviceIdentitySchema,
+	CertChain_NoiseCertificate_DetailsSchema,
+	CertChainSchema,
+	type ClientPayload,
+	ClientPayloadSchema,
+	HandshakeMessageSchema,
+} from "@wha.ts/proto";
+import type { AuthenticationCreds } from "@wha.ts/types";
+import {
+	aesDecryptGCM,
+	aesEncryptGCM,
+	Curve,
+	concatBytes,
+	hkdf,
+	KEY_BUNDLE_TYPE,
+	type KeyPair,
+	sha256,
+	utf8ToBytes,
+} from "@wha.ts/utils";
+import { type InMemoryPeer, InMemoryTransport } from "./in-memory-transport";
+
+interface UploadedKeys {
+	registration: Uint8Array;
+	identity: Uint8Array;
+	signedPreKey: BinaryNode;
+	preKeys: BinaryNode[];
+}
+
+interface Device {
+	jid: string;
+	connection?: ServerConnection;
+	keys?: UploadedKeys;
+	/** Stanzas that arrived while the device was offline. */
+	pending: BinaryNode[];
+}
+
+const unixTime = () => Math.floor(Date.now() / 1000).toString();
+
+const normalizeJid = (jid: string): string => {
+	const decoded = jidDecode(jid);
+	return jidEncode(decoded?.user, decoded?.server, decoded?.device);
+};
+
+/** An intermediate certificate signed by `root`, and a leaf for `serverKey`. */
+const buildCertChain = (root: KeyPair, serverKey: Uint8Array): Uint8Array => {
+	const intermediate = Curve.generateKeyPair();
+	const details = (serial: number, issuerSerial: number, key: Uint8Array) =>
+		toBinary(
+			CertChain_NoiseCertificate_DetailsSchema,
+			create(CertChain_NoiseCertificate_DetailsSchema, {
+				serial,
+				issuerSerial,
+				key,
+			}),
+		);
+	const intermediateDetails = details(1, 0, intermediate.publicKey);
+	const leafDetails = details(2, 1, serverKey);
+
+	return toBinary(
+		CertChainSchema,
+		create(CertChainSchema, {
+			intermediate: {
+				details: intermediateDetails,
+				signature: Curve.sign(root.privateKey, intermediateDetails),
+			},
+			leaf: {
+				details: leafDetails,
+				signature: Curve.sign(intermediate.privateKey, leafDetails),
+			},
+		}),
+	);
+};
+
+const generateIV = (counter: bigint): Uint8Array => {
+	const iv = new Uint8Array(12);
+	new DataView(iv.buffer).setBigUint64(4, counter, false);
+	return iv;
+};
+
+/** The responder half of the Noise XX handshake the client runs. */
+class NoiseResponder {
+	readonly ephemeral = Curve.generateKeyPair();
+	private hash: Uint8Array;
+	private salt: Uint8Array;
+	private key: Uint8Array;
+	private counter = 0n;
+	private transport?: {
+		readKey: Uint8Array;
+		writeKey: Uint8Array;
+		readCounter: bigint;
+		writeCounter: bigint;
+	};
+
+	constructor(private clientEphemeral: Uint8Array) {
+		const mode = utf8ToBytes(NOISE_MODE);
+		this.hash = mode;
+		this.salt = mode;
+		this.key = mode;
+		this.mixHash(NOISE_WA_HEADER);
+		this.mixHash(clientEphemeral);
+	}
+
+	/** Builds the ServerHello: our ephemeral, static key and certificates. */
+	respond(staticKeyPair: KeyPair, certChain: Uint8Array) {
+		this.mixHash(this.ephemeral.publicKey);
+		this.mixKeys(
+			Curve.sharedKey(this.ephemeral.privateKey, this.clientEphemeral),
+		);
+		const encryptedStatic = this.encrypt(staticKeyPair.publicKey);
+		this.mixKeys(
+			Curve.sharedKey(staticKeyPair.privateKey, this.clientEphemeral),
+		);
+		return {
+			ephemeral: this.ephemeral.publicKey,
+			static: encryptedStatic,
+			payload: this.encrypt(certChain),
+		};
+	}
+
+	/** Reads the ClientFinish and switches to transport keys. */
+	finish(encryptedStatic: Uint8Array, encryptedPayload: Uint8Array) {
+		const clientStatic = this.decrypt(encryptedStatic);
+		this.mixKeys(Curve.sharedKey(this.ephemeral.privateKey, clientStatic));
+		const payload = this.decrypt(encryptedPayload);
+
+		const keys = hkdf(new Uint8Array(0), 64, { salt: this.salt, info: "" });
+		this.transport = {
+			readKey: keys.subarray(0, 32),
+			writeKey: keys.subarray(32),
+			readCounter: 0n,
+			writeCounter: 0n,
+		};
+		return { clientStatic, payload };
+	}
+
+	encryptFrame(plaintext: Uint8Array): Uint8Array {
+		const transport = this.requireTransport();
+		return aesEncryptGCM(
+			plaintext,
+			transport.writeKey,
+			generateIV(transport.writeCounter++),
+			new Uint8Array(0),
+		);
+	}
+
+	decryptFrame(ciphertext: Uint8Array): Uint8Array {
+		const transport = this.requireTransport();
+		return aesDecryptGCM(
+			ciphertext,
+			transport.readKey,
+			generateIV(transport.readCounter++),
+			new Uint8Array(0),
+		);
+	}
+
+	private requireTransport() {
+		if (!this.transport) {
+			throw new Error("Noise handshake not finished");
+		}
+		return this.transport;
+	}
+
+	private mixHash(data: Uint8Array) {
+		this.hash = sha256(concatBytes(this.hash, data));
+	}
+
+	private mixKeys(inputKeyMaterial: Uint8Array) {
+		const key = hkdf(inputKeyMaterial, 64, { salt: this.salt, info: "" });
+		this.salt = key.subarray(0, 32);
+		this.key = key.subarray(32);
+		this.counter = 0n;
+	}
+
+	private encrypt(plaintext: Uint8Array): Uint8Array {
+		const ciphertext = aesEncryptGCM(
+			plaintext,
+			this.key,
+			generateIV(this.counter++),
+			this.hash,
+		);
+		this.mixHash(ciphertext);
+		return ciphertext;
+	}
+
+	private decrypt(ciphertext: Uint8Array): Uint8Array {
+		const plaintext = aesDecryptGCM(
+			ciphertext,
+			this.key,
+			generateIV(this.counter++),
+			this.hash,
+		);
+		this.mixHash(ciphertext);
+		return plaintext;
+	}
+}
+
+/** One client connection: framing, the handshake and then stanzas. */
+class ServerConnection implements InMemoryPeer {
+	/** The device logged in on this connection. */
+	jid?: string;
+	private buffer: Uint8Array = new Uint8Array(0);
+	private headerRead = false;
+	private stage: "hello" | "finish" | "open" | "closed" = "hello";
+	private noise?: NoiseResponder;
+
+	constructor(
+		private server: FakeWAServer,
+		private transport: InMemoryTransport,
+	) {}
+
+	receive(data: Uint8Array): void {
+		this.buffer = concatBytes(this.buffer, data);
+
+		if (!this.headerRead) {
+			// "ED" announces routing info ahead of the usual header.
+			const routingLength =
+				this.buffer[0] === 0x45 && this.buffer[1] === 0x44
+					? 7 +
+						(((this.buffer[4] ?? 0) << 16) |
+							((this.buffer[5] ?? 0) << 8) |
+							(this.buffer[6] ?? 0))
+					: 0;
+			const headerLength = routingLength + NOISE_WA_HEADER.length;
+			if (this.buffer.length < headerLength) {
+				return;
+			}
+			this.buffer = this.buffer.slice(headerLength);
+			this.headerRead = true;
+		}
+
+		while (this.buffer.length >= 3 && this.stage !== "closed") {
+			const length =
+				((this.buffer[0] ?? 0) << 16) |
+				((this.buffer[1] ?? 0) << 8) |
+				(this.buffer[2] ?? 0);
+			if (this.buffer.length < 3 + length) {
+				return;
+			}
+			const frame = this.buffer.slice(3, 3 + length);
+			this.buffer = this.buffer.slice(3 + length);
+			this.handleFrame(frame);
+		}
+	}
+
+	closed(): void {
+		this.stage = "closed";
+		this.server.disconnected(this);
+	}
+
+	send(node: BinaryNode): void {
+		if (this.stage !== "open" || !this.noise) {
+			return;
+		}
+		this.sendFrame(this.noise.encryptFrame(encodeBinaryNode(node)));
+	}
+
+	/** Closes the connection from the server side. */
+	drop(reason?: BinaryNode): void {
+		if (reason) {
+			this.send(reason);
+		}
+		this.stage = "closed";
+		this.server.disconnected(this);
+		this.transport.drop();
+	}
+
+	private handleFrame(frame: Uint8Array): void {
+		if (this.stage === "hello") {
+			const { clientHello } = fromBinary(HandshakeMessageSchema, frame);
+			if (!clientHello?.ephemeral) {
+				throw new Error("Expected a ClientHello");
+			}
+			this.noise = new NoiseResponder(clientHello.ephemeral);
+			const serverHello = this.noise.respond(
+				this.server.staticKeyPair,
+				this.server.certChain,
+			);
+			this.sendFrame(
+				toBinary(
+					HandshakeMessageSchema,
+					create(HandshakeMessageSchema, { serverHello }),
+				),
+			);
+			this.stage = "finish";
+		} else if (this.stage === "finish" && this.noise) {
+			const { clientFinish } = fromBinary(HandshakeMessageSchema, frame);
+			if (!clientFinish?.static || !clientFinish.payload) {
+				throw new Error("Expected a ClientFinish");
+			}
+			const { payload } = this.noise.finish(
+				clientFinish.static,
+				clientFinish.payload,
+			);
+			this.stage = "open";
+			this.server.login(this, fromBinary(ClientPayloadSchema, payload));
+		} else if (this.stage === "open" && this.noise) {
+			this.server.handleNode(
+				this,
+				decodeBinaryNode(this.noise.decryptFrame(frame)),
+			);
+		}
+	}
+
+	private sendFrame(payload: Uint8Array): void {
+		const prefix = new Uint8Array(3);
+		prefix[0] = (payload.length >> 16) & 0xff;
+		new DataView(prefix.buffer).setUint16(1, payload.length & 0xffff, false);
+		this.transport.deliver(concatBytes(prefix, payload));
+	}
+}
+
+/**
+ * Stands in for the WhatsApp servers within the test process. Clients reach
+ * it through `socketOptions`; it logs in devices registered with
+ * `pairDevice`, keeps their pre-keys, answers device list and key lookups
+ * and relays messages and receipts between them. Pairing new devices and
+ * groups are not supported.
+ */
+export class FakeWAServer {
+	readonly rootKeyPair = Curve.generateKeyPair();
+	readonly staticKeyPair = Curve.generateKeyPair();
+	readonly certChain: Uint8Array;
+	/** Every stanza clients sent, with the device that sent it. */
+	readonly received: { from?: string; node: BinaryNode }[] = [];
+	private devices = new Map<string, Device>();
+	private connections = new Set<ServerConnection>();
+
+	constructor() {
+		this.certChain = buildCertChain(
+			this.rootKeyPair,
+			this.staticKeyPair.publicKey,
+		);
+	}
+
+	/**
+	 * Connects clients to this server. Unless `trustServer` is false, their
+	 * transports tell them to accept the certificates of our root.
+	 */
+	createTransportFactory({ trustServer = true } = {}): TransportFactory {
+		return (url, config) =>
+			new InMemoryTransport(
+				url,
+				config,
+				(transport) => {
+					const connection = new ServerConnection(this, transport);
+					this.connections.add(connection);
+					return connection;
+				},
+				trustServer ? this.rootKeyPair.publicKey : undefined,
+			);
+	}
+
+	/** Socket options that connect a client to this server. */
+	get socketOptions(): Partial<WebSocketConfig> {
+		return { transportFactory: this.createTransportFactory() };
+	}
+
+	/**
+	 * Registers a companion device of `user` and fills in `creds` as pairing
+	 * with the phone would, including a signed account identity.
+	 */
+	pairDevice(creds: AuthenticationCreds, user: string, device = 1): string {
+		const jid = jidEncode(user, "s.whatsapp.net", device);
+		const accountKey = Curve.generateKeyPair();
+		const details = toBinary(
+			ADVDeviceIdentitySchema,
+			create(ADVDeviceIdentitySchema, {
+				rawId: 1,
+				timestamp: BigInt(unixTime()),
+				keyIndex: device,
+			}),
+		);
+		const identityKey = creds.signedIdentityKey;
+
+		creds.account = {
+			details,
+			accountSignatureKey: accountKey.publicKey,
+			accountSignature: Curve.sign(
+				accountKey.privateKey,
+				concatBytes(new Uint8Array([6, 0]), details, identityKey.publicKey),
+			),
+			deviceSignature: Curve.sign(
+				identityKey.privateKey,
+				concatBytes(
+					new Uint8Array([6, 1]),
+					details,
+					identityKey.publicKey,
+					accountKey.publicKey,
+				),
+			),
+		};
+		creds.me = { id: jid, name: user };
+		creds.registered = true;
+
+		this.devices.set(jid, { jid, pending: [] });
+		return jid;
+	}
+
+	/** One-time pre-keys the device has left on the server. */
+	preKeyCount(jid: string): number {
+		return this.devices.get(normalizeJid(jid))?.keys?.preKeys.length ?? 0;
+	}
+
+	/** Drops every open connection. */
+	close(): void {
+		for (const connection of this.connections) {
+			connection.drop();
+		}
+	}
+
+	/** @internal */
+	login(connection: ServerConnection, payload: ClientPayload): void {
+		const jid = jidEncode(
+			payload.username.toString(),
+			"s.whatsapp.net",
+			payload.device || undefined,
+		);
+		const device = this.devices.get(jid);
+		if (payload.devicePairingData || !device) {
+			connection.send({ tag: "fail", attrs: { reason: "401" } });
+			connection.drop();
+			return;
+		}
+
+		device.connection?.drop({
+			tag: "stream:error",
+			attrs: {},
+			content: [{ tag: "conflict", attrs: { type: "replaced" } }],
+		});
+		device.connection = connection;
+		connection.jid = jid;
+		connection.send({ tag: "success", attrs: { t: unixTime() } });
+
+		const pending = device.pending.splice(0);
+		for (const node of pending) {
+			connection.send(node);
+		}
+	}
+
+	/** @internal */
+	disconnected(connection: ServerConnection): void {
+		this.connections.delete(connection);
+		const device = connection.jid && this.devices.get(connection.jid);
+		if (device && device.connection === connection) {
+			device.connection = undefined;
+		}
+	}
+
+	/** @internal */
+	handleNode(connection: ServerConnection, node: BinaryNode): void {
+		this.received.push({ from: connection.jid, node });
+		const device = connection.jid && this.devices.get(connection.jid);
+		if (!device) {
+			return;
+		}
+
+		if (node.tag === "iq") {
+			connection.send(this.handleIq(device, node));
+		} else if (node.tag === "message") {
+			this.relayMessage(device, node);
+		} else if (node.tag === "receipt") {
+			this.relayReceipt(device, node);
+		}
+	}
+
+	private handleIq(device: Device, node: BinaryNode): BinaryNode {
+		const result = (content?: BinaryNode[]): BinaryNode => ({
+			tag: "iq",
+			attrs: { id: node.attrs.id ?? "", from: S_WHATSAPP_NET, type: "result" },
+			content,
+		});
+		const { xmlns, type } = node.attrs;
+
+		if (xmlns === "w:p") {
+			return result();
+		}
+		if (xmlns === "encrypt" && getBinaryNodeChild(node, "count")) {
+			const count = device.keys?.preKeys.length ?? 0;
+			return result([{ tag: "count", attrs: { value: count.toString() } }]);
+		}
+		if (xmlns === "encrypt" && type === "set") {
+			this.storeKeys(device, node);
+			return result();
+		}
+		if (xmlns === "encrypt" && getBinaryNodeChild(node, "key")) {
+			const users = getBinaryNodeChildren(
+				getBinaryNodeChild(node, "key"),
+				"user",
+			);
+			return result([
+				{
+					tag: "list",
+					attrs: {},
+					content: users.map((user) => this.takeKeyBundle(user.attrs.jid)),
+				},
+			]);
+		}
+		if (xmlns === "usync") {
+			const list = getBinaryNodeChild(
+				getBinaryNodeChild(node, "usync"),
+				"list",
+			);
+			const users = getBinaryNodeChildren(list, "user");
+			return result([
+				{
+					tag: "usync",
+					attrs: {},
+					content: [
+						{
+							tag: "list",
+							attrs: {},
+							content: users.map((user) =>
+								this.buildDeviceList(user.attrs.jid ?? ""),
+							),
+						},
+					],
+				},
+			]);
+		}
+
+		return {
+			tag: "iq",
+			attrs: { id: node.attrs.id ?? "", from: S_WHATSAPP_NET, type: "error" },
+			content: [
+				{
+					tag: "error",
+					attrs: { code: "501", text: "feature-not-implemented" },
+				},
+			],
+		};
+	}
+
+	private storeKeys(device: Device, node: BinaryNode): void {
+		const registration = getBinaryNodeChildBuffer(node, "registration");
+		const identity = getBinaryNodeChildBuffer(node, "identity");
+		const signedPreKey = getBinaryNodeChild(node, "skey");
+		if (!registration || !identity || !signedPreKey) {
+			return;
+		}
+		device.keys = {
+			registration,
+			identity,
+			signedPreKey,
+			preKeys: [
+				...(device.keys?.preKeys ?? []),
+				...getBinaryNodeChildren(getBinaryNodeChild(node, "list"), "key"),
+			],
+		};
+	}
+
+	/** A device's key bundle, using up one of its one-time pre-keys. */
+	private takeKeyBundle(jid = ""): BinaryNode {
+		const keys = this.devices.get(normalizeJid(jid))?.keys;
+		if (!keys) {
+			return {
+				tag: "user",
+				attrs: { jid },
+				content: [
+					{ tag: "error", attrs: { code: "404", text: "item-not-found" } },
+				],
+			};
+		}
+
+		const preKey = keys.preKeys.shift();
+		return {
+			tag: "user",
+			attrs: { jid },
+			content: [
+				{ tag: "registration", attrs: {}, content: keys.registration },
+				{ tag: "type", attrs: {}, content: KEY_BUNDLE_TYPE },
+				{ tag: "identity", attrs: {}, content: keys.identity },
+				keys.signedPreKey,
+				...(preKey ? [preKey] : []),
+			],
+		};
+	}
+
+	private buildDeviceList(userJid: string): BinaryNode {
+		const user = jidDecode(userJid)?.user;
+		const ids = [...this.devices.keys()]
+			.map((jid) => jidDecode(jid))
+			.filter((decoded) => decoded?.user === user)
+			.map((decoded) => decoded?.device ?? 0);
+
+		return {
+			tag: "user",
+			attrs: { jid: userJid },
+			content: [
+				{
+					tag: "devices",
+					attrs: {},
+					content: [
+						{
+							tag: "device-list",
+							attrs: {},
+							content: ids.map((id) => ({
+								tag: "device",
+								attrs: { id: id.toString() },
+							})),
+						},
+					],
+				},
+			],
+		};
+	}
+
+	/** Hands each device its own `<enc>` from the `<participants>` fan-out. */
+	private relayMessage(sender: Device, node: BinaryNode): void {
+		const { to, ...attrs } = node.attrs;
+		const senderUser = jidDecode(sender.jid)?.user;
+		const deviceIdentity = getBinaryNodeChild(node, "device-identity");
+		const participants = getBinaryNodeChildren(
+			getBinaryNodeChild(node, "participants"),
+			"to",
+		);
+
+		for (const participant of participants) {
+			const target = normalizeJid(participant.attrs.jid ?? "");
+			const enc = getBinaryNodeChild(participant, "enc");
+			if (!enc) {
+				continue;
+			}
+			const isOwnDevice = jidDecode(target)?.user === senderUser;
+			this.deliver(target, {
+				tag: "message",
+				attrs: {
+					...attrs,
+					from: sender.jid,
+					t: unixTime(),
+					...(isOwnDevice && to && { recipient: to }),
+				},
+				content: deviceIdentity ? [enc, deviceIdentity] : [enc],
+			});
+		}
+
+		sender.connection?.send({
+			tag: "ack",
+			attrs: { class: "message", id: node.attrs.id ?? "", from: to ?? "" },
+		});
+	}
+
+	private relayReceipt(sender: Device, node: BinaryNode): void {
+		const { to = "", ...attrs } = node.attrs;
+		const target = jidDecode(to);
+		const targets =
+			target?.device !== undefined
+				? [normalizeJid(to)]
+				: [...this.devices.keys()].filter(
+						(jid) => jidDecode(jid)?.user === target?.user,
+					);
+
+		for (const jid of targets) {
+			this.deliver(jid, {
+				tag: "receipt",
+				attrs: { ...attrs, from: sender.jid },
+				content: node.content,
+			});
+		}
+
+		sender.connection?.send({
+			tag: "ack",
+			attrs: {
+				class: "receipt",
+				id: node.attrs.id ?? "",
+				from: to,
+				...(node.attrs.type && { type: node.attrs.type }),
+			},
+		});
+	}
+
+	private deliver(jid: string, node: BinaryNode): void {
+		const device = this.devices.get(jid);
+		if (!device) {
+			return;
+		}
+		if (device.connection) {
+			device.connection.send(node);
+		} else {
+			device.pending.push(node);
+		}
+	}
+}
@@ -0,0 +1,107 @@
+import { IWebSocketClient, type WebSocketConfig } from "@wha.ts/core";
+import { TEST_ROOT_CA_PUBLIC_KEY } from "@wha.ts/core/transport/noise-processor";
+
+/** The server side of an in-memory connection. */
+export interface InMemoryPeer {
+	receive(data: Uint8Array): void;
+	/** The client closed the connection. */
+	closed(): void;
+}
+
+/** Accepts a new connection, like a listening socket. */
+export type InMemoryListener = (transport: InMemoryTransport) => InMemoryPeer;
+
+type TransportState = "idle" | "connecting" | "open" | "closing" | "closed";
+
+/**
+ * A transport that hands frames straight to a listener in the same process.
+ * Every delivery is a separate macrotask, as it would be on a real socket,
+ * so neither side ever handles a frame in the middle of sending one.
+ */
+export class InMemoryTransport extends IWebSocketClient {
+	/** The root the listener's certificates are signed with, if trusted. */
+	readonly [TEST_ROOT_CA_PUBLIC_KEY]?: Uint8Array;
+	private state: TransportState = "idle";
+	private peer?: InMemoryPeer;
+
+	constructor(
+		url: URL,
+		config: WebSocketConfig,
+		private listener: InMemoryListener,
+		rootCaPublicKey?: Uint8Array,
+	) {
+		super(url, config);
+		this[TEST_ROOT_CA_PUBLIC_KEY] = rootCaPublicKey;
+	}
+
+	get isOpen(): boolean {
+		return this.state === "open";
+	}
+	get isClosed(): boolean {
+		return this.state === "idle" || this.state === "closed";
+	}
+	get isConnecting(): boolean {
+		return this.state === "connecting";
+	}
+	get isClosing(): boolean {
+		return this.state === "closing";
+	}
+
+	async connect(): Promise<void> {
+		if (!this.isClosed) {
+			return;
+		}
+		this.state = "connecting";
+		await nextTask();
+		this.peer = this.listener(this);
+		this.state = "open";
+		this.dispatchTypedEvent("open", null);
+	}
+
+	async send(data: Uint8Array): Promise<void> {
+		const peer = this.peer;
+		if (!this.isOpen || !peer) {
+			this.config.logger.warn({}, "Transport not open, cannot send");
+			return;
+		}
+		this.dispatchTypedEvent("sent", { data });
+		setTimeout(() => peer.receive(data), 0);
+	}
+
+	async close(code = 1000, reason = "Normal Closure"): Promise<void> {
+		if (this.isClosing || this.isClosed) {
+			return;
+		}
+		this.state = "closing";
+		this.peer?.closed();
+		await nextTask();
+		this.finishClose(code, reason);
+	}
+
+	/** Called by the server to send a frame to the client. */
+	deliver(data: Uint8Array): void {
+		setTimeout(() => {
+			// Frames already on their way still arrive while closing.
+			if (this.isOpen || this.isClosing) {
+				this.dispatchTypedEvent("received", { data });
+			}
+		}, 0);
+	}
+
+	/** Called by the server to drop the connection. */
+	drop(code = 1006, reason = "Connection dropped"): void {
+		if (this.isClosing || this.isClosed) {
+			return;
+		}
+		this.state = "closing";
+		setTimeout(() => this.finishClose(code, reason), 0);
+	}
+
+	private finishClose(code: number, reason: string): void {
+		this.state = "closed";
+		this.peer = undefined;
+		this.dispatchTypedEvent("close", { code, reason });
+	}
+}
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { BinaryNode } from "@wha.ts/binary";
+import {
+	ConnectionError,
+	createWAClient,
+	getText,
+	type WAMessage,
+} from "@wha.ts/core";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { silentLogger } from "../fakes";
+import { FakeWAServer } from "./fake-server";
+
+const ALICE = "111";
+const BOB = "222";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitUntil = async (condition: () => boolean, timeoutMs = 2_000) => {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error("Timed out waiting for condition");
+		}
+		await sleep(5);
+	}
+};
+
+let server: FakeWAServer;
+const clients: ReturnType<typeof createWAClient>[] = [];
+
+afterEach(async () => {
+	for (const client of clients.splice(0)) {
+		await client.logout();
+	}
+	server.close();
+});
+
+async function connectClient(user: string) {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const jid = server.pairDevice(auth.creds, user);
+	const client = createWAClient({
+		auth,
+		logger: silentLogger,
+		wsOptions: server.socketOptions,
+	});
+	clients.push(client);
+
+	const messages: WAMessage[] = [];
+	const receipts: BinaryNode[] = [];
+	client.addListener("message.received", ({ message }) => {
+		messages.push(message);
+	});
+	client.addListener("node.received", ({ node }) => {
+		if (node.tag === "receipt") {
+			receipts.push(node);
+		}
+	});
+
+	await client.connect({ timeoutMs: 2_000 });
+	// Others can only open a session once our pre-keys are on the server.
+	await waitUntil(() => server.preKeyCount(jid) > 0);
+	return { client, jid, messages, receipts };
+}
+
+describe("end to end messaging", () => {
+	test("relays messages and receipts between two clients", async () => {
+		server = new FakeWAServer();
+		const alice = await connectClient(ALICE);
+		const bob = await connectClient(BOB);
+
+		const sent = await alice.client.sendTextMessage(
+			`${BOB}@s.whatsapp.net`,
+			"hello bob",
+		);
+		expect(sent.error).toBeUndefined();
+
+		await waitUntil(() => bob.messages.length > 0);
+		const [received] = bob.messages;
+		expect(received && getText(received)).toBe("hello bob");
+		expect(received?.key).toMatchObject({ id: sent.messageId, fromMe: false });
+
+		await waitUntil(() => alice.receipts.length > 0);
+		expect(alice.receipts[0]?.attrs).toMatchObject({
+			id: sent.messageId,
+			from: bob.jid,
+		});
+
+		// Bob answers over the session Alice's pre-key message opened.
+		const reply = await bob.client.sendTextMessage(
+			`${ALICE}@s.whatsapp.net`,
+			"hi alice",
+		);
+		expect(reply.error).toBeUndefined();
+		await waitUntil(() => alice.messages.length > 0);
+		expect(alice.messages[0] && getText(alice.messages[0])).toBe("hi alice");
+	});
+
+	test("refuses a server not signed by the pinned WhatsApp root", async () => {
+		server = new FakeWAServer();
+		const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+		server.pairDevice(auth.creds, ALICE);
+		const client = createWAClient({
+			auth,
+			logger: silentLogger,
+			wsOptions: {
+				transportFactory: server.createTransportFactory({
+					trustServer: false,
+				}),
+			},
+		});
+
+		await expect(client.connect({ timeoutMs: 2_000 })).rejects.toBeInstanceOf(
+			ConnectionError,
+		);
+	});
+});
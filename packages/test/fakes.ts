@@ -0,0 +1,86 @@
+import type { BinaryNode } from "@wha.ts/binary";
+import type {
+	ConnectionManagerEventMap,
+	ConnectionState,
+} from "@wha.ts/core/core/connection-events";
+import type { MessageProcessorEventMap } from "@wha.ts/core/messaging/message-processor";
+import { TypedEventTarget } from "@wha.ts/types/generics/typed-event-target";
+
+export const silentLogger = {
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	debug: () => {},
+	trace: () => {},
+};
+
+/**
+ * Stands in for the ConnectionManager. Sent stanzas and queries are
+ * recorded, and queries are answered by `respond`.
+ */
+export class FakeConnection extends TypedEventTarget<ConnectionManagerEventMap> {
+	queries: BinaryNode[] = [];
+	sent: BinaryNode[] = [];
+	onSend?: (node: BinaryNode) => void;
+	state: ConnectionState = "closed";
+	reconnects = 0;
+	private tags = 0;
+
+	constructor(
+		public respond: (node: BinaryNode) => BinaryNode = (node) => ({
+			tag: "iq",
+			attrs: { id: node.attrs.id as string, type: "result" },
+		}),
+	) {
+		super();
+	}
+
+	generateMessageTag(): string {
+		return `tag-${++this.tags}`;
+	}
+
+	async query(node: BinaryNode): Promise<BinaryNode> {
+		this.queries.push(node);
+		return this.respond(node);
+	}
+
+	async sendNode(node: BinaryNode): Promise<void> {
+		this.sent.push(node);
+		this.onSend?.(node);
+	}
+
+	getState(): ConnectionState {
+		return this.state;
+	}
+
+	async reconnect(): Promise<void> {
+		this.reconnects++;
+		this.setState("connecting");
+	}
+
+	setState(state: ConnectionState, error?: Error) {
+		this.state = state;
+		this.emit("state.change", { state, error });
+	}
+
+	receive(node: BinaryNode) {
+		this.emit("node.received", { node });
+	}
+
+	emit<K extends keyof ConnectionManagerEventMap>(
+		type: K,
+		detail: ConnectionManagerEventMap[K],
+	) {
+		this.dispatchTypedEvent(type, detail);
+	}
+}
+
+/** Stands in for the MessageProcessor; tests emit its events directly. */
+export class FakeProcessor extends TypedEventTarget<MessageProcessorEventMap> {
+	emit<K extends keyof MessageProcessorEventMap>(
+		type: K,
+		detail: MessageProcessorEventMap[K],
+	) {
+		this.dispatchTypedEvent(type, detail);
+	}
+}
@@ -87,10 +87,7 @@ describe("Offline Decryption from Dumped Bundles", async () => {
 					throw new Error("Dumped SKMSG missing participant");
 				const senderKeyName = `${payload.from}::${payload.participant}`;
 				const cipher = new GroupCipher(authState.keys, senderKeyName);
-
-				// This is still simplified. You'd need to parse the skmsg format properly.
-				const rawProtoBytes = ciphertext.slice(1, -8);
-				plaintext = await cipher.decrypt(rawProtoBytes);
+				plaintext = await cipher.decrypt(ciphertext);
 			} else {
 				throw new Error(`Unsupported message type for test: ${payload.type}`);
 			}
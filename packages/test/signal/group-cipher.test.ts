@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { GroupSessionBuilder } from "@wha.ts/signal/groups/builder";
+import {
+	GroupCipher,
+	InvalidSenderKeySignatureError,
+} from "@wha.ts/signal/groups/cipher";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { utf8ToBytes } from "@wha.ts/utils";
+
+const SENDER_KEY_NAME = "123-456@g.us::111:1@s.whatsapp.net";
+
+describe("GroupCipher", () => {
+	test("encrypts with our own sender key for receivers of the distribution message", async () => {
+		const sender = await GenericAuthState.init(new InMemoryStorageDatabase());
+		const receiver = await GenericAuthState.init(new InMemoryStorageDatabase());
+
+		const distribution = await new GroupSessionBuilder(sender.keys).create(
+			SENDER_KEY_NAME,
+		);
+		const again = await new GroupSessionBuilder(sender.keys).create(
+			SENDER_KEY_NAME,
+		);
+		expect(again.id).toBe(distribution.id);
+
+		await new GroupSessionBuilder(receiver.keys).process(
+			SENDER_KEY_NAME,
+			distribution,
+		);
+
+		const senderCipher = new GroupCipher(sender.keys, SENDER_KEY_NAME);
+		const receiverCipher = new GroupCipher(receiver.keys, SENDER_KEY_NAME);
+
+		for (const text of ["first", "second"]) {
+			const envelope = await senderCipher.encrypt(utf8ToBytes(text));
+			const plaintext = await receiverCipher.decrypt(envelope);
+			expect(plaintext).toEqual(utf8ToBytes(text));
+		}
+	});
+
+	test("refuses to encrypt with a sender key received from someone else", async () => {
+		const sender = await GenericAuthState.init(new InMemoryStorageDatabase());
+		const receiver = await GenericAuthState.init(new InMemoryStorageDatabase());
+		await new GroupSessionBuilder(receiver.keys).process(
+			SENDER_KEY_NAME,
+			await new GroupSessionBuilder(sender.keys).create(SENDER_KEY_NAME),
+		);
+
+		await expect(
+			new GroupCipher(receiver.keys, SENDER_KEY_NAME).encrypt(
+				utf8ToBytes("nope"),
+			),
+		).rejects.toThrow("no private signing key");
+	});
+
+	test("rejects messages whose signature does not verify", async () => {
+		const sender = await GenericAuthState.init(new InMemoryStorageDatabase());
+		const receiver = await GenericAuthState.init(new InMemoryStorageDatabase());
+		await new GroupSessionBuilder(receiver.keys).process(
+			SENDER_KEY_NAME,
+			await new GroupSessionBuilder(sender.keys).create(SENDER_KEY_NAME),
+		);
+
+		const envelope = await new GroupCipher(
+			sender.keys,
+			SENDER_KEY_NAME,
+		).encrypt(utf8ToBytes("forged"));
+		envelope.set([(envelope.at(-1) ?? 0) ^ 0xff], envelope.length - 1);
+
+		const receiverCipher = new GroupCipher(receiver.keys, SENDER_KEY_NAME);
+		await expect(receiverCipher.decrypt(envelope)).rejects.toBeInstanceOf(
+			InvalidSenderKeySignatureError,
+		);
+
+		// The ratchet must not advance on a forged message.
+		const stored = await receiver.keys.get("sender-key", [SENDER_KEY_NAME]);
+		expect(
+			stored[SENDER_KEY_NAME]?.senderKeyStates[0]?.senderChainKey.iteration,
+		).toBe(0);
+	});
+});
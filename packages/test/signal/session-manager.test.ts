@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import { type BinaryNode, getBinaryNodeChild } from "@wha.ts/binary";
+import { SignalProtocolStoreAdapter } from "@wha.ts/core";
+import {
+	jidToSignalAddress,
+	parsePreKeyBundles,
+} from "@wha.ts/core/signal/session-manager";
+import { SessionBuilder, SessionCipher } from "@wha.ts/signal";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import {
+	Curve,
+	encodeBigEndian,
+	KEY_BUNDLE_TYPE,
+	utf8ToBytes,
+} from "@wha.ts/utils";
+import { silentLogger } from "../fakes";
+
+const BOB_JID = "5511999999999@s.whatsapp.net";
+const ALICE_JID = "5511888888888@s.whatsapp.net";
+
+async function createBob() {
+	const auth = await GenericAuthState.init(new InMemoryStorageDatabase());
+	const preKey = Curve.generateKeyPair();
+	await auth.keys.set({ "pre-key": { "7": preKey } });
+
+	const { creds } = auth;
+	const response: BinaryNode = {
+		tag: "iq",
+		attrs: { type: "result" },
+		content: [
+			{
+				tag: "list",
+				attrs: {},
+				content: [
+					{
+						tag: "user",
+						attrs: { jid: BOB_JID },
+						content: [
+							{
+								tag: "registration",
+								attrs: {},
+								content: encodeBigEndian(creds.registrationId, 4),
+							},
+							{ tag: "type", attrs: {}, content: KEY_BUNDLE_TYPE },
+							{
+								tag: "identity",
+								attrs: {},
+								content: creds.signedIdentityKey.publicKey,
+							},
+							{
+								tag: "skey",
+								attrs: {},
+								content: [
+									{
+										tag: "id",
+										attrs: {},
+										content: encodeBigEndian(creds.signedPreKey.keyId, 3),
+									},
+									{
+										tag: "value",
+										attrs: {},
+										content: creds.signedPreKey.keyPair.publicKey,
+									},
+									{
+										tag: "signature",
+										attrs: {},
+										content: creds.signedPreKey.signature,
+									},
+								],
+							},
+							{
+								tag: "key",
+								attrs: {},
+								content: [
+									{ tag: "id", attrs: {}, content: encodeBigEndian(7, 3) },
+									{ tag: "value", attrs: {}, content: preKey.publicKey },
+								],
+							},
+						],
+					},
+					{
+						tag: "user",
+						attrs: { jid: "5511777777777@s.whatsapp.net" },
+						content: [{ tag: "error", attrs: { code: "404" } }],
+					},
+				],
+			},
+		],
+	};
+
+	return { auth, response };
+}
+
+describe("pre-key bundle sessions", () => {
+	test("parses key bundles and skips users answered with an error", async () => {
+		const { auth, response } = await createBob();
+
+		const bundles = parsePreKeyBundles(response, silentLogger);
+
+		expect(bundles).toHaveLength(1);
+		const { jid, bundle } = bundles[0] ?? {};
+		expect(jid).toBe(BOB_JID);
+		if (!bundle) throw new Error("Expected a parsed bundle");
+		expect(bundle.registrationId).toBe(auth.creds.registrationId);
+		expect(bundle.identityKey).toHaveLength(33);
+		expect(bundle.signedPreKey.keyId).toBe(auth.creds.signedPreKey.keyId);
+		expect(bundle.preKey?.keyId).toBe(7);
+	});
+
+	test("skips a user with a malformed bundle and keeps the others", async () => {
+		const { auth, response } = await createBob();
+		const users = getBinaryNodeChild(response, "list")?.content as BinaryNode[];
+		const [, ...bobKeys] = users[0]?.content as BinaryNode[];
+		// A one-byte registration id cannot be read as the 4 bytes expected.
+		users.unshift({
+			tag: "user",
+			attrs: { jid: "5511666666666@s.whatsapp.net" },
+			content: [
+				{ tag: "registration", attrs: {}, content: new Uint8Array([1]) },
+				...bobKeys,
+			],
+		});
+
+		const bundles = parsePreKeyBundles(response, silentLogger);
+
+		expect(bundles.map(({ jid }) => jid)).toEqual([BOB_JID]);
+		expect(bundles[0]?.bundle.registrationId).toBe(auth.creds.registrationId);
+	});
+
+	test("creates an outgoing session the bundle owner can decrypt", async () => {
+		const bob = await createBob();
+		const bundle = parsePreKeyBundles(bob.response)[0]?.bundle;
+		if (!bundle) throw new Error("Expected a parsed bundle");
+
+		const aliceAuth = await GenericAuthState.init(
+			new InMemoryStorageDatabase(),
+		);
+		const aliceStore = new SignalProtocolStoreAdapter(aliceAuth, silentLogger);
+		const bobAddress = jidToSignalAddress(BOB_JID);
+
+		await new SessionBuilder(aliceStore, bobAddress).initOutgoing(bundle);
+
+		const plaintext = utf8ToBytes("hello bob");
+		const encrypted = await new SessionCipher(aliceStore, bobAddress).encrypt(
+			plaintext,
+		);
+		expect(encrypted.type).toBe(3);
+
+		const bobStore = new SignalProtocolStoreAdapter(bob.auth, silentLogger);
+		const decrypted = await new SessionCipher(
+			bobStore,
+			jidToSignalAddress(ALICE_JID),
+		).decryptPreKeyWhisperMessage(encrypted.body);
+
+		expect(decrypted).toEqual(plaintext);
+	});
+
+	test("rejects a bundle whose signed pre-key signature does not verify", async () => {
+		const bob = await createBob();
+		const bundle = parsePreKeyBundles(bob.response)[0]?.bundle;
+		if (!bundle) throw new Error("Expected a parsed bundle");
+		bundle.signedPreKey.publicKey = Curve.generateKeyPair().publicKey;
+
+		const aliceAuth = await GenericAuthState.init(
+			new InMemoryStorageDatabase(),
+		);
+		const aliceStore = new SignalProtocolStoreAdapter(aliceAuth, silentLogger);
+		const bobAddress = jidToSignalAddress(BOB_JID);
+
+		await expect(
+			new SessionBuilder(aliceStore, bobAddress).initOutgoing(bundle),
+		).rejects.toThrow("Invalid signed pre-key signature");
+		expect(await aliceStore.loadSession(bobAddress.toString())).toBeFalsy();
+	});
+});
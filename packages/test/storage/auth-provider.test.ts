@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { create, fromBinary, toJson } from "@bufbuild/protobuf";
+import { buildDeviceIdentityNode } from "@wha.ts/core/messaging/message-sender";
+import { ADVSignedDeviceIdentitySchema } from "@wha.ts/proto";
+import { GenericAuthState, InMemoryStorageDatabase } from "@wha.ts/storage";
+import { CREDS_KEY } from "@wha.ts/storage/constants";
+import { serialize } from "@wha.ts/storage/serialization";
+import { initAuthCreds } from "@wha.ts/utils/generic";
+
+describe("GenericAuthState", () => {
+	test("migrates an account stored in its legacy proto JSON form", async () => {
+		const account = create(ADVSignedDeviceIdentitySchema, {
+			details: new Uint8Array([1, 2, 250]),
+			accountSignatureKey: new Uint8Array([3, 255]),
+			deviceSignature: new Uint8Array([5, 251, 255]),
+		});
+		const legacyCreds = {
+			...initAuthCreds(),
+			account: toJson(ADVSignedDeviceIdentitySchema, account),
+		};
+		const db = new InMemoryStorageDatabase();
+		await db
+			.getCollection<string>("auth-creds")
+			.set(CREDS_KEY, serialize(legacyCreds));
+
+		const { creds } = await GenericAuthState.init(db);
+
+		expect(creds.registrationId).toBe(legacyCreds.registrationId);
+		expect(creds.account).toEqual({
+			details: new Uint8Array([1, 2, 250]),
+			accountSignatureKey: new Uint8Array([3, 255]),
+			accountSignature: new Uint8Array(0),
+			deviceSignature: new Uint8Array([5, 251, 255]),
+		});
+		const node = buildDeviceIdentityNode(creds);
+		expect(
+			fromBinary(ADVSignedDeviceIdentitySchema, node.content as Uint8Array)
+				.deviceSignature,
+		).toEqual(new Uint8Array([5, 251, 255]));
+	});
+});
@@ -0,0 +1,14 @@
+import { describe, expect, test } from "bun:test";
+import { generateRegistrationId } from "@wha.ts/utils/generic";
+
+describe("generateRegistrationId", () => {
+	test("always returns a non-zero 14-bit id", () => {
+		const ids = Array.from({ length: 2_000 }, generateRegistrationId);
+
+		expect(
+			ids.every((id) => Number.isInteger(id) && id > 0 && id < 16384),
+		).toBe(true);
+		// The ids use more than the 8 bits a single random byte would give.
+		expect(ids.some((id) => id > 255)).toBe(true);
+	});
+});
@@ -13,6 +13,36 @@ export const ProcessedMessageKeySchema = z.object({
 });
 export type ProcessedMessageKey = z.infer<typeof ProcessedMessageKeySchema>;
 
+export const DeviceListSchema = z.object({
+	deviceIds: z.array(z.number()),
+	fetchedAt: z.number(),
+});
+export type DeviceList = z.infer<typeof DeviceListSchema>;
+
+export const GroupParticipantsSchema = z.object({
+	participants: z.array(z.string()),
+	fetchedAt: z.number(),
+});
+export type GroupParticipants = z.infer<typeof GroupParticipantsSchema>;
+
+/** Device JIDs of a group that already received our sender key. */
+export const SenderKeyMemorySchema = z.record(z.string(), z.boolean());
+
+/** An app state key shared by our primary device, by base64 key id. */
+export const AppStateSyncKeyDataSchema = z.object({
+	keyData: ZodUint8Array,
+	timestamp: z.number(),
+});
+
+/** The last applied version of an app state collection and its LTHash. */
+export const AppStateSyncVersionSchema = z.object({
+	version: z.number(),
+	hash: ZodUint8Array,
+	/** Value MAC of every live mutation, by base64 index MAC. */
+	indexValueMap: z.record(z.string(), ZodUint8Array),
+});
+export type AppStateSyncVersion = z.infer<typeof AppStateSyncVersionSchema>;
+
 export const ADVSignedDeviceIdentitySchema = z.object({
 	details: ZodUint8Array,
 	accountSignatureKey: ZodUint8Array,
@@ -69,6 +99,11 @@ export const SignalDataTypeMapSchemas = {
 	"signed-pre-key": SignedKeyPairSchema,
 	"peer-identity-key": ZodUint8Array,
 	"sender-key": SenderKeyRecordSchema,
+	"device-list": DeviceListSchema,
+	"group-participants": GroupParticipantsSchema,
+	"sender-key-memory": SenderKeyMemorySchema,
+	"app-state-sync-key": AppStateSyncKeyDataSchema,
+	"app-state-sync-version": AppStateSyncVersionSchema,
 };
 
 export type SignalDataTypeMap = {
@@ -22,6 +22,7 @@ export interface WebSocketConfig {
 	logger: ILogger;
 	origin?: string;
 	headers?: { [key: string]: string };
+	defaultQueryTimeoutMs?: number;
 }
 
 export abstract class IWebSocketClient extends TypedEventTarget<WebSocketClientEventMap> {
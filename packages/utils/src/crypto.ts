@@ -1,7 +1,11 @@
-import { cbc, gcm } from "@noble/ciphers/aes";
+import { cbc, ctr, gcm } from "@noble/ciphers/aes";
 import { hkdf as nobleHkdf } from "@noble/hashes/hkdf";
 import { hmac as nobleHmac } from "@noble/hashes/hmac";
-import { sha256 as nobleSha256 } from "@noble/hashes/sha2";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import {
+	sha256 as nobleSha256,
+	sha512 as nobleSha512,
+} from "@noble/hashes/sha2";
 import { concatBytes, equalBytes } from "./bytes-utils";
 
 export function aesEncryptGCM(
@@ -36,13 +40,43 @@ export function aesDecrypt(
 	return plaintext;
 }
 
+/**
+ * AES-256-CBC decryption of whole blocks that leaves any padding in place,
+ * for decrypting a stream chunk by chunk.
+ */
+export function aesDecryptBlocks(
+	key: Uint8Array,
+	buffer: Uint8Array,
+	iv: Uint8Array,
+): Uint8Array {
+	return cbc(key, iv, { disablePadding: true }).decrypt(buffer);
+}
+
+/** AES-256-CBC without prepending the IV to the output. */
+export function aesEncryptWithIV(
+	buffer: Uint8Array,
+	key: Uint8Array,
+	iv: Uint8Array,
+): Uint8Array {
+	const cipher = cbc(key, iv);
+	return cipher.encrypt(buffer);
+}
+
+/** AES-256-CTR; encryption and decryption are the same operation. */
+export function aesCTR(
+	buffer: Uint8Array,
+	key: Uint8Array,
+	iv: Uint8Array,
+): Uint8Array {
+	return ctr(key, iv).encrypt(buffer);
+}
+
 export function aesEncrypt(
 	buffer: Uint8Array,
 	key: Uint8Array,
 	iv = randomBytes(16),
 ): Uint8Array {
-	const cipher = cbc(key, iv);
-	const ciphertext = cipher.encrypt(buffer);
+	const ciphertext = aesEncryptWithIV(buffer, key, iv);
 	const result = new Uint8Array(iv.length + ciphertext.length);
 	result.set(iv, 0);
 	result.set(ciphertext, iv.length);
@@ -54,11 +88,25 @@ export function hmacSign(key: Uint8Array, buffer: Uint8Array): Uint8Array {
 	return mac;
 }
 
+export function hmacSha512(key: Uint8Array, buffer: Uint8Array): Uint8Array {
+	return nobleHmac(nobleSha512, key, buffer);
+}
+
 export function sha256(buffer: Uint8Array): Uint8Array {
 	const hash = nobleSha256(buffer);
 	return hash;
 }
 
+/** Incremental SHA-256 for data that arrives in chunks. */
+export function createSha256() {
+	return nobleSha256.create();
+}
+
+/** Incremental HMAC-SHA256 for data that arrives in chunks. */
+export function createHmacSha256(key: Uint8Array) {
+	return nobleHmac.create(nobleSha256, key);
+}
+
 export function hkdf(
 	buffer: Uint8Array,
 	expandedLength: number,
@@ -67,6 +115,18 @@ export function hkdf(
 	return nobleHkdf(nobleSha256, buffer, info.salt, info.info, expandedLength);
 }
 
+export function pbkdf2Sha256(
+	password: string,
+	salt: Uint8Array,
+	iterations: number,
+	length: number,
+): Promise<Uint8Array> {
+	return pbkdf2Async(nobleSha256, password, salt, {
+		c: iterations,
+		dkLen: length,
+	});
+}
+
 export function randomBytes(size: number): Uint8Array {
 	return crypto.getRandomValues(new Uint8Array(size));
 }
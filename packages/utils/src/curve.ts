@@ -47,7 +47,7 @@ export const Curve = {
 		signature: Uint8Array,
 	): boolean => {
 		try {
-			return verify(publicKey, message, signature);
+			return verify(STRIP_PREFIX(publicKey), message, signature);
 		} catch {
 			return false;
 		}
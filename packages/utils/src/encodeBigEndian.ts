@@ -36,3 +36,17 @@ export const encodeBigEndian = (num: number, bytes = 4): Uint8Array => {
 
 	return arr;
 };
+
+export const decodeBigEndian = (
+	bytes: Uint8Array,
+	length = bytes.length,
+): number => {
+	if (bytes.length < length) {
+		throw new Error(`Expected at least ${length} bytes, got ${bytes.length}`);
+	}
+	let num = 0;
+	for (let i = 0; i < length; i++) {
+		num = num * 256 + (bytes[i] as number);
+	}
+	return num;
+};
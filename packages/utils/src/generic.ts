@@ -1,19 +1,14 @@
 import type { AuthenticationCreds } from "@wha.ts/types";
-import { Curve, randomBytes } from "@wha.ts/utils";
+import { Curve, decodeBigEndian, randomBytes } from "@wha.ts/utils";
 import type { KeyPair } from "./types";
 
+/** A random 14-bit registration id; 0 is not a valid id. */
 export const generateRegistrationId = (): number => {
-	const random = randomBytes(2);
-
-	const numbers = Uint16Array.from(random);
-
-	const number = numbers[0];
-
-	if (!number) {
-		throw new Error("Failed to generate registration ID");
+	let id = 0;
+	while (!id) {
+		id = decodeBigEndian(randomBytes(2)) & 16383;
 	}
-
-	return number & 16383;
+	return id;
 };
 
 export const initAuthCreds = (): AuthenticationCreds => {
@@ -1 +1,23 @@
-export { Mutex } from "async-mutex";
+import { Mutex } from "async-mutex";
+
+export { Mutex };
+
+/** One `Mutex` per key, dropped again once nobody holds or waits for it. */
+export class KeyedMutex {
+	private mutexes = new Map<string, Mutex>();
+
+	async runExclusive<T>(key: string, callback: () => Promise<T>): Promise<T> {
+		let mutex = this.mutexes.get(key);
+		if (!mutex) {
+			mutex = new Mutex();
+			this.mutexes.set(key, mutex);
+		}
+		try {
+			return await mutex.runExclusive(callback);
+		} finally {
+			if (!mutex.isLocked() && this.mutexes.get(key) === mutex) {
+				this.mutexes.delete(key);
+			}
+		}
+	}
+}